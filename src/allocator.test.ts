@@ -4,6 +4,9 @@
 
 import { describe, it, expect } from 'vitest';
 import { calculateAllocations, validateAllocations, getAllocationSummary } from './allocator';
+import { parseAmount } from './money';
+
+const sol = (value: string) => parseAmount(value, 'SOL');
 
 describe('Allocator', () => {
   it('should calculate allocations based on votes', () => {
@@ -14,7 +17,7 @@ describe('Allocator', () => {
     ];
     
     // Calculate allocations from a 10 SOL pool
-    const allocations = calculateAllocations(voteResults, 10);
+    const allocations = calculateAllocations(voteResults, sol('10'));
     
     // Should have 3 projects
     expect(allocations.length).toBe(3);
@@ -23,14 +26,14 @@ describe('Allocator', () => {
     const projectA = allocations.find(a => a.projectId === 'ProjectA');
     expect(projectA).toBeDefined();
     expect(projectA!.voteCount).toBe(3);
-    expect(projectA!.allocation).toBeGreaterThan(0);
+    expect(projectA!.allocation).toBeGreaterThan(0n);
     
-    // Allocations should sum to pool amount (within rounding)
-    expect(validateAllocations(allocations, 10)).toBe(true);
+    // Allocations should sum to the pool exactly
+    expect(validateAllocations(allocations, sol('10'))).toBe(true);
     
     // All allocations should be positive
     for (const alloc of allocations) {
-      expect(alloc.allocation).toBeGreaterThan(0);
+      expect(alloc.allocation).toBeGreaterThan(0n);
       expect(alloc.allocationPct).toBeGreaterThan(0);
     }
     
@@ -45,11 +48,11 @@ describe('Allocator', () => {
     ];
     
     // With minVotes=2, ProjectB should be excluded
-    const allocations = calculateAllocations(voteResults, 10, { minVotes: 2 });
+    const allocations = calculateAllocations(voteResults, sol('10'), { minVotes: 2 });
     
     expect(allocations.length).toBe(1);
     expect(allocations[0].projectId).toBe('ProjectA');
-    expect(allocations[0].allocation).toBe(10); // Gets full pool
+    expect(allocations[0].allocation).toBe(sol('10')); // Gets full pool
   });
   
   it('should generate readable summary', () => {
@@ -58,7 +61,7 @@ describe('Allocator', () => {
       { projectId: 'ProjectB', voteCount: 1, avgScore: 20, avgRank: 2.0 }
     ];
     
-    const summary = getAllocationSummary(voteResults, 10);
+    const summary = getAllocationSummary(voteResults, sol('10'));
     
     expect(summary).toContain('Fund Allocation');
     expect(summary).toContain('SOL');
@@ -68,10 +71,10 @@ describe('Allocator', () => {
   });
   
   it('should handle zero votes gracefully', () => {
-    const allocations = calculateAllocations([], 10);
+    const allocations = calculateAllocations([], sol('10'));
     expect(allocations.length).toBe(0);
     
-    const summary = getAllocationSummary([], 10);
+    const summary = getAllocationSummary([], sol('10'));
     expect(summary).toContain('No projects meet the minimum vote threshold');
   });
   
@@ -83,7 +86,7 @@ describe('Allocator', () => {
       { projectId: 'LowBoth', voteCount: 1, avgScore: 20, avgRank: 3.0 }     // weight: 6.67
     ];
     
-    const allocations = calculateAllocations(voteResults, 100);
+    const allocations = calculateAllocations(voteResults, sol('100'));
     
     expect(allocations.length).toBe(3);
     
@@ -96,11 +99,12 @@ describe('Allocator', () => {
     expect(highVotes).toBeDefined();
     expect(lowBoth).toBeDefined();
     
-    // Similar weights = similar allocations
-    expect(Math.abs(highScore!.allocation - highVotes!.allocation)).toBeLessThan(1);
+    // Same weights = same allocations, to within the one leftover lamport
+    const diff = highScore!.allocation - highVotes!.allocation;
+    expect(diff >= -1n && diff <= 1n).toBe(true);
     
     // LowBoth should get much less
-    expect(lowBoth!.allocation).toBeLessThan(highScore!.allocation / 2);
+    expect(lowBoth!.allocation).toBeLessThan(highScore!.allocation / 2n);
   });
   
   it('should validate allocations sum correctly', () => {
@@ -110,13 +114,17 @@ describe('Allocator', () => {
       { projectId: 'C', voteCount: 1, avgScore: 20, avgRank: 1.0 }
     ];
     
-    const allocations = calculateAllocations(voteResults, 9.99);
+    const allocations = calculateAllocations(voteResults, sol('9.99'));
     
-    // Should validate within tolerance
-    expect(validateAllocations(allocations, 9.99, 0.01)).toBe(true);
+    // Should sum to the pool exactly, with no rounding dust
+    expect(validateAllocations(allocations, sol('9.99'))).toBe(true);
+    expect(allocations.map(a => a.allocation)).toEqual([sol('3.33'), sol('3.33'), sol('3.33')]);
     
     // Should fail if pool amount is wrong
-    expect(validateAllocations(allocations, 10.99, 0.01)).toBe(false);
+    expect(validateAllocations(allocations, sol('10.99'), sol('0.01'))).toBe(false);
+    
+    // Should accept a small lamport tolerance when asked
+    expect(validateAllocations(allocations, sol('9.99') + 1n, 1n)).toBe(true);
   });
   
   it('should handle edge case with single project', () => {
@@ -124,10 +132,10 @@ describe('Allocator', () => {
       { projectId: 'OnlyProject', voteCount: 1, avgScore: 20, avgRank: 1.0 }
     ];
     
-    const allocations = calculateAllocations(voteResults, 5);
+    const allocations = calculateAllocations(voteResults, sol('5'));
     
     expect(allocations.length).toBe(1);
-    expect(allocations[0].allocation).toBe(5); // Gets entire pool
+    expect(allocations[0].allocation).toBe(sol('5')); // Gets entire pool
     expect(allocations[0].allocationPct).toBe(100);
   });
   
@@ -141,7 +149,7 @@ describe('Allocator', () => {
     ];
     
     // Get only top 3
-    const allocations = calculateAllocations(voteResults, 10, { topN: 3 });
+    const allocations = calculateAllocations(voteResults, sol('10'), { topN: 3 });
     
     expect(allocations.length).toBe(3);
     expect(allocations[0].projectId).toBe('First');
@@ -3,6 +3,7 @@
  */
 
 import { getVoteResults } from './baseline';
+import { formatAmount } from './money';
 
 interface VoteResult {
   projectId: string;
@@ -13,7 +14,7 @@ interface VoteResult {
 
 export interface AllocationResult {
   projectId: string;
-  allocation: number; // SOL amount
+  allocation: bigint; // lamports
   voteCount: number;
   avgScore: number;
   avgRank: number;
@@ -28,14 +29,16 @@ export interface AllocationResult {
  * 2. Weight = voteCount * avgScore / avgRank
  *    (more votes, higher scores, better ranks = more weight)
  * 3. Each project gets: (weight / totalWeight) * poolAmount
+ * 4. Shares are rounded down to whole lamports and the leftover lamports go to
+ *    the largest remainders, so the pool is split exactly
  * 
  * @param voteResults - Vote results from baseline test
- * @param poolAmount - Total SOL available for allocation
+ * @param poolAmount - Total lamports available for allocation
  * @param options - Optional filters (minVotes, topN)
  */
 export function calculateAllocations(
   voteResults: VoteResult[],
-  poolAmount: number,
+  poolAmount: bigint,
   options: { minVotes?: number; topN?: number } = {}
 ): AllocationResult[] {
   const { minVotes = 1, topN } = options;
@@ -58,14 +61,28 @@ export function calculateAllocations(
   
   const totalWeight = weighted.reduce((sum, p) => sum + p.weight, 0);
   
+  // Split the pool in whole lamports: floor each share, then hand the
+  // remaining lamports to the largest fractional remainders
+  const WEIGHT_SCALE = 1e9;
+  const scaled = weighted.map(p => BigInt(Math.round((p.weight / totalWeight) * WEIGHT_SCALE)));
+  const scaledTotal = scaled.reduce((sum, w) => sum + w, 0n);
+  const shares = scaled.map(w => (poolAmount * w) / scaledTotal);
+  const remainders = scaled.map((w, i) => ({ i, rem: (poolAmount * w) % scaledTotal }));
+  let leftover = poolAmount - shares.reduce((sum, v) => sum + v, 0n);
+  remainders.sort((a, b) => (b.rem > a.rem ? 1 : b.rem < a.rem ? -1 : 0));
+  for (const { i } of remainders) {
+    if (leftover === 0n) break;
+    shares[i] += 1n;
+    leftover -= 1n;
+  }
+  
   // Calculate allocations
-  const allocations: AllocationResult[] = weighted.map(project => {
+  const allocations: AllocationResult[] = weighted.map((project, i) => {
     const allocationPct = (project.weight / totalWeight) * 100;
-    const allocation = (project.weight / totalWeight) * poolAmount;
     
     return {
       projectId: project.projectId,
-      allocation: parseFloat(allocation.toFixed(4)), // Round to 4 decimals
+      allocation: shares[i],
       voteCount: project.voteCount,
       avgScore: project.avgScore,
       avgRank: project.avgRank,
@@ -74,7 +91,7 @@ export function calculateAllocations(
   });
   
   // Sort by allocation (highest first)
-  allocations.sort((a, b) => b.allocation - a.allocation);
+  allocations.sort((a, b) => (b.allocation > a.allocation ? 1 : b.allocation < a.allocation ? -1 : 0));
   
   // Apply topN filter if specified
   if (topN && topN < allocations.length) {
@@ -89,7 +106,7 @@ export function calculateAllocations(
  */
 export function getAllocationSummary(
   voteResults: VoteResult[],
-  poolAmount: number,
+  poolAmount: bigint,
   options?: { minVotes?: number; topN?: number }
 ): string {
   const allocations = calculateAllocations(voteResults, poolAmount, options);
@@ -99,16 +116,16 @@ export function getAllocationSummary(
   }
   
   const lines = [
-    `Fund Allocation (${poolAmount} SOL pool)`,
+    `Fund Allocation (${formatAmount(poolAmount, 'SOL')} SOL pool)`,
     '='.repeat(50),
     ''
   ];
   
-  let total = 0;
+  let total = 0n;
   for (const alloc of allocations) {
     lines.push(
       `${alloc.projectId}`,
-      `  Allocation: ${alloc.allocation} SOL (${alloc.allocationPct}%)`,
+      `  Allocation: ${formatAmount(alloc.allocation, 'SOL')} SOL (${alloc.allocationPct}%)`,
       `  Votes: ${alloc.voteCount} | Avg Score: ${alloc.avgScore.toFixed(1)} | Avg Rank: ${alloc.avgRank.toFixed(1)}`,
       ''
     );
@@ -116,20 +133,20 @@ export function getAllocationSummary(
   }
   
   lines.push('='.repeat(50));
-  lines.push(`Total Allocated: ${total.toFixed(4)} SOL`);
+  lines.push(`Total Allocated: ${formatAmount(total, 'SOL')} SOL`);
   
   return lines.join('\n');
 }
 
 /**
- * Validate allocations sum to pool amount (within rounding error)
+ * Validate allocations sum to pool amount (exactly, unless a lamport tolerance is given)
  */
 export function validateAllocations(
   allocations: AllocationResult[],
-  poolAmount: number,
-  tolerance: number = 0.01
+  poolAmount: bigint,
+  tolerance: bigint = 0n
 ): boolean {
-  const total = allocations.reduce((sum, a) => sum + a.allocation, 0);
-  const diff = Math.abs(total - poolAmount);
+  const total = allocations.reduce((sum, a) => sum + a.allocation, 0n);
+  const diff = total > poolAmount ? total - poolAmount : poolAmount - total;
   return diff <= tolerance;
 }
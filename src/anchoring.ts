@@ -0,0 +1,17 @@
+/**
+ * Memo format for publishing audit log Merkle roots on-chain
+ *
+ * Format: eve-fund:anchor:v1:<root>:<fromSeq>-<toSeq>
+ */
+
+import { AuditAnchor } from './types';
+
+export const ANCHOR_MEMO_PREFIX = 'eve-fund:anchor:v1';
+
+/**
+ * Build the memo text for an anchor
+ */
+export function formatAnchorMemo(anchor: Pick<AuditAnchor, 'root' | 'fromSeq' | 'toSeq'>): string {
+  return `${ANCHOR_MEMO_PREFIX}:${anchor.root}:${anchor.fromSeq}-${anchor.toSeq}`;
+}
+
@@ -0,0 +1,120 @@
+/**
+ * Hash-chained audit log
+ *
+ * Every change to the ledger is appended as an entry carrying the hash of
+ * the previous entry, so editing or removing any past entry breaks the chain.
+ */
+
+import { createHash } from 'crypto';
+import { AuditLogEntry, AuditLogEntryType, IntegrityReport } from './types';
+import { jsonReplacer } from './money';
+
+// prevHash of the very first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Normalize a value to plain JSON (Dates become ISO strings, bigints decimal strings)
+ */
+export function toJsonValue(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value, jsonReplacer));
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal data always hashes the same
+ */
+export function canonicalJson(value: unknown): string {
+  const sortKeys = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(sortKeys);
+    if (v && typeof v === 'object') {
+      const sorted: Record<string, unknown> = {};
+      for (const key of Object.keys(v).sort()) {
+        sorted[key] = sortKeys((v as Record<string, unknown>)[key]);
+      }
+      return sorted;
+    }
+    return v;
+  };
+  return JSON.stringify(sortKeys(toJsonValue(value)));
+}
+
+/**
+ * Compute the hash of an entry from everything except the hash itself
+ */
+export function hashEntry(entry: Omit<AuditLogEntry, 'hash'>): string {
+  return createHash('sha256')
+    .update(canonicalJson({
+      seq: entry.seq,
+      type: entry.type,
+      recordId: entry.recordId,
+      data: entry.data,
+      timestamp: entry.timestamp,
+      prevHash: entry.prevHash
+    }))
+    .digest('hex');
+}
+
+export class AuditLog {
+  private entries: AuditLogEntry[];
+
+  constructor(entries: AuditLogEntry[] = []) {
+    this.entries = entries;
+  }
+
+  // Append a snapshot of a record to the chain
+  append(type: AuditLogEntryType, recordId: string, data: unknown): AuditLogEntry {
+    const prev = this.entries[this.entries.length - 1];
+    const unhashed = {
+      seq: this.entries.length,
+      type,
+      recordId,
+      data: toJsonValue(data),
+      timestamp: new Date().toISOString(),
+      prevHash: prev ? prev.hash : GENESIS_HASH
+    };
+    const entry: AuditLogEntry = { ...unhashed, hash: hashEntry(unhashed) };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  getEntries(): AuditLogEntry[] {
+    return [...this.entries];
+  }
+
+  get length(): number {
+    return this.entries.length;
+  }
+
+  // Latest logged entry for each record id
+  latestByRecord(): Map<string, AuditLogEntry> {
+    const latest = new Map<string, AuditLogEntry>();
+    for (const entry of this.entries) {
+      latest.set(entry.recordId, entry);
+    }
+    return latest;
+  }
+
+  /**
+   * Walk the chain and report the first entry whose link or hash doesn't check out
+   */
+  verify(): IntegrityReport {
+    let prevHash = GENESIS_HASH;
+
+    for (let i = 0; i < this.entries.length; i++) {
+      const entry = this.entries[i];
+
+      if (entry.seq !== i) {
+        return { valid: false, entriesChecked: i, firstBrokenSeq: i, reason: `Expected seq ${i}, found ${entry.seq}` };
+      }
+      if (entry.prevHash !== prevHash) {
+        return { valid: false, entriesChecked: i, firstBrokenSeq: i, reason: `Entry ${i} does not link to the previous entry` };
+      }
+      if (hashEntry(entry) !== entry.hash) {
+        return { valid: false, entriesChecked: i, firstBrokenSeq: i, reason: `Entry ${i} content does not match its hash` };
+      }
+
+      prevHash = entry.hash;
+    }
+
+    return { valid: true, entriesChecked: this.entries.length };
+  }
+}
@@ -7,7 +7,8 @@
  * - Prevents one agent from impersonating another
  */
 
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
 
 interface AuthRequest extends Request {
   agentId?: string;
@@ -17,6 +18,9 @@ interface AuthRequest extends Request {
 // In production, this would be persisted to DB
 const tokenRegistry = new Map<string, string>();
 
+// Compare digests so token checks take the same time whatever the token length
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
 /**
  * Verify token and enforce consistency
  */
@@ -71,6 +75,77 @@ export async function verifyToken(
   }
 }
 
+/**
+ * Guard fund ledger writes with a fixed operator token, unlike the
+ * first-use registration above. Without a configured token every write is refused.
+ */
+export function requireOperatorToken(expected: string | undefined): RequestHandler {
+  return (req, res, next) => {
+    if (!expected) {
+      res.status(403).json({ error: 'Fund API writes are disabled. Set EVE_FUND_API_TOKEN to enable them.' });
+      return;
+    }
+
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      res.status(401).json({ error: 'Missing or invalid Authorization header. Use: Authorization: Bearer <operator-token>' });
+      return;
+    }
+
+    if (!timingSafeEqual(digest(authHeader.substring(7)), digest(expected))) {
+      res.status(403).json({ error: 'Invalid operator token' });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Guard proof reviews with one token per reviewer. The request acts as the
+ * reviewer its token belongs to (res.locals.reviewer), so nobody holding a
+ * token can sign a review with someone else's name. Without configured
+ * reviewers every review is refused.
+ */
+export function requireReviewerToken(tokens: Record<string, string>): RequestHandler {
+  const reviewers = Object.entries(tokens)
+    .filter(([name, token]) => name && token)
+    .map(([name, token]) => ({ name, digest: digest(token) }));
+
+  return (req, res, next) => {
+    if (reviewers.length === 0) {
+      res.status(403).json({ error: 'Proof reviews are disabled. Set EVE_FUND_REVIEWER_TOKENS to enable them.' });
+      return;
+    }
+
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      res.status(401).json({ error: 'Missing or invalid Authorization header. Use: Authorization: Bearer <reviewer-token>' });
+      return;
+    }
+
+    const presented = digest(authHeader.substring(7));
+    const reviewer = reviewers.find(r => timingSafeEqual(r.digest, presented));
+    if (!reviewer) {
+      res.status(403).json({ error: 'Invalid reviewer token' });
+      return;
+    }
+
+    res.locals.reviewer = reviewer.name;
+    next();
+  };
+}
+
+// Parse EVE_FUND_REVIEWER_TOKENS: "alice=token1,bob=token2"
+export function parseReviewerTokens(value: string | undefined): Record<string, string> {
+  const tokens: Record<string, string> = {};
+  for (const pair of (value ?? '').split(',')) {
+    const at = pair.indexOf('=');
+    if (at > 0) tokens[pair.slice(0, at).trim()] = pair.slice(at + 1).trim();
+  }
+  return tokens;
+}
+
 /**
  * Get all registered agents (for transparency)
  */
@@ -1,7 +1,8 @@
 /**
  * Baseline Test API Server
  * 
- * Exposes REST endpoints for the agent baseline test.
+ * Exposes REST endpoints for the agent baseline test, plus the fund
+ * ledger routes from fund-api.ts.
  */
 
 import express, { Request } from 'express';
@@ -16,6 +17,9 @@ import {
 } from './baseline';
 import { verifyToken } from './auth-middleware';
 import { calculateAllocations } from './allocator';
+import { parseAmount, formatAmount } from './money';
+import { TransparentFund } from './index';
+import { createFundRouter } from './fund-api';
 
 interface AuthRequest extends Request {
   agentId?: string;
@@ -25,6 +29,10 @@ const app = express();
 app.use(cors());
 app.use(express.json());
 
+// The fund ledger for EVE_FUND_NETWORK (devnet by default); writes need EVE_FUND_API_TOKEN
+const fund = new TransparentFund({ network: process.env.EVE_FUND_NETWORK === 'mainnet' ? 'mainnet' : 'devnet' });
+app.use(createFundRouter(fund));
+
 /**
  * POST /api/baseline/start
  * Start a new baseline test session
@@ -156,9 +164,10 @@ app.get('/api/dashboard', (req, res) => {
     const results = getVoteResults();
     const sessions = getAllSessions();
     
-    // Calculate allocations for top 3
-    const poolAmount = 0.3; // SOL to allocate
-    const allocations = calculateAllocations(results, poolAmount, { topN: 3 });
+    // Calculate allocations for top 3 (amounts stay JSON numbers for existing clients)
+    const poolAmount = parseAmount('0.3', 'SOL');
+    const allocations = calculateAllocations(results, poolAmount, { topN: 3 })
+      .map(a => ({ ...a, allocation: Number(formatAmount(a.allocation, 'SOL')) }));
     
     // Stats
     const completedSessions = sessions.filter(s => s.completed);
@@ -176,7 +185,7 @@ app.get('/api/dashboard', (req, res) => {
           : 0,
         totalVotes: results.reduce((sum, r) => sum + r.voteCount, 0),
         uniqueProjects: results.length,
-        poolAmount
+        poolAmount: Number(formatAmount(poolAmount, 'SOL'))
       },
       lastUpdated: new Date().toISOString()
     });
@@ -198,6 +207,16 @@ export function startServer() {
     console.log('  GET  /api/baseline/results');
     console.log('  GET  /api/baseline/sessions');
     console.log('  GET  /api/baseline/sessions/:sessionId');
+    console.log('  GET  /api/fund/summary');
+    console.log('  GET  /api/donations, /api/donations/:id, /api/donations/:id/trace');
+    console.log('  GET  /api/allocations, /api/allocations/:id');
+    console.log('  GET  /api/proofs, /api/proofs/:id, /api/proofs/:id/evidence');
+    console.log('  GET  /api/evidence/:hash');
+    console.log('  GET  /api/audit-trail?format=json|markdown');
+    console.log('  GET  /api/export');
+    console.log('  GET  /api/donors/:address');
+    console.log('  POST /api/evidence, /api/proofs (signed by the recipient)');
+    console.log('  POST /api/donations, /api/proofs/:id/review (operator token)');
   });
 }
 
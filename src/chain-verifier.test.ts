@@ -1,8 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { ChainVerifier } from './chain-verifier';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { ChainVerifier, ChainConnection, transfersFor } from './chain-verifier';
+import { FakeChain } from './test-support/fake-chain';
+import { NETWORK_DEFAULTS } from './network';
+
+const newAddress = () => Keypair.generate().publicKey.toBase58();
 
 describe('ChainVerifier', () => {
-  const verifier = new ChainVerifier('devnet');
+  const chain = new FakeChain();
+  const verifier = new ChainVerifier('devnet', chain.connection());
 
   it('should create verifier for devnet', () => {
     expect(verifier).toBeDefined();
@@ -13,10 +19,10 @@ describe('ChainVerifier', () => {
     expect(result).toBeNull();
   });
 
-  // This test uses a real devnet transaction - skip if we don't have one
-  it.skip('should verify a real SOL transfer', async () => {
-    // Replace with an actual devnet tx hash when testing
-    const txHash = 'YOUR_DEVNET_TX_HASH';
+  it('should verify a SOL transfer', async () => {
+    const from = newAddress();
+    chain.fund(from, 2_000_000_000n);
+    const txHash = chain.transfer({ from, to: newAddress(), amount: 1_000_000_000n, currency: 'SOL' });
     const result = await verifier.verifyTransaction(txHash);
     
     expect(result).not.toBeNull();
@@ -26,17 +32,162 @@ describe('ChainVerifier', () => {
 });
 
 describe('ChainVerifier.verifyDonation', () => {
-  const verifier = new ChainVerifier('devnet');
+  const chain = new FakeChain();
+  const verifier = new ChainVerifier('devnet', chain.connection());
   
   it('should reject non-existent transaction', async () => {
     const result = await verifier.verifyDonation(
       'fake-tx',
       'fake-address',
-      1.0,
+      1_000_000_000n,
       'SOL'
     );
     
     expect(result.valid).toBe(false);
     expect(result.reason).toContain('not found');
   });
+
+  it('should reject a transfer to another address', async () => {
+    const from = newAddress();
+    const fund = newAddress();
+    chain.fund(from, 2_000_000_000n);
+    const txHash = chain.transfer({ from, to: newAddress(), amount: 1_000_000_000n, currency: 'SOL' });
+
+    const result = await verifier.verifyDonation(txHash, fund, 1_000_000_000n, 'SOL');
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('Wrong recipient');
+  });
+});
+
+describe('ChainVerifier transfer parsing', () => {
+  const chain = new FakeChain();
+  const verifier = new ChainVerifier('devnet', chain.connection());
+  const sender = newAddress();
+  const fund = newAddress();
+  chain.fund(sender, 10_000_000_000n);
+  chain.fund(sender, 100_000_000n, 'USDC');
+
+  // A connection serving one hand-built parsed transaction
+  const serve = (tx: unknown) => new ChainVerifier('devnet', {
+    getParsedTransaction: async () => tx,
+    getSignaturesForAddress: async () => []
+  } as unknown as ChainConnection);
+
+  const tokenTransfer = (info: Record<string, unknown>, mint: string) => {
+    const keys = [sender, newAddress(), newAddress()]; // fee payer, source and destination token accounts
+    const balance = (accountIndex: number, owner: string) => ({ accountIndex, mint, owner, uiTokenAmount: { amount: '0', decimals: 6 } });
+    return {
+      slot: 1,
+      blockTime: 1,
+      meta: {
+        err: null,
+        fee: 5000,
+        innerInstructions: [],
+        preTokenBalances: [balance(1, sender), balance(2, fund)],
+        postTokenBalances: [balance(1, sender), balance(2, fund)]
+      },
+      transaction: {
+        message: {
+          accountKeys: keys.map(key => ({ pubkey: new PublicKey(key) })),
+          instructions: [{ program: 'spl-token', parsed: { info: { source: keys[1], destination: keys[2], ...info }, type: info.tokenAmount ? 'transferChecked' : 'transfer' } }]
+        }
+      }
+    };
+  };
+
+  it('lists every transfer and credits the one paying the given address', async () => {
+    const other = newAddress();
+    const txHash = chain.batch(sender, [
+      { to: other, amount: 3_000_000n, currency: 'SOL' },
+      { to: fund, amount: 1_000_000n, currency: 'SOL' }
+    ]);
+
+    const tx = await verifier.verifyTransaction(txHash, fund);
+    expect(tx?.transfers).toHaveLength(2);
+    expect(tx).toMatchObject({ from: sender, to: fund, amount: 1_000_000n });
+    expect((await verifier.verifyDonation(txHash, fund, 1_000_000n, 'SOL')).valid).toBe(true);
+  });
+
+  it('sums several payments to the same address', async () => {
+    const txHash = chain.batch(sender, [
+      { to: fund, amount: 1_000_000n, currency: 'SOL' },
+      { to: fund, amount: 2_000_000n, currency: 'SOL' }
+    ]);
+
+    expect((await verifier.verifyTransaction(txHash, fund))?.amount).toBe(3_000_000n);
+  });
+
+  it('credits each sender only with what they paid', async () => {
+    const other = newAddress();
+    const solTransfer = (source: string, lamports: number) =>
+      ({ program: 'system', parsed: { type: 'transfer', info: { source, destination: fund, lamports } } });
+    const tx = await serve({
+      slot: 1,
+      blockTime: 1,
+      meta: {
+        err: null,
+        fee: 5000,
+        innerInstructions: [{ index: 0, instructions: [{ program: 'spl-memo', parsed: 'for both of us' }] }]
+      },
+      transaction: {
+        message: {
+          accountKeys: [sender, other, fund].map(key => ({ pubkey: new PublicKey(key) })),
+          instructions: [solTransfer(sender, 1_000_000), solTransfer(other, 2_000_000), solTransfer(sender, 500_000)]
+        }
+      }
+    }).verifyTransaction('sig', fund);
+
+    expect(tx).toMatchObject({ from: sender, to: fund, amount: 1_500_000n, memo: 'for both of us' });
+    expect(transfersFor(tx!.transfers, fund, 'to')).toMatchObject([
+      { from: sender, amount: 1_500_000n },
+      { from: other, amount: 2_000_000n }
+    ]);
+  });
+
+  it('reports the fee and rent an address paid, even without a transfer', async () => {
+    const account = newAddress();
+    const verifier = new ChainVerifier('devnet', {
+      getParsedTransaction: async () => ({
+        slot: 1,
+        blockTime: 1,
+        meta: {
+          err: null,
+          fee: 5000,
+          innerInstructions: [{
+            index: 0,
+            instructions: [{ program: 'system', parsed: { type: 'createAccount', info: { source: fund, newAccount: account, lamports: 2_039_280 } } }]
+          }]
+        },
+        transaction: {
+          message: {
+            accountKeys: [fund, account].map(key => ({ pubkey: new PublicKey(key) })),
+            instructions: [{ programId: new PublicKey(account), accounts: [], data: '' }]
+          }
+        }
+      }),
+      getSignaturesForAddress: async () => [{ signature: 'sig', err: null }]
+    } as unknown as ChainConnection);
+
+    expect(await verifier.getAccountHistory(fund)).toEqual({ transfers: [], costs: [{ txHash: 'sig', fee: 5000n, rent: 2_039_280n }] });
+  });
+
+  it('reads transfers made through inner instructions and resolves token owners', async () => {
+    const txHash = chain.batch(sender, [{ to: fund, amount: 5_000_000n, currency: 'USDC' }], { viaProgram: true });
+
+    const tx = await verifier.verifyTransaction(txHash, fund);
+    expect(tx).toMatchObject({ from: sender, to: fund, amount: 5_000_000n, currency: 'USDC' });
+  });
+
+  it('resolves the mint of a plain token transfer from the token balances', async () => {
+    const usdc = NETWORK_DEFAULTS.devnet.tokens.find(t => t.symbol === 'USDC')!.mint!;
+    const tx = await serve(tokenTransfer({ amount: '2500000', authority: sender }, usdc)).verifyTransaction('sig', fund);
+    expect(tx).toMatchObject({ from: sender, to: fund, amount: 2_500_000n, currency: 'USDC' });
+  });
+
+  it('ignores other 6-decimal tokens', async () => {
+    const mint = Keypair.generate().publicKey.toBase58();
+    const tx = await serve(tokenTransfer({ tokenAmount: { amount: '2500000', decimals: 6 }, mint, authority: sender }, mint))
+      .verifyTransaction('sig', fund);
+    expect(tx).toBeNull();
+  });
 });
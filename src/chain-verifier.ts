@@ -4,64 +4,81 @@
  * Verifies donations and allocations by checking actual Solana transactions
  */
 
-import { Connection, PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
+import {
+  Connection,
+  PublicKey,
+  ParsedTransactionWithMeta,
+  ParsedInstruction,
+  PartiallyDecodedInstruction,
+  ConfirmedSignatureInfo
+} from '@solana/web3.js';
+import { Currency, InclusionProof, Network } from './types';
+import { NetworkConfig, NETWORK_DEFAULTS } from './network';
+import { TokenRegistry, NATIVE_SOL } from './tokens';
+import { hashEntry } from './audit-log';
+import { verifyMerkleProof } from './merkle';
+import { formatAnchorMemo } from './anchoring';
+import { DonationReceipt, verifyReceiptSignature } from './receipts';
 
+// One SOL or SPL token movement inside a transaction; token accounts are resolved to their owners
+export interface TransferDetail {
+  from: string;
+  to: string;
+  amount: bigint; // base units
+  currency: Currency;
+}
+
+/**
+ * A transaction's transfers, summarised from one address's point of view:
+ * from/to/amount/currency describe what moved into that address (or, failing
+ * that, out of it) from its first counterparty in the first currency, summed
+ * across the transaction. transfersFor() lists every counterparty.
+ */
 export interface VerifiedTransaction {
   txHash: string;
   from: string;
   to: string;
-  amount: number;
-  currency: 'SOL' | 'USDC';
+  amount: bigint; // base units
+  currency: Currency;
+  transfers: TransferDetail[]; // every transfer, including inner instructions, in execution order
   timestamp: Date;
   confirmed: boolean;
   slot: number;
+  fee: bigint; // lamports paid by the fee payer
+  feePayer: string;
+  memo?: string;
+}
+
+// What an address paid a transaction beyond its transfers, in lamports
+export interface NetworkCost {
+  txHash: string;
+  fee: bigint; // the transaction fee, when the address paid it (failed transactions pay too)
+  rent: bigint; // lamports moved into accounts it created, such as a recipient's token account
 }
 
-// Known USDC mint on devnet and mainnet
-const USDC_MINTS = {
-  devnet: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
-  mainnet: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
-};
+// The parts of a Solana Connection the verifier relies on, so a local fake can stand in
+export type ChainConnection = Pick<Connection, 'getParsedTransaction' | 'getSignaturesForAddress'>;
 
 export class ChainVerifier {
-  private connection: Connection;
-  private network: 'devnet' | 'mainnet';
+  private connection: ChainConnection;
+  private config: NetworkConfig;
+  public readonly tokens: TokenRegistry;
 
-  constructor(network: 'devnet' | 'mainnet' = 'devnet') {
-    this.network = network;
-    const rpcUrl = network === 'devnet' 
-      ? 'https://api.devnet.solana.com'
-      : 'https://api.mainnet-beta.solana.com';
-    this.connection = new Connection(rpcUrl, 'confirmed');
+  // Reading the chain is safe on any network, so a bare network name needs no opt-in
+  constructor(network: Network | NetworkConfig = 'devnet', connection?: ChainConnection) {
+    this.config = typeof network === 'string' ? NETWORK_DEFAULTS[network] : network;
+    this.tokens = new TokenRegistry(this.config.tokens);
+    this.connection = connection || new Connection(this.config.rpcUrl, 'confirmed');
   }
 
   /**
-   * Verify a transaction exists and extract details
+   * Verify a transaction exists and extract details.
+   * Pass the address you care about (usually the fund) to summarise transfers
+   * relative to it; otherwise the first transfer is used.
    */
-  async verifyTransaction(txHash: string): Promise<VerifiedTransaction | null> {
+  async verifyTransaction(txHash: string, address?: string): Promise<VerifiedTransaction | null> {
     try {
-      const tx = await this.connection.getParsedTransaction(txHash, {
-        maxSupportedTransactionVersion: 0
-      });
-
-      if (!tx || !tx.meta || tx.meta.err) {
-        return null;
-      }
-
-      // Try to extract transfer details
-      const transfer = this.extractTransferDetails(tx);
-      if (!transfer) return null;
-
-      return {
-        txHash,
-        from: transfer.from,
-        to: transfer.to,
-        amount: transfer.amount,
-        currency: transfer.currency,
-        timestamp: new Date((tx.blockTime || 0) * 1000),
-        confirmed: true,
-        slot: tx.slot
-      };
+      return await this.loadTransaction(txHash, address);
     } catch (error) {
       console.error(`Failed to verify transaction ${txHash}:`, error);
       return null;
@@ -69,59 +86,192 @@ export class ChainVerifier {
   }
 
   /**
-   * Extract transfer details from a parsed transaction
+   * Like verifyTransaction, but RPC failures throw instead of returning null,
+   * so callers can tell "not a transfer" apart from "couldn't ask"
    */
-  private extractTransferDetails(tx: ParsedTransactionWithMeta): {
-    from: string;
-    to: string;
-    amount: number;
-    currency: 'SOL' | 'USDC';
-  } | null {
-    const instructions = tx.transaction.message.instructions;
-
-    for (const ix of instructions) {
-      // Check for native SOL transfer
-      if ('parsed' in ix && ix.program === 'system') {
-        if (ix.parsed.type === 'transfer') {
-          return {
-            from: ix.parsed.info.source,
-            to: ix.parsed.info.destination,
-            amount: ix.parsed.info.lamports / 1e9, // Convert lamports to SOL
-            currency: 'SOL'
-          };
-        }
+  async loadTransaction(txHash: string, address?: string): Promise<VerifiedTransaction | null> {
+    const tx = await this.connection.getParsedTransaction(txHash, {
+      maxSupportedTransactionVersion: 0
+    });
+    return tx ? this.summarize(txHash, tx, address) : null;
+  }
+
+  private summarize(txHash: string, tx: ParsedTransactionWithMeta, address?: string): VerifiedTransaction | null {
+    if (!tx.meta || tx.meta.err) {
+      return null;
+    }
+
+    const transfers = this.extractTransfers(tx);
+    const transfer = summarizeTransfers(transfers, address);
+    if (!transfer) return null;
+
+    return {
+      txHash,
+      ...transfer,
+      transfers,
+      timestamp: new Date((tx.blockTime || 0) * 1000),
+      confirmed: true,
+      slot: tx.slot,
+      fee: BigInt(tx.meta.fee),
+      feePayer: tx.transaction.message.accountKeys[0]?.pubkey.toBase58() ?? transfer.from,
+      memo: this.extractMemo(tx) ?? undefined
+    };
+  }
+
+  /**
+   * List signatures for an address, newest first.
+   * `before` pages backwards in time; `until` stops at an already-seen signature.
+   */
+  async getSignatures(
+    address: string,
+    options: { before?: string; until?: string; limit?: number } = {}
+  ): Promise<ConfirmedSignatureInfo[]> {
+    return this.connection.getSignaturesForAddress(new PublicKey(address), options);
+  }
+
+  /**
+   * Page through every signature newer than `until` (or the whole history), oldest first
+   */
+  async getAllSignatures(
+    address: string,
+    options: { until?: string; pageSize?: number } = {}
+  ): Promise<ConfirmedSignatureInfo[]> {
+    const { until, pageSize = 100 } = options;
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+
+    while (true) {
+      const page = await this.getSignatures(address, { before, until, limit: pageSize });
+      signatures.push(...page);
+      if (page.length < pageSize) break;
+      before = page[page.length - 1].signature;
+    }
+
+    return signatures.reverse();
+  }
+
+  /**
+   * Every successful transfer into or out of an address, oldest first.
+   * RPC failures throw, since a partial history would mislead reconciliation.
+   */
+  async getTransferHistory(address: string): Promise<VerifiedTransaction[]> {
+    return (await this.getAccountHistory(address)).transfers;
+  }
+
+  /**
+   * An address's transfers (as getTransferHistory) together with what it paid
+   * in fees and rent, including transactions that moved no funds, such as
+   * memo-only audit anchors, and failed ones. Each transaction is fetched once.
+   */
+  async getAccountHistory(address: string): Promise<{ transfers: VerifiedTransaction[]; costs: NetworkCost[] }> {
+    const transfers: VerifiedTransaction[] = [];
+    const costs: NetworkCost[] = [];
+    for (const sig of await this.getAllSignatures(address)) {
+      const tx = await this.connection.getParsedTransaction(sig.signature, {
+        maxSupportedTransactionVersion: 0
+      });
+      if (!tx || !tx.meta) continue;
+
+      const cost = this.networkCost(sig.signature, tx, address);
+      if (cost.fee > 0n || cost.rent > 0n) costs.push(cost);
+
+      const transfer = this.summarize(sig.signature, tx, address);
+      if (transfer && (transfer.to === address || transfer.from === address)) {
+        transfers.push(transfer);
       }
+    }
+    return { transfers, costs };
+  }
 
-      // Check for SPL token transfer (USDC)
-      if ('parsed' in ix && ix.program === 'spl-token') {
-        if (ix.parsed.type === 'transfer' || ix.parsed.type === 'transferChecked') {
-          const info = ix.parsed.info;
-          // Check if it's USDC by looking at the mint
-          const mint = info.mint || '';
-          const usdcMint = USDC_MINTS[this.network];
-          
-          if (mint === usdcMint || this.isLikelyUsdc(info)) {
-            const amount = info.tokenAmount?.uiAmount || info.amount / 1e6;
-            return {
-              from: info.authority || info.source,
-              to: info.destination,
-              amount,
-              currency: 'USDC'
-            };
-          }
+  private networkCost(txHash: string, tx: ParsedTransactionWithMeta, address: string): NetworkCost {
+    const feePayer = tx.transaction.message.accountKeys[0]?.pubkey.toBase58();
+    let rent = 0n;
+    if (!tx.meta!.err) {
+      const inner = (tx.meta!.innerInstructions ?? []).flatMap(set => set.instructions);
+      for (const ix of [...tx.transaction.message.instructions, ...inner]) {
+        if ('parsed' in ix && ix.program === 'system' && ix.parsed.type === 'createAccount' && ix.parsed.info.source === address) {
+          rent += BigInt(ix.parsed.info.lamports);
         }
       }
     }
+    return { txHash, fee: feePayer === address ? BigInt(tx.meta!.fee) : 0n, rent };
+  }
+
+  /**
+   * Every SOL and registered-token transfer in a parsed transaction, top-level
+   * and inner (CPI) instructions alike, in execution order. Token accounts are
+   * mapped to their owners through the pre/post token balances; mints outside
+   * the token registry are ignored.
+   */
+  private extractTransfers(tx: ParsedTransactionWithMeta): TransferDetail[] {
+    const tokenAccounts = this.tokenAccounts(tx);
+    const inner = new Map((tx.meta?.innerInstructions ?? []).map(set => [set.index, set.instructions]));
+    const transfers: TransferDetail[] = [];
+
+    tx.transaction.message.instructions.forEach((ix, index) => {
+      for (const instruction of [ix, ...(inner.get(index) ?? [])]) {
+        const transfer = this.parseTransfer(instruction, tokenAccounts);
+        if (transfer) transfers.push(transfer);
+      }
+    });
+
+    return transfers;
+  }
+
+  private parseTransfer(
+    ix: ParsedInstruction | PartiallyDecodedInstruction,
+    tokenAccounts: Map<string, { owner?: string; mint: string }>
+  ): TransferDetail | null {
+    if (!('parsed' in ix) || typeof ix.parsed !== 'object') return null;
+    const { type, info } = ix.parsed;
+
+    if (ix.program === 'system' && type === 'transfer') {
+      return { from: info.source, to: info.destination, amount: BigInt(info.lamports), currency: NATIVE_SOL.symbol };
+    }
+
+    if ((ix.program === 'spl-token' || ix.program === 'spl-token-2022') && (type === 'transfer' || type === 'transferChecked')) {
+      const source = tokenAccounts.get(info.source);
+      const destination = tokenAccounts.get(info.destination);
+      // Plain transfers don't name the mint, so fall back to the accounts' balances
+      const mint = info.mint ?? source?.mint ?? destination?.mint;
+      const token = mint ? this.tokens.fromMint(mint) : undefined;
+      if (!token) return null;
+
+      return {
+        // A delegate may sign, but the funds leave the source account's owner
+        from: source?.owner ?? info.authority ?? info.multisigAuthority ?? info.source,
+        to: destination?.owner ?? info.destination,
+        // transferChecked carries tokenAmount; plain transfer a raw amount string
+        amount: BigInt(info.tokenAmount?.amount ?? info.amount),
+        currency: token.symbol
+      };
+    }
 
     return null;
   }
 
+  // Token account address -> owner and mint, from the transaction's token balances
+  private tokenAccounts(tx: ParsedTransactionWithMeta): Map<string, { owner?: string; mint: string }> {
+    const keys = tx.transaction.message.accountKeys;
+    const accounts = new Map<string, { owner?: string; mint: string }>();
+    for (const balance of [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])]) {
+      const key = keys[balance.accountIndex]?.pubkey.toBase58();
+      if (key) accounts.set(key, { owner: balance.owner ?? accounts.get(key)?.owner, mint: balance.mint });
+    }
+    return accounts;
+  }
+
   /**
-   * Heuristic check for USDC (6 decimals)
+   * Find the memo instruction in a parsed transaction, top-level or inner
    */
-  private isLikelyUsdc(info: any): boolean {
-    const decimals = info.tokenAmount?.decimals;
-    return decimals === 6;
+  private extractMemo(tx: ParsedTransactionWithMeta): string | null {
+    const inner = (tx.meta?.innerInstructions ?? []).flatMap(set => set.instructions);
+    for (const ix of [...tx.transaction.message.instructions, ...inner]) {
+      if ('parsed' in ix && ix.program === 'spl-memo') {
+        return ix.parsed as string;
+      }
+    }
+    return null;
   }
 
   /**
@@ -129,16 +279,16 @@ export class ChainVerifier {
    */
   async getRecentTransactions(
     address: string,
-    limit: number = 10
+    limit: number = 10,
+    cursor: { before?: string; until?: string } = {}
   ): Promise<VerifiedTransaction[]> {
     try {
-      const pubkey = new PublicKey(address);
-      const signatures = await this.connection.getSignaturesForAddress(pubkey, { limit });
+      const signatures = await this.getSignatures(address, { ...cursor, limit });
       
       const transactions: VerifiedTransaction[] = [];
       
       for (const sig of signatures) {
-        const verified = await this.verifyTransaction(sig.signature);
+        const verified = await this.verifyTransaction(sig.signature, address);
         if (verified && verified.to === address) {
           transactions.push(verified);
         }
@@ -157,10 +307,10 @@ export class ChainVerifier {
   async verifyDonation(
     txHash: string,
     expectedTo: string,
-    expectedAmount: number,
-    expectedCurrency: 'SOL' | 'USDC'
+    expectedAmount: bigint,
+    expectedCurrency: Currency
   ): Promise<{ valid: boolean; reason?: string; actual?: VerifiedTransaction }> {
-    const tx = await this.verifyTransaction(txHash);
+    const tx = await this.verifyTransaction(txHash, expectedTo);
     
     if (!tx) {
       return { valid: false, reason: 'Transaction not found or failed' };
@@ -174,12 +324,149 @@ export class ChainVerifier {
       return { valid: false, reason: `Wrong currency: expected ${expectedCurrency}, got ${tx.currency}`, actual: tx };
     }
 
-    // Allow 1% tolerance for rounding
-    const tolerance = expectedAmount * 0.01;
-    if (Math.abs(tx.amount - expectedAmount) > tolerance) {
+    // Base units are exact, so amounts must match exactly
+    if (tx.amount !== expectedAmount) {
       return { valid: false, reason: `Amount mismatch: expected ${expectedAmount}, got ${tx.amount}`, actual: tx };
     }
 
     return { valid: true, actual: tx };
   }
+
+  /**
+   * Read the memo attached to a transaction, if any
+   */
+  async getMemo(txHash: string): Promise<string | null> {
+    return (await this.getMemoTransaction(txHash))?.memo ?? null;
+  }
+
+  // The memo of a landed transaction and the addresses that signed it
+  private async getMemoTransaction(txHash: string): Promise<{ memo: string | null; signers: string[] } | null> {
+    try {
+      const tx = await this.connection.getParsedTransaction(txHash, {
+        maxSupportedTransactionVersion: 0
+      });
+      if (!tx || !tx.meta || tx.meta.err) return null;
+      const signers = tx.transaction.message.accountKeys.filter(key => key.signer).map(key => key.pubkey.toBase58());
+      return { memo: this.extractMemo(tx), signers };
+    } catch (error) {
+      console.error(`Failed to read memo from ${txHash}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check an inclusion proof without trusting the fund's data file:
+   * the entry must hash correctly, hash up to the anchored root,
+   * and that root must be what the anchor transaction published on-chain,
+   * signed by the fund address (anyone can publish a memo).
+   */
+  async verifyInclusionProof(
+    inclusion: InclusionProof,
+    fundAddress: string
+  ): Promise<{ valid: boolean; reason?: string }> {
+    const { entry, anchor, proof } = inclusion;
+
+    if (entry.recordId !== inclusion.recordId) {
+      return { valid: false, reason: `Audit entry is for ${entry.recordId}, not ${inclusion.recordId}` };
+    }
+
+    if (hashEntry(entry) !== entry.hash || proof.leaf !== entry.hash) {
+      return { valid: false, reason: 'Audit entry does not match its hash' };
+    }
+
+    if (entry.seq < anchor.fromSeq || entry.seq > anchor.toSeq) {
+      return { valid: false, reason: `Entry ${entry.seq} is outside the anchored range` };
+    }
+
+    if (proof.root !== anchor.root || !verifyMerkleProof(proof)) {
+      return { valid: false, reason: 'Merkle proof does not lead to the anchored root' };
+    }
+
+    const tx = await this.getMemoTransaction(anchor.txHash);
+    if (!tx?.memo) {
+      return { valid: false, reason: 'Anchor transaction not found or has no memo' };
+    }
+
+    if (!tx.signers.includes(fundAddress)) {
+      return { valid: false, reason: `Anchor transaction was not signed by the fund address ${fundAddress}` };
+    }
+
+    if (tx.memo !== formatAnchorMemo(anchor)) {
+      return { valid: false, reason: 'On-chain memo does not match the anchored root' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Check a donor receipt: signed by the fund address it names, issued for
+   * this network, and matching the donation transaction on-chain.
+   */
+  async verifyReceipt(receipt: DonationReceipt): Promise<{ valid: boolean; reason?: string }> {
+    if (!verifyReceiptSignature(receipt)) {
+      return { valid: false, reason: 'Signature does not match the receipt and fund address' };
+    }
+
+    if (receipt.network !== this.config.network) {
+      return { valid: false, reason: `Receipt is for ${receipt.network}, not ${this.config.network}` };
+    }
+
+    const tx = await this.verifyTransaction(receipt.txHash, receipt.fund);
+    if (!tx) {
+      return { valid: false, reason: 'Donation transaction not found or failed on-chain' };
+    }
+
+    if (tx.to !== receipt.fund || tx.from !== receipt.from) {
+      return { valid: false, reason: 'On-chain sender or recipient does not match the receipt' };
+    }
+
+    if (tx.amount.toString() !== receipt.amount || tx.currency !== receipt.currency) {
+      return { valid: false, reason: 'On-chain amount does not match the receipt' };
+    }
+
+    return { valid: true };
+  }
+}
+
+/**
+ * Sum the transfers into (side 'to') or out of (side 'from') an address per
+ * counterparty and currency, in order of first appearance
+ */
+export function transfersFor(
+  transfers: TransferDetail[],
+  address: string,
+  side: 'to' | 'from'
+): TransferDetail[] {
+  const counterparty = side === 'to' ? 'from' : 'to';
+  const groups = new Map<string, TransferDetail>();
+  for (const transfer of transfers) {
+    if (transfer[side] !== address) continue;
+    const key = `${transfer[counterparty]}:${transfer.currency}`;
+    const group = groups.get(key);
+    if (group) {
+      group.amount += transfer.amount;
+    } else {
+      groups.set(key, { ...transfer });
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Collapse a transaction's transfers into one movement for an address: what
+ * its first sender paid it in the first currency, else what it paid its first
+ * recipient. Without an address (or when it isn't involved) the first transfer wins.
+ */
+function summarizeTransfers(
+  transfers: TransferDetail[],
+  address?: string
+): TransferDetail | null {
+  if (transfers.length === 0) return null;
+
+  for (const side of ['to', 'from'] as const) {
+    const [first] = address ? transfersFor(transfers, address, side) : [];
+    if (first) return first;
+  }
+
+  return { ...transfers[0] };
 }
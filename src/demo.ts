@@ -5,7 +5,8 @@
  * For real usage, use TransparentFund.recordIncomingDonation() which verifies on-chain.
  */
 
-import { TransparentFund } from './index';
+import { Keypair } from '@solana/web3.js';
+import { TransparentFund, parseAmount, formatAmount, signProof } from './index';
 
 async function demo() {
   console.log('Eve Transparent Fund — Demo Flow\n');
@@ -17,7 +18,7 @@ async function demo() {
   // Show initial state
   console.log('\n📊 Initial State:');
   const balance = await fund.getBalance();
-  console.log(`   Balance: ${balance.sol} SOL, ${balance.usdc} USDC`);
+  console.log(`   Balance: ${formatAmount(balance.SOL, 'SOL')} SOL, ${formatAmount(balance.USDC, 'USDC')} USDC`);
   console.log(`   Address: ${fund.getAddress()}`);
   
   // Simulate receiving a donation (using tracker directly for demo)
@@ -25,7 +26,7 @@ async function demo() {
   const donation = fund.tracker.recordDonation({
     txHash: 'demo_tx_hash_001',
     from: 'DonorWallet123abc',
-    amount: 0.05, // SOL
+    amount: parseAmount('0.05', 'SOL'),
     currency: 'SOL',
     timestamp: new Date(),
     memo: 'For education programs'
@@ -35,16 +36,17 @@ async function demo() {
   // Show fund summary
   console.log('\n📊 Fund Summary:');
   const summary = fund.getSummary();
-  console.log(`   SOL: ${summary.sol.received} received, ${summary.sol.allocated} allocated`);
+  console.log(`   SOL: ${summary.tokens.SOL.received} received, ${summary.tokens.SOL.allocated} allocated`);
   console.log(`   Donations: ${summary.donations}, Allocations: ${summary.allocations}`);
   
   // Simulate an allocation
   console.log('\n📤 Recording allocation...');
+  const recipient = Keypair.generate();
   const allocation = fund.tracker.recordAllocation({
     txHash: 'demo_tx_hash_002',
-    to: 'RecipientWallet456def',
+    to: recipient.publicKey.toBase58(),
     recipientName: 'Local School Fund',
-    amount: 0.025, // SOL
+    amount: parseAmount('0.025', 'SOL'),
     currency: 'SOL',
     purpose: 'Purchase educational materials',
     timestamp: new Date(),
@@ -54,11 +56,15 @@ async function demo() {
   
   // Submit proof of impact
   console.log('\n✅ Submitting proof of impact...');
+  const description = 'Purchased 20 textbooks and 5 tablets for students';
+  const signedAt = new Date().toISOString();
   const proof = fund.submitProofOfImpact(
     allocation.id,
-    'RecipientWallet456def',
-    'Purchased 20 textbooks and 5 tablets for students',
-    ['https://example.com/receipt.jpg', 'https://example.com/students-with-tablets.jpg']
+    allocation.to,
+    description,
+    ['https://example.com/receipt.jpg', 'https://example.com/students-with-tablets.jpg'],
+    signProof({ allocationId: allocation.id, description, evidenceHashes: [], signedAt }, recipient.secretKey),
+    signedAt
   );
   console.log(`   Proof: ${proof.id}`);
   
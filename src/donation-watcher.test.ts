@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Keypair } from '@solana/web3.js';
+import { ChainVerifier } from './chain-verifier';
+import { DonationWatcher } from './donation-watcher';
+import { FundTracker } from './fund-tracker';
+import { FakeChain } from './test-support/fake-chain';
+
+describe('DonationWatcher', () => {
+  const fundAddress = Keypair.generate().publicKey.toBase58();
+  const donor = Keypair.generate().publicKey.toBase58();
+  let dir: string;
+  let chain: FakeChain;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eve-watcher-'));
+    chain = new FakeChain();
+    chain.fund(donor, 10_000_000_000n);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const send = (from: string, to: string, lamports: bigint) => chain.transfer({ from, to, amount: lamports, currency: 'SOL' });
+  const donate = (lamports: bigint) => send(donor, fundAddress, lamports);
+
+  it('should record inbound transfers across pages, oldest first', async () => {
+    donate(1_000_000_000n);
+    send(fundAddress, donor, 5_000n); // outbound, not a donation
+    donate(500_000_000n);
+    const last = donate(250_000_000n);
+
+    const tracker = new FundTracker(join(dir, 'fund.json'), false);
+    const verifier = new ChainVerifier('devnet', chain.connection());
+    const watcher = new DonationWatcher(fundAddress, tracker, verifier, {
+      cursorPath: join(dir, 'cursor.json'),
+      pageSize: 2
+    });
+
+    const recorded = await watcher.poll();
+
+    expect(recorded.map(d => d.amount)).toEqual([1_000_000_000n, 500_000_000n, 250_000_000n]);
+    expect(watcher.getCursor()).toBe(last);
+  });
+
+  it('should resume from the persisted cursor without double counting', async () => {
+    const first = donate(1_000_000_000n);
+
+    const tracker = new FundTracker(join(dir, 'fund.json'), false);
+    const verifier = new ChainVerifier('devnet', chain.connection());
+    const options = { cursorPath: join(dir, 'cursor.json') };
+
+    await new DonationWatcher(fundAddress, tracker, verifier, options).poll();
+    const second = donate(2_000_000_000n);
+
+    // Fresh watcher, as after a restart
+    const restarted = new DonationWatcher(fundAddress, tracker, verifier, options);
+    expect(restarted.getCursor()).toBe(first);
+
+    const recorded = await restarted.poll();
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0].txHash).toBe(second);
+    expect(tracker.getDonations()).toHaveLength(2);
+  });
+
+  it('should skip transactions already in the ledger', async () => {
+    const sig = donate(1_000_000_000n);
+
+    const tracker = new FundTracker(join(dir, 'fund.json'), false);
+    tracker.recordDonation({ txHash: sig, from: donor, amount: 1_000_000_000n, currency: 'SOL', timestamp: new Date() });
+
+    const watcher = new DonationWatcher(fundAddress, tracker, new ChainVerifier('devnet', chain.connection()), {
+      cursorPath: join(dir, 'cursor.json')
+    });
+
+    expect(await watcher.poll()).toHaveLength(0);
+    expect(tracker.getDonations()).toHaveLength(1);
+  });
+
+  it('should leave transfers from allocation recipients for recordReturn', async () => {
+    const recipient = Keypair.generate().publicKey.toBase58();
+    chain.fund(recipient, 1_000_000_000n);
+    const returned = send(recipient, fundAddress, 100_000_000n);
+    const last = donate(1_000_000_000n);
+
+    const tracker = new FundTracker(join(dir, 'fund.json'), false);
+    tracker.recordDonation({ txHash: 'tx_earlier', from: donor, amount: 2_000_000_000n, currency: 'SOL', timestamp: new Date() });
+    tracker.recordAllocation({
+      txHash: 'tx_out', to: recipient, recipientName: 'R', amount: 500_000_000n, currency: 'SOL', purpose: 'P', timestamp: new Date()
+    });
+    const watcher = new DonationWatcher(fundAddress, tracker, new ChainVerifier('devnet', chain.connection()), {
+      cursorPath: join(dir, 'cursor.json')
+    });
+
+    const recorded = await watcher.poll();
+    expect(recorded.map(d => d.txHash)).toEqual([last]);
+    expect(tracker.hasTransaction(returned)).toBe(false);
+    expect(watcher.getCursor()).toBe(last);
+  });
+});
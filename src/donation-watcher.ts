@@ -0,0 +1,151 @@
+/**
+ * Donation watcher - polls the fund address and records new inbound transfers
+ *
+ * Signatures are walked oldest-first and the newest processed signature is
+ * persisted as a cursor, so a restart picks up exactly where it left off.
+ * Transactions already in the ledger are skipped by txHash, and so are
+ * transfers from allocation recipients, which are usually returns, and
+ * transactions paying the fund from several senders or in several currencies.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FundTracker } from './fund-tracker';
+import { ChainVerifier, transfersFor } from './chain-verifier';
+import { Donation } from './types';
+
+export interface DonationWatcherOptions {
+  cursorPath?: string;
+  pollIntervalMs?: number;
+  pageSize?: number;
+}
+
+interface WatcherCursor {
+  lastSignature: string | null;
+  updatedAt: string;
+}
+
+export class DonationWatcher {
+  private address: string;
+  private tracker: FundTracker;
+  private verifier: ChainVerifier;
+  private cursorPath: string;
+  private pollIntervalMs: number;
+  private pageSize: number;
+  private cursor: WatcherCursor;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(
+    address: string,
+    tracker: FundTracker,
+    verifier: ChainVerifier,
+    options: DonationWatcherOptions = {}
+  ) {
+    this.address = address;
+    this.tracker = tracker;
+    this.verifier = verifier;
+    this.cursorPath = options.cursorPath || './data/watcher-cursor.json';
+    this.pollIntervalMs = options.pollIntervalMs || 30_000;
+    this.pageSize = options.pageSize || 100;
+    this.cursor = this.loadCursor();
+  }
+
+  private loadCursor(): WatcherCursor {
+    try {
+      if (fs.existsSync(this.cursorPath)) {
+        return JSON.parse(fs.readFileSync(this.cursorPath, 'utf-8'));
+      }
+    } catch (error) {
+      console.error(`Failed to load watcher cursor from ${this.cursorPath}:`, error);
+    }
+    return { lastSignature: null, updatedAt: new Date().toISOString() };
+  }
+
+  private saveCursor(): void {
+    const dir = path.dirname(this.cursorPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(this.cursorPath, JSON.stringify(this.cursor, null, 2));
+  }
+
+  // Newest signature processed so far
+  getCursor(): string | null {
+    return this.cursor.lastSignature;
+  }
+
+  /**
+   * Run one polling pass and return the donations it recorded
+   */
+  async poll(): Promise<Donation[]> {
+    const recorded: Donation[] = [];
+    const signatures = await this.verifier.getAllSignatures(this.address, {
+      until: this.cursor.lastSignature || undefined,
+      pageSize: this.pageSize
+    });
+
+    for (const sig of signatures) {
+      if (!sig.err && !this.tracker.hasTransaction(sig.signature)) {
+        // Throws on RPC failure, leaving the cursor before this signature
+        const tx = await this.verifier.loadTransaction(sig.signature, this.address);
+
+        if (tx && tx.to === this.address && this.isAllocationRecipient(tx.from)) {
+          // Most likely unused funds coming back; left for recordReturn() or a manual donation
+          console.log(`Watcher skipped ${tx.txHash}: ${tx.from} received an allocation, record it with recordReturn()`);
+        } else if (tx && transfersFor(tx.transfers, this.address, 'to').length > 1) {
+          console.warn(`Watcher skipped ${tx.txHash}: it pays the fund from several senders or in several currencies`);
+        } else if (tx && tx.to === this.address) {
+          const donation = this.tracker.recordDonation({
+            txHash: tx.txHash,
+            from: tx.from,
+            amount: tx.amount,
+            currency: tx.currency,
+            timestamp: tx.timestamp,
+            memo: tx.memo
+          });
+          console.log(`Watcher recorded donation ${donation.id}: ${this.verifier.tokens.formatMoney(tx)} from ${tx.from}`);
+          recorded.push(donation);
+        }
+      }
+
+      this.cursor = { lastSignature: sig.signature, updatedAt: new Date().toISOString() };
+      this.saveCursor();
+    }
+
+    return recorded;
+  }
+
+  private isAllocationRecipient(address: string): boolean {
+    return this.tracker.getAllocations().some(a => a.to === address);
+  }
+
+  /**
+   * Poll continuously until stop() is called
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error(`Donation watcher poll failed for ${this.address}:`, error);
+      }
+      if (this.running) {
+        this.timer = setTimeout(tick, this.pollIntervalMs);
+      }
+    };
+
+    tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Typed errors thrown by the fund ledger
+ */
+
+// A transaction signature that is already recorded in the ledger
+export class DuplicateTransactionError extends Error {
+  readonly txHash: string;
+  readonly existingId: string;
+
+  constructor(txHash: string, existingId: string) {
+    super(`Transaction ${txHash} is already recorded as ${existingId}`);
+    this.name = 'DuplicateTransactionError';
+    this.txHash = txHash;
+    this.existingId = existingId;
+  }
+}
+
+// Why an incoming transaction can't be recorded as a donation
+export type DonationErrorCode =
+  | 'not_to_fund'
+  | 'memo_mismatch'
+  | 'restriction_mismatch'
+  | 'ambiguous_transfer';
+
+// A donation whose on-chain transfer contradicts what the caller claims about it
+export class DonationError extends Error {
+  readonly code: DonationErrorCode;
+  readonly txHash: string;
+
+  constructor(code: DonationErrorCode, message: string, txHash: string) {
+    super(message);
+    this.name = 'DonationError';
+    this.code = code;
+    this.txHash = txHash;
+  }
+}
+
+// Why an allocation's donations can't pay for it
+export type FundingErrorCode =
+  | 'invalid_amount'
+  | 'unknown_donation'
+  | 'currency_mismatch'
+  | 'restriction_mismatch'
+  | 'insufficient_funds';
+
+// An allocation whose referenced donations don't cover it
+export class FundingError extends Error {
+  readonly code: FundingErrorCode;
+  readonly donationId?: string;
+
+  constructor(code: FundingErrorCode, message: string, donationId?: string) {
+    super(message);
+    this.name = 'FundingError';
+    this.code = code;
+    this.donationId = donationId;
+  }
+}
+
+// Why an allocation proposal can't move to the requested state
+export type ProposalErrorCode =
+  | 'invalid_policy'
+  | 'unknown_proposal'
+  | 'not_an_approver'
+  | 'already_approved'
+  | 'not_pending'
+  | 'not_approved'
+  | 'in_progress'
+  | 'expired'
+  | 'approval_required';
+
+// An allocation proposal action that the approval rules don't allow
+export class ProposalError extends Error {
+  readonly code: ProposalErrorCode;
+  readonly proposalId?: string;
+
+  constructor(code: ProposalErrorCode, message: string, proposalId?: string) {
+    super(message);
+    this.name = 'ProposalError';
+    this.code = code;
+    this.proposalId = proposalId;
+  }
+}
+
+// Why a proof of impact can't be accepted or move to the requested review state
+export type ProofErrorCode =
+  | 'unknown_proof'
+  | 'unknown_allocation'
+  | 'wrong_recipient'
+  | 'invalid_signature'
+  | 'replayed_signature'
+  | 'invalid_evidence_hash'
+  | 'missing_evidence'
+  | 'invalid_transition'
+  | 'note_required'
+  | 'self_review';
+
+// A proof submission or review step that isn't allowed
+export class ProofError extends Error {
+  readonly code: ProofErrorCode;
+  readonly proofId?: string;
+
+  constructor(code: ProofErrorCode, message: string, proofId?: string) {
+    super(message);
+    this.name = 'ProofError';
+    this.code = code;
+    this.proofId = proofId;
+  }
+}
+
+// Why a grant can't be created or its next tranche released
+export type GrantErrorCode =
+  | 'invalid_grant'
+  | 'unknown_grant'
+  | 'not_active'
+  | 'in_progress'
+  | 'milestone_not_verified';
+
+// A grant action the milestone rules don't allow
+export class GrantError extends Error {
+  readonly code: GrantErrorCode;
+  readonly grantId?: string;
+
+  constructor(code: GrantErrorCode, message: string, grantId?: string) {
+    super(message);
+    this.name = 'GrantError';
+    this.code = code;
+    this.grantId = grantId;
+  }
+}
+
+// Why a return or refund can't be recorded
+export type RefundErrorCode =
+  | 'invalid_amount'
+  | 'unknown_allocation'
+  | 'unknown_donation'
+  | 'currency_mismatch'
+  | 'wrong_counterparty'
+  | 'exceeds_allocation'
+  | 'exceeds_balance';
+
+// A return or refund that doesn't fit the record it reverses
+export class RefundError extends Error {
+  readonly code: RefundErrorCode;
+
+  constructor(code: RefundErrorCode, message: string) {
+    super(message);
+    this.name = 'RefundError';
+    this.code = code;
+  }
+}
+
+// Why a network safety interlock stopped an operation
+export type NetworkErrorCode =
+  | 'mainnet_not_enabled'
+  | 'network_mismatch'
+  | 'transfer_cap_exceeded'
+  | 'missing_transfer_cap'
+  | 'transfer_not_confirmed';
+
+// An operation refused by the network configuration's safety checks
+export class NetworkError extends Error {
+  readonly code: NetworkErrorCode;
+
+  constructor(code: NetworkErrorCode, message: string) {
+    super(message);
+    this.name = 'NetworkError';
+    this.code = code;
+  }
+}
+
+// Why a token couldn't be registered or used
+export type TokenErrorCode =
+  | 'unknown_token'
+  | 'invalid_token'
+  | 'duplicate_token';
+
+// A currency missing from, or conflicting with, the token registry
+export class TokenError extends Error {
+  readonly code: TokenErrorCode;
+
+  constructor(code: TokenErrorCode, message: string) {
+    super(message);
+    this.name = 'TokenError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Keypair } from '@solana/web3.js';
+import { LocalEvidenceStore, checkEvidence, hashEvidence } from './evidence-store';
+import { TransparentFund, signProof } from './index';
+import { parseAmount } from './money';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('LocalEvidenceStore', () => {
+  let dir: string;
+  let store: LocalEvidenceStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eve-evidence-'));
+    store = new LocalEvidenceStore(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store files under their SHA-256 and keep the first upload\'s metadata', async () => {
+    const first = await store.put(bytes('receipt.pdf contents'), { filename: 'receipt.pdf', contentType: 'application/pdf' });
+    expect(first).toMatchObject({ hash: hashEvidence(bytes('receipt.pdf contents')), size: 20, filename: 'receipt.pdf' });
+
+    const again = await store.put(bytes('receipt.pdf contents'), { filename: 'copy.pdf' });
+    expect(again).toEqual(first);
+    expect(readdirSync(join(dir, first.hash.slice(0, 2)))).toEqual([first.hash, `${first.hash}.json`]);
+
+    const stored = await store.get(first.hash);
+    expect(new TextDecoder().decode(stored!.content)).toBe('receipt.pdf contents');
+    expect(stored!.evidence.storedAt).toBeInstanceOf(Date);
+  });
+
+  it('should answer nothing for unknown or malformed hashes', async () => {
+    expect(await store.get('0'.repeat(64))).toBeNull();
+    expect(await store.has('../../etc/passwd')).toBe(false);
+    expect(await checkEvidence(store, '0'.repeat(64))).toEqual({ hash: '0'.repeat(64), status: 'missing' });
+  });
+});
+
+describe('TransparentFund.checkProofEvidence', () => {
+  it('should report missing evidence for a signed proof', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eve-evidence-'));
+    const fund = new TransparentFund({ autoSave: false, evidenceStore: new LocalEvidenceStore(dir) });
+    const recipient = Keypair.generate();
+    const donation = fund.tracker.recordDonation({
+      txHash: 'tx1', from: 'donor', amount: parseAmount('1', 'SOL'), currency: 'SOL', timestamp: new Date()
+    });
+    const allocation = fund.tracker.recordAllocation({
+      txHash: 'tx2', to: recipient.publicKey.toBase58(), recipientName: 'R', amount: parseAmount('1', 'SOL'),
+      currency: 'SOL', purpose: 'P', timestamp: new Date(), donationIds: [donation.id]
+    });
+
+    const kept = await fund.evidence.put(bytes('photo'));
+    const lost = hashEvidence(bytes('never uploaded'));
+    const payload = { allocationId: allocation.id, description: 'Done', evidenceHashes: [kept.hash, lost], signedAt: new Date().toISOString() };
+    const proof = fund.submitProofOfImpact(
+      allocation.id, allocation.to, 'Done', [], signProof(payload, recipient.secretKey), payload.signedAt, payload.evidenceHashes
+    );
+
+    await expect(fund.assertEvidenceStored(payload.evidenceHashes)).rejects.toMatchObject({ code: 'missing_evidence' });
+    expect(await fund.checkProofEvidence(proof.id)).toEqual({
+      proofId: proof.id,
+      valid: false,
+      files: [{ hash: kept.hash, status: 'ok' }, { hash: lost, status: 'missing' }]
+    });
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Content-addressed evidence storage for proofs of impact
+ *
+ * Evidence files (photos, PDFs, receipts) are stored under the SHA-256 of
+ * their bytes, and proofs record those hashes, so a link can't rot into
+ * something else: whatever is served for a hash can be hashed again and
+ * compared years after the proof was verified.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { isEvidenceHash } from './proof-signing';
+
+// What the store knows about one evidence file
+export interface StoredEvidence {
+  hash: string; // lowercase hex SHA-256 of the content
+  size: number; // bytes
+  contentType?: string;
+  filename?: string; // name it was uploaded under, for display only
+  uploadedBy?: string; // recipient address that uploaded it; unset for operator uploads
+  storedAt: Date;
+}
+
+// What an uploader may say about a file
+export type EvidenceMeta = Pick<StoredEvidence, 'contentType' | 'filename' | 'uploadedBy'>;
+
+export interface EvidenceStore {
+  put(content: Uint8Array, meta?: EvidenceMeta): Promise<StoredEvidence>; // storing the same bytes again is a no-op
+  get(hash: string): Promise<{ content: Uint8Array; evidence: StoredEvidence } | null>; // null when nothing is stored under the hash
+  has(hash: string): Promise<boolean>;
+  countUploads(uploadedBy: string): Promise<number>; // files first uploaded by this address
+}
+
+// Result of re-hashing one evidence file
+export interface EvidenceCheck {
+  hash: string;
+  status: 'ok' | 'missing' | 'corrupted'; // corrupted: the stored bytes no longer hash to `hash`
+  actualHash?: string; // set when corrupted
+}
+
+// Whether all of a proof's evidence is still stored intact
+export interface EvidenceReport {
+  proofId: string;
+  valid: boolean;
+  files: EvidenceCheck[];
+}
+
+export function hashEvidence(content: Uint8Array): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Evidence files on local disk: <root>/<first two hex chars>/<hash>, with
+ * the metadata next to it in <hash>.json. Writes go through a temp file and
+ * a rename so a crash never leaves a half-written file under a hash.
+ */
+export class LocalEvidenceStore implements EvidenceStore {
+  constructor(private root: string) {}
+
+  private pathOf(hash: string): string {
+    return join(this.root, hash.slice(0, 2), hash);
+  }
+
+  async put(content: Uint8Array, meta: EvidenceMeta = {}): Promise<StoredEvidence> {
+    const hash = hashEvidence(content);
+    const existing = await this.readMeta(hash);
+    if (existing && await this.has(hash)) return existing;
+
+    const path = this.pathOf(hash);
+    await mkdir(join(this.root, hash.slice(0, 2)), { recursive: true });
+    const evidence: StoredEvidence = { hash, size: content.byteLength, ...meta, storedAt: new Date() };
+    await this.writeAtomic(path, content);
+    await this.writeAtomic(`${path}.json`, JSON.stringify(evidence, null, 2));
+    return evidence;
+  }
+
+  async get(hash: string): Promise<{ content: Uint8Array; evidence: StoredEvidence } | null> {
+    if (!isEvidenceHash(hash)) return null;
+    try {
+      const content = new Uint8Array(await readFile(this.pathOf(hash)));
+      const evidence = await this.readMeta(hash) ?? { hash, size: content.byteLength, storedAt: new Date(0) };
+      return { content, evidence };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async has(hash: string): Promise<boolean> {
+    if (!isEvidenceHash(hash)) return false;
+    try {
+      return (await stat(this.pathOf(hash))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async countUploads(uploadedBy: string): Promise<number> {
+    let count = 0;
+    for (const prefix of await this.list(this.root)) {
+      for (const name of await this.list(join(this.root, prefix))) {
+        if (name.endsWith('.json') && (await this.readMeta(name.slice(0, -'.json'.length)))?.uploadedBy === uploadedBy) count++;
+      }
+    }
+    return count;
+  }
+
+  private async list(dir: string): Promise<string[]> {
+    try {
+      return await readdir(dir);
+    } catch {
+      return [];
+    }
+  }
+
+  private async readMeta(hash: string): Promise<StoredEvidence | null> {
+    try {
+      const meta = JSON.parse(await readFile(`${this.pathOf(hash)}.json`, 'utf-8'));
+      return { ...meta, storedAt: new Date(meta.storedAt) };
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeAtomic(path: string, data: Uint8Array | string): Promise<void> {
+    const temp = `${path}.${randomBytes(4).toString('hex')}.tmp`;
+    try {
+      await writeFile(temp, data);
+      await rename(temp, path);
+    } catch (error) {
+      await rm(temp, { force: true });
+      throw error;
+    }
+  }
+}
+
+// Re-hash one stored file
+export async function checkEvidence(store: EvidenceStore, hash: string): Promise<EvidenceCheck> {
+  const stored = await store.get(hash);
+  if (!stored) return { hash, status: 'missing' };
+  const actualHash = hashEvidence(stored.content);
+  return actualHash === hash ? { hash, status: 'ok' } : { hash, status: 'corrupted', actualHash };
+}
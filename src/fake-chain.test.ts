@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { FakeChain, FakeWallet, FAKE_FEE } from './test-support/fake-chain';
+import { ChainVerifier } from './chain-verifier';
+import { formatAnchorMemo } from './anchoring';
+import { TransparentFund, parseAmount, signProof } from './index';
+
+const sol = (value: string) => parseAmount(value, 'SOL');
+const newAddress = () => Keypair.generate().publicKey.toBase58();
+
+describe('FakeChain', () => {
+  let chain: FakeChain;
+  let verifier: ChainVerifier;
+  let alice: string;
+  let bob: string;
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    verifier = new ChainVerifier('devnet', chain.connection());
+    alice = newAddress();
+    bob = newAddress();
+    chain.fund(alice, sol('2'));
+  });
+
+  it('moves SOL and charges the sender the fee', async () => {
+    const txHash = chain.transfer({ from: alice, to: bob, amount: sol('0.5'), currency: 'SOL', memo: 'hello' });
+
+    expect(chain.getBalance(alice).SOL).toBe(sol('1.5') - FAKE_FEE);
+    expect(chain.getBalance(bob).SOL).toBe(sol('0.5'));
+
+    const tx = await verifier.verifyTransaction(txHash);
+    expect(tx).toMatchObject({ from: alice, to: bob, amount: sol('0.5'), currency: 'SOL', fee: FAKE_FEE, feePayer: alice, memo: 'hello' });
+  });
+
+  it('lands a failed transaction when the sender is short', async () => {
+    const txHash = chain.transfer({ from: alice, to: bob, amount: sol('5'), currency: 'SOL' });
+
+    expect(chain.getBalance(bob).SOL).toBe(0n);
+    expect(await verifier.verifyTransaction(txHash)).toBeNull();
+  });
+
+  it('lists signatures newest first and pages with before/until', async () => {
+    const first = chain.transfer({ from: alice, to: bob, amount: 1n, currency: 'SOL' });
+    const second = chain.transfer({ from: alice, to: bob, amount: 2n, currency: 'SOL' });
+    const third = chain.transfer({ from: alice, to: bob, amount: 3n, currency: 'SOL' });
+    chain.transfer({ from: alice, to: newAddress(), amount: 4n, currency: 'SOL' });
+
+    const forBob = await verifier.getSignatures(bob);
+    expect(forBob.map(s => s.signature)).toEqual([third, second, first]);
+    expect((await verifier.getSignatures(bob, { before: third, limit: 1 })).map(s => s.signature)).toEqual([second]);
+    expect((await verifier.getSignatures(bob, { until: first })).map(s => s.signature)).toEqual([third, second]);
+
+    const history = await verifier.getTransferHistory(bob);
+    expect(history.map(tx => tx.amount)).toEqual([1n, 2n, 3n]);
+  });
+
+  it('records USDC transfers with token balances for both owners', async () => {
+    chain.fund(alice, 10_000_000n, 'USDC');
+    const txHash = chain.transfer({ from: alice, to: bob, amount: 4_000_000n, currency: 'USDC' });
+
+    expect(chain.getBalance(bob).USDC).toBe(4_000_000n);
+    const tx = await verifier.verifyTransaction(txHash);
+    expect(tx).toMatchObject({ from: alice, to: bob, amount: 4_000_000n, currency: 'USDC' });
+  });
+
+  it('backs a wallet that refuses transfers it cannot cover', async () => {
+    const wallet = chain.wallet(alice);
+
+    expect(await wallet.transferSol(bob, sol('3'))).toMatchObject({ success: false });
+    expect(await wallet.getBalances()).toEqual({ SOL: sol('2'), USDC: 0n });
+  });
+});
+
+describe('TransparentFund on a fake chain', () => {
+  let chain: FakeChain;
+  let fund: TransparentFund;
+  let wallet: FakeWallet;
+  let donor: string;
+  let recipient: string;
+  let recipientKey: Keypair;
+
+  beforeEach(async () => {
+    chain = new FakeChain();
+    wallet = chain.wallet(newAddress());
+    donor = newAddress();
+    recipientKey = Keypair.generate();
+    recipient = recipientKey.publicKey.toBase58();
+    chain.fund(donor, sol('10'));
+
+    fund = new TransparentFund({ autoSave: false, connection: chain.connection() });
+    await fund.connectWallet(wallet);
+  });
+
+  it('pays a grant milestone by milestone as proofs are verified', async () => {
+    await fund.recordIncomingDonation(chain.transfer({ from: donor, to: fund.getAddress(), amount: sol('3'), currency: 'SOL' }));
+    const grant = fund.createGrant({
+      to: recipient, recipientName: 'Well Project', currency: 'SOL', purpose: 'Village well',
+      milestones: [{ description: 'Survey', amount: sol('0.5') }, { description: 'Drilling', amount: sol('1.5') }]
+    });
+    expect(fund.getSummary().tokens.SOL).toMatchObject({ remaining: '3', committed: '2', available: '1' });
+
+    const survey = await fund.releaseNextTranche(grant.id);
+    expect(chain.getBalance(recipient).SOL).toBe(sol('0.5'));
+    await expect(fund.releaseNextTranche(grant.id)).rejects.toMatchObject({ code: 'milestone_not_verified' });
+
+    const description = 'Survey report';
+    const signedAt = new Date().toISOString();
+    const proof = fund.submitProofOfImpact(survey.id, recipient, description, [],
+      signProof({ allocationId: survey.id, description, evidenceHashes: [], signedAt }, recipientKey.secretKey), signedAt);
+    fund.reviewProof(proof.id, 'under_review', 'auditor');
+    fund.reviewProof(proof.id, 'verified', 'auditor');
+
+    await fund.releaseNextTranche(grant.id);
+    expect(chain.getBalance(recipient).SOL).toBe(sol('2'));
+    expect(fund.getSummary().tokens.SOL).toMatchObject({ allocated: '2', committed: '0', available: '1' });
+    expect(fund.getAuditTrailMarkdown()).toContain('- Milestone 2: Drilling (1.5 SOL, released in');
+    expect((await fund.reconcile()).reconciled).toBe(true);
+  });
+
+  it('runs donate → allocate → prove → verify end to end', async () => {
+    const donationTx = chain.transfer({ from: donor, to: fund.getAddress(), amount: sol('2'), currency: 'SOL', memo: 'for the garden' });
+    const { donation } = await fund.recordIncomingDonation(donationTx);
+    expect(donation.memo).toBe('for the garden');
+
+    const allocation = await fund.allocateFunds(recipient, 'Garden Co-op', sol('0.5'), 'SOL', 'Seeds');
+    expect(allocation.donationIds).toEqual([donation.id]);
+    expect(chain.getBalance(recipient).SOL).toBe(sol('0.5'));
+
+    const onChain = await fund.verifier.verifyTransaction(allocation.txHash);
+    expect(onChain).toMatchObject({ from: fund.getAddress(), to: recipient, amount: sol('0.5') });
+
+    const description = 'Planted 200 seedlings';
+    const signedAt = new Date().toISOString();
+    const signature = signProof({ allocationId: allocation.id, description, evidenceHashes: [], signedAt }, recipientKey.secretKey);
+    const proof = fund.submitProofOfImpact(allocation.id, recipient, description, ['https://example.com/photos'], signature, signedAt);
+    fund.reviewProof(proof.id, 'under_review', 'auditor');
+    expect(fund.reviewProof(proof.id, 'verified', 'auditor').verified).toBe(true);
+
+    const report = await fund.reconcile();
+    expect(report.reconciled).toBe(true);
+    expect(report.balances[0]).toMatchObject({ currency: 'SOL', onChainBalance: sol('1.5') - FAKE_FEE, feesPaid: FAKE_FEE });
+
+    const anchor = await fund.anchorAuditLog();
+    expect(anchor).not.toBeNull();
+    // The memo-only anchor moves no funds but its fee still counts
+    expect((await fund.reconcile()).balances[0]).toMatchObject({ feesPaid: FAKE_FEE * 2n, unexplained: 0n });
+    const inclusion = fund.getInclusionProof(allocation.id)!;
+    expect(await fund.verifier.verifyInclusionProof(inclusion, fund.getAddress())).toEqual({ valid: true });
+    expect(await fund.verifier.verifyInclusionProof({ ...inclusion, recordId: donation.id }, fund.getAddress()))
+      .toMatchObject({ valid: false });
+
+    // Anyone can publish the same memo; only the fund's own transaction counts
+    const forged = { ...anchor!, txHash: chain.memo(donor, formatAnchorMemo(anchor!)) };
+    expect(await fund.verifier.verifyInclusionProof({ ...inclusion, anchor: forged }, fund.getAddress()))
+      .toMatchObject({ valid: false, reason: expect.stringContaining('not signed by the fund address') });
+  });
+
+  it('takes a recipient\'s return back and refunds the donor the rest', async () => {
+    const { donation } = await fund.recordIncomingDonation(chain.transfer({ from: donor, to: fund.getAddress(), amount: sol('2'), currency: 'SOL' }));
+    const allocation = await fund.allocateFunds(recipient, 'Garden Co-op', sol('1'), 'SOL', 'Seeds');
+
+    const returnTx = chain.transfer({ from: recipient, to: fund.getAddress(), amount: sol('0.4'), currency: 'SOL' });
+    const returned = await fund.recordReturn(returnTx, allocation.id, 'Seeds were cheaper');
+    expect(returned).toMatchObject({ kind: 'recipient_return', from: recipient, amount: sol('0.4') });
+    await expect(fund.recordReturn(
+      chain.transfer({ from: donor, to: recipient, amount: sol('0.1'), currency: 'SOL' }), allocation.id, 'Not to the fund'
+    )).rejects.toMatchObject({ code: 'wrong_counterparty' });
+
+    await expect(fund.refundDonor(donation.id, 'Too much', sol('1.5'))).rejects.toMatchObject({ code: 'exceeds_balance' });
+    const refund = await fund.refundDonor(donation.id, 'Donor asked for part of it back', sol('1'));
+    expect(refund).toMatchObject({ kind: 'donor_refund', to: donor, amount: sol('1') });
+    expect(chain.getBalance(donor).SOL).toBe(sol('8.9') - FAKE_FEE * 2n);
+    expect(fund.getSummary().tokens.SOL).toMatchObject({ allocated: '1', returned: '0.4', refunded: '1', remaining: '0.4' });
+
+    const markdown = fund.getAuditTrailMarkdown();
+    expect(markdown).toContain('**Funds Returned** (recipient return)');
+    expect(markdown).toContain('**Donor Refunded**');
+    expect((await fund.reconcile()).reconciled).toBe(true);
+
+    // A donor's transfer can't be booked as the recipient's return
+    await expect(fund.recordReturn(
+      chain.transfer({ from: donor, to: fund.getAddress(), amount: sol('0.1'), currency: 'SOL' }), allocation.id, 'Not from the recipient'
+    )).rejects.toMatchObject({ code: 'wrong_counterparty' });
+  });
+
+  it('credits USDC to the fund owner and reconciles', async () => {
+    chain.fund(donor, 50_000_000n, 'USDC');
+    const feeTx = chain.transfer({ from: donor, to: fund.getAddress(), amount: sol('0.01'), currency: 'SOL' });
+    const donationTx = chain.transfer({ from: donor, to: fund.getAddress(), amount: 20_000_000n, currency: 'USDC' });
+    await fund.recordIncomingDonation(feeTx);
+    const { donation } = await fund.recordIncomingDonation(donationTx);
+    expect(donation).toMatchObject({ from: donor, amount: 20_000_000n, currency: 'USDC' });
+
+    await fund.allocateFunds(recipient, 'Garden Co-op', 5_000_000n, 'USDC', 'Soil');
+    expect(chain.getBalance(recipient).USDC).toBe(5_000_000n);
+    expect((await fund.reconcile()).reconciled).toBe(true);
+  });
+
+  it('refuses to book a transaction paying the fund in two currencies as one donation', async () => {
+    chain.fund(donor, 50_000_000n, 'USDC');
+    const txHash = chain.batch(donor, [
+      { to: fund.getAddress(), amount: sol('1'), currency: 'SOL' },
+      { to: fund.getAddress(), amount: 20_000_000n, currency: 'USDC' }
+    ]);
+
+    await expect(fund.recordIncomingDonation(txHash)).rejects.toMatchObject({ code: 'ambiguous_transfer' });
+    expect(fund.tracker.getDonations()).toHaveLength(0);
+  });
+
+  it('recovers an allocation whose transfer landed before the wallet call failed', async () => {
+    const donationTx = chain.transfer({ from: donor, to: fund.getAddress(), amount: sol('1'), currency: 'SOL' });
+    await fund.recordIncomingDonation(donationTx);
+
+    wallet.interruptNextTransfer();
+    await expect(fund.allocateFunds(recipient, 'Garden Co-op', sol('0.25'), 'SOL', 'Tools')).rejects.toThrow('Connection lost');
+    expect(fund.tracker.getPendingIntents()).toHaveLength(1);
+    expect(chain.getBalance(recipient).SOL).toBe(sol('0.25'));
+
+    const report = await fund.recoverPendingAllocations();
+    expect(report.finalized).toHaveLength(1);
+    expect(fund.tracker.getAllocations()).toHaveLength(1);
+    expect((await fund.reconcile()).reconciled).toBe(true);
+  });
+
+  it('recovers a donor refund whose transfer landed before the wallet call failed', async () => {
+    const { donation } = await fund.recordIncomingDonation(chain.transfer({ from: donor, to: fund.getAddress(), amount: sol('1'), currency: 'SOL' }));
+
+    wallet.interruptNextTransfer();
+    await expect(fund.refundDonor(donation.id, 'Sent twice', sol('0.5'))).rejects.toThrow('Connection lost');
+    await expect(fund.allocateFunds(recipient, 'Garden Co-op', sol('0.75'), 'SOL', 'Tools')).rejects.toThrow('Available donations cover 0.5 SOL');
+
+    const report = await fund.recoverPendingAllocations();
+    expect(report.finalized).toEqual([{ intentId: expect.any(String), refundId: expect.any(String), txHash: expect.any(String) }]);
+    expect(fund.tracker.getRefunds()).toMatchObject([{ kind: 'donor_refund', donationId: donation.id, amount: sol('0.5') }]);
+    expect((await fund.reconcile()).reconciled).toBe(true);
+  });
+});
@@ -0,0 +1,347 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { Keypair } from '@solana/web3.js';
+import { FakeChain } from './test-support/fake-chain';
+import { TransparentFund, LocalEvidenceStore, signProof, signEvidenceUpload, hashEvidence } from './index';
+import { createFundRouter } from './fund-api';
+import { parseAmount } from './money';
+
+const newAddress = () => Keypair.generate().publicKey.toBase58();
+const sol = (value: string) => parseAmount(value, 'SOL');
+
+describe('Fund API', () => {
+  let fund: TransparentFund;
+  let server: Server;
+  let baseUrl: string;
+  let alice: string;
+  let bob: string;
+  let chain: FakeChain;
+  let evidenceDir: string;
+  const libraryKey = Keypair.generate();
+  // The signedAt and signature fields of a proof signed by the library's recipient
+  const signed = (allocationId: string, description: string, evidenceHashes: string[] = [], signedAt = '2026-03-02T00:00:00.000Z') =>
+    ({ signedAt, signature: signProof({ allocationId, description, evidenceHashes, signedAt }, libraryKey.secretKey) });
+
+  beforeAll(async () => {
+    let clock = Date.parse('2026-03-01T00:00:00Z');
+    chain = new FakeChain({ now: () => new Date(clock += 60_000) }); // a minute between transactions
+    evidenceDir = mkdtempSync(join(tmpdir(), 'eve-evidence-'));
+    fund = new TransparentFund({ autoSave: false, connection: chain.connection(), evidenceStore: new LocalEvidenceStore(evidenceDir) });
+    await fund.connectWallet(chain.wallet(newAddress()));
+
+    alice = newAddress();
+    bob = newAddress();
+    chain.fund(alice, sol('5'));
+    chain.fund(bob, sol('5'));
+    const donate = (from: string, amount: bigint) =>
+      fund.recordIncomingDonation(chain.transfer({ from, to: fund.getAddress(), amount, currency: 'SOL' }));
+
+    await donate(alice, sol('1'));
+    await donate(bob, sol('2'));
+    await donate(alice, sol('0.5'));
+
+    // FIFO: Alice's first donation and 0.2 of Bob's; then more of Bob's
+    const library = await fund.allocateFunds(libraryKey.publicKey.toBase58(), 'Library', sol('1.2'), 'SOL', 'Books');
+    await fund.allocateFunds(newAddress(), 'Garden', sol('0.3'), 'SOL', 'Seeds');
+    const { signature, signedAt } = signed(library.id, 'Bought 40 books');
+    const proof = fund.submitProofOfImpact(library.id, library.to, 'Bought 40 books', ['https://example.com/receipt'], signature, signedAt);
+    fund.tracker.startProofReview(proof.id, 'auditor');
+    fund.tracker.verifyProof(proof.id, 'auditor');
+
+    const app = express();
+    app.use(express.json());
+    app.use(createFundRouter(fund, {
+      apiToken: 'operator-secret',
+      reviewerTokens: { auditor: 'auditor-secret', 'field-visitor': 'visitor-secret' },
+      maxEvidenceFilesPerRecipient: 2
+    }));
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    rmSync(evidenceDir, { recursive: true, force: true });
+  });
+
+  const get = async (path: string) => {
+    const res = await fetch(`${baseUrl}${path}`);
+    return { status: res.status, body: await res.json() };
+  };
+
+  const post = async (path: string, body: unknown, token?: string) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify(body)
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  it('should gather a donor\'s donations, allocations and proofs', () => {
+    const history = fund.tracker.getDonorHistory(alice);
+
+    expect(history.donations.map(d => d.donation.amount)).toEqual([sol('1'), sol('0.5')]);
+    expect(history.donations[0].allocations).toHaveLength(1);
+    expect(history.donations[0].allocations[0]).toMatchObject({ amount: sol('1'), proofs: [{ verified: true }] });
+    expect(history.donations[1].allocations).toHaveLength(0);
+    expect(history.totals.SOL).toEqual({
+      donated: sol('1.5'), allocated: sol('1'), committed: 0n, pending: 0n, refunded: 0n, remaining: sol('0.5')
+    });
+    expect(history.recipients).toEqual(['Library']);
+    expect(history.proofs).toEqual({ submitted: 1, verified: 1 });
+
+    expect(fund.tracker.getDonorHistory(bob)).toMatchObject({ recipients: ['Library', 'Garden'], proofs: { submitted: 1, verified: 1 } });
+  });
+
+  it('should serve the history at /api/donors/:address', async () => {
+    const res = await fetch(`${baseUrl}/api/donors/${bob}`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+
+    expect(body.totals).toEqual({
+      SOL: { donated: '2', allocated: '0.5', committed: '0', pending: '0', refunded: '0', remaining: '1.5' }
+    });
+    expect(body.donations).toHaveLength(1);
+    expect(body.donations[0].allocations.map((a: { recipientName: string; amount: string }) => [a.recipientName, a.amount]))
+      .toEqual([['Library', '0.2'], ['Garden', '0.3']]);
+    expect(body.donations[0].allocations[0].proofs[0]).toMatchObject({ description: 'Bought 40 books', verified: true });
+  });
+
+  it('should reject malformed addresses and report unknown donors', async () => {
+    expect((await fetch(`${baseUrl}/api/donors/not-an-address`)).status).toBe(400);
+
+    const res = await fetch(`${baseUrl}/api/donors/${newAddress()}`);
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'No donations from this address' });
+  });
+
+  it('should page and filter donations newest first', async () => {
+    const all = await get('/api/donations');
+    expect(all.body).toMatchObject({ total: 3, limit: 50, offset: 0 });
+    expect(all.body.items.map((d: { amount: string }) => d.amount)).toEqual(['0.5', '2', '1']);
+
+    const page = await get('/api/donations?limit=1&offset=1');
+    expect(page.body.items.map((d: { amount: string }) => d.amount)).toEqual(['2']);
+
+    const fromAlice = await get(`/api/donations?from=${alice}&currency=SOL`);
+    expect(fromAlice.body.total).toBe(2);
+
+    expect((await get('/api/donations?limit=9999')).status).toBe(400);
+    expect((await get('/api/donations?since=yesterday')).status).toBe(400);
+  });
+
+  it('should fetch records, traces and summaries with whole-token amounts', async () => {
+    const [first] = fund.tracker.getDonations();
+    expect((await get(`/api/donations/${first.id}`)).body).toMatchObject({ amount: '1', remaining: '0', currency: 'SOL' });
+
+    const trace = (await get(`/api/donations/${first.id}/trace`)).body;
+    expect(trace.shares).toEqual([{ allocationId: expect.any(String), amount: '1' }]);
+    expect(trace.allocations[0].funding[0].amount).toBe('1');
+
+    const allocations = (await get(`/api/allocations?donationId=${first.id}`)).body;
+    expect(allocations.items).toHaveLength(1);
+    expect(allocations.items[0]).toMatchObject({ recipientName: 'Library', amount: '1.2', proofs: { submitted: 1, verified: 1 } });
+
+    const library = (await get(`/api/allocations/${allocations.items[0].id}`)).body;
+    expect(library.proofs[0].description).toBe('Bought 40 books');
+    expect((await get('/api/proofs?verified=true')).body.total).toBe(1);
+    expect((await get('/api/allocations/alloc_missing')).status).toBe(404);
+
+    expect((await get('/api/fund/summary')).body).toMatchObject({
+      network: 'devnet',
+      tokens: { SOL: { received: '3.5', allocated: '1.5', remaining: '2' } },
+      donations: 3,
+      allocations: 2
+    });
+    const legacy = (await get('/api/fund')).body;
+    expect(legacy).toMatchObject({
+      network: 'devnet',
+      source: 'persisted',
+      summary: { sol: { received: 3.5, allocated: 1.5, remaining: 2 }, usdc: { received: 0 }, donations: 3, allocations: 2, proofs: 1 }
+    });
+    expect(legacy.donations.map((d: { amount: number }) => d.amount)).toEqual([1, 2, 0.5]);
+    expect(legacy.allocations[0].amount).toBe(1.2);
+  });
+
+  it('should serve the audit trail as JSON or Markdown and export the ledger', async () => {
+    const trail = await get('/api/audit-trail');
+    expect(trail.body.integrity).toMatchObject({ valid: true });
+    expect(trail.body.entries.map((e: { type: string }) => e.type)).toContain('proof');
+
+    const markdown = await fetch(`${baseUrl}/api/audit-trail?format=markdown`);
+    expect(markdown.headers.get('content-type')).toContain('text/markdown');
+    expect(await markdown.text()).toContain('# Eve Transparent Fund - Audit Trail');
+
+    const exported = await fetch(`${baseUrl}/api/export`);
+    expect(exported.headers.get('content-disposition')).toContain('fund-devnet-export.json');
+    expect((await exported.json()).donations[0].amount).toBe('1000000000'); // base units
+  });
+
+  it('should accept proofs signed by the recipient without an operator token', async () => {
+    const [allocation] = fund.tracker.getAllocations();
+    const hash = (await fund.evidence.put(new TextEncoder().encode('reading room photo'))).hash;
+    const proof = {
+      allocationId: allocation.id,
+      description: 'Opened a reading room',
+      evidenceHashes: [hash],
+      ...signed(allocation.id, 'Opened a reading room', [hash])
+    };
+
+    expect(await post('/api/proofs', { ...proof, description: 'Opened two reading rooms' })).toMatchObject({
+      status: 403, body: { code: 'invalid_signature' }
+    });
+    expect((await post('/api/proofs', { ...proof, recipientAddress: newAddress() })).body.code).toBe('wrong_recipient');
+    expect((await post('/api/proofs', { ...proof, signature: undefined })).status).toBe(400);
+    expect((await post('/api/proofs', { ...proof, signedAt: undefined })).status).toBe(400);
+    expect((await post('/api/proofs', { ...proof, signedAt: '2026-03-03T00:00:00.000Z' })).body.code).toBe('invalid_signature');
+    expect((await post('/api/proofs', { ...proof, allocationId: 'alloc_missing' })).status).toBe(404);
+    expect((await post('/api/proofs', { ...proof, evidenceHashes: ['d'.repeat(64)] })).body.code).toBe('missing_evidence');
+
+    const created = await post('/api/proofs', proof);
+    expect(created).toMatchObject({ status: 201, body: { recipientAddress: allocation.to, evidenceHashes: [hash], verified: false } });
+    expect(await post('/api/proofs', proof)).toMatchObject({ status: 409, body: { code: 'replayed_signature' } });
+  });
+
+  // Upload evidence as the library's recipient wallet
+  const uploadEvidence = (content: Uint8Array<ArrayBuffer>, contentType: string, query = '', signer = libraryKey) =>
+    fetch(`${baseUrl}/api/evidence${query}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': contentType,
+        'X-Recipient-Address': libraryKey.publicKey.toBase58(),
+        'X-Recipient-Signature': signEvidenceUpload(hashEvidence(content), signer.secretKey)
+      },
+      body: content
+    });
+
+  it('should store evidence by hash, serve it re-hashed and check a proof\'s files', async () => {
+    const photo = new TextEncoder().encode('fake jpeg bytes');
+    const upload = await uploadEvidence(photo, 'image/jpeg', '?filename=roof.jpg');
+    const stored = await upload.json();
+    expect(upload.status).toBe(201);
+    expect(stored).toMatchObject({ size: photo.length, filename: 'roof.jpg', contentType: 'image/jpeg', uploadedBy: libraryKey.publicKey.toBase58() });
+
+    const served = await fetch(`${baseUrl}/api/evidence/${stored.hash}`);
+    expect(served.headers.get('content-type')).toBe('image/jpeg');
+    expect(served.headers.get('x-content-sha256')).toBe(stored.hash);
+    expect(new Uint8Array(await served.arrayBuffer())).toEqual(photo);
+    expect((await get(`/api/evidence/${'e'.repeat(64)}`)).status).toBe(404);
+
+    const [allocation] = fund.tracker.getAllocations();
+    const description = 'Fixed the roof';
+    const proof = await post('/api/proofs', {
+      allocationId: allocation.id, description, evidenceHashes: [stored.hash], ...signed(allocation.id, description, [stored.hash])
+    });
+    expect((await get(`/api/proofs/${proof.body.id}/evidence`)).body).toEqual({
+      proofId: proof.body.id, valid: true, files: [{ hash: stored.hash, status: 'ok' }]
+    });
+
+    // Swap the file on disk: the proof no longer checks out and the file isn't served
+    writeFileSync(join(evidenceDir, stored.hash.slice(0, 2), stored.hash), 'a different photo');
+    expect((await get(`/api/proofs/${proof.body.id}/evidence`)).body).toMatchObject({ valid: false, files: [{ status: 'corrupted' }] });
+    expect((await get(`/api/evidence/${stored.hash}`)).status).toBe(500);
+  });
+
+  it('should take a resubmission signed by the recipient after more information was asked for', async () => {
+    const [allocation] = fund.tracker.getAllocations();
+    const created = await post('/api/proofs', {
+      allocationId: allocation.id, description: 'Shelves built', ...signed(allocation.id, 'Shelves built')
+    });
+    const review = (status: string, note?: string) => post(`/api/proofs/${created.body.id}/review`, { status, note }, 'visitor-secret');
+    await review('under_review');
+    await review('needs_more_info', 'Photo of the shelves please');
+
+    const description = 'Shelves built, photo attached';
+    const resubmit = (signature: { signedAt: string; signature: string }) =>
+      post(`/api/proofs/${created.body.id}/resubmit`, { description, ...signature, note: 'Added a photo' });
+    expect((await resubmit(signed(allocation.id, 'Shelves built'))).body.code).toBe('invalid_signature');
+    expect((await resubmit(signed(allocation.id, description))).body).toMatchObject({
+      status: 'submitted',
+      description,
+      reviews: [{ by: 'field-visitor' }, { by: 'field-visitor' }, { to: 'submitted', by: allocation.to, note: 'Added a photo' }]
+    });
+  });
+
+  it('should only take evidence from the operator or a recipient, within quota', async () => {
+    const bytes = (text: string) => new TextEncoder().encode(text);
+    const anonymous = await fetch(`${baseUrl}/api/evidence`, { method: 'POST', headers: { 'Content-Type': 'image/png' }, body: bytes('spam') });
+    expect(anonymous.status).toBe(401);
+    expect((await uploadEvidence(bytes('forged'), 'image/png', '', Keypair.generate())).status).toBe(403);
+    expect((await uploadEvidence(bytes('{"receipt":1}'), 'application/json')).status).toBe(415);
+
+    // The first test upload counts toward the library's quota of 2
+    expect((await uploadEvidence(bytes('second photo'), 'image/png')).status).toBe(201);
+    expect((await uploadEvidence(bytes('third photo'), 'image/png')).status).toBe(429);
+    expect((await uploadEvidence(bytes('second photo'), 'image/png')).status).toBe(201);
+
+    const byOperator = await fetch(`${baseUrl}/api/evidence`, {
+      method: 'POST', headers: { 'Content-Type': 'image/png', Authorization: 'Bearer operator-secret' }, body: bytes('third photo')
+    });
+    expect(byOperator.status).toBe(201);
+  });
+
+  it('should attribute reviews to the reviewer whose token was used', async () => {
+    const proof = fund.tracker.getProofs().find(p => p.status === 'submitted')!;
+    const review = (status: string, note?: string, token = 'auditor-secret') =>
+      post(`/api/proofs/${proof.id}/review`, { status, note }, token);
+
+    expect((await post(`/api/proofs/${proof.id}/review`, { status: 'under_review' })).status).toBe(401);
+    expect((await review('under_review', undefined, 'wrong')).status).toBe(403);
+    expect((await review('under_review', undefined, 'operator-secret')).status).toBe(403);
+    expect((await post(`/api/proofs/${proof.id}/review`, { status: 'under_review', reviewer: 'field-visitor' }, 'auditor-secret')).status)
+      .toBe(403);
+    expect((await review('verified')).body).toMatchObject({ code: 'invalid_transition' });
+    expect((await review('under_review')).body.status).toBe('under_review');
+    expect((await review('rejected')).body).toMatchObject({ code: 'note_required' });
+    expect((await review('verified', 'Visited in person')).body).toMatchObject({
+      status: 'verified',
+      verified: true,
+      reviews: [{ to: 'under_review', by: 'auditor' }, { to: 'verified', by: 'auditor', note: 'Visited in person' }]
+    });
+  });
+
+  it('should record verified donations and refuse duplicates', async () => {
+    chain.fund(alice, sol('1'));
+    const txHash = chain.transfer({ from: alice, to: fund.getAddress(), amount: sol('0.25'), currency: 'SOL' });
+
+    const created = await post('/api/donations', { txHash, memo: 'via the API' }, 'operator-secret');
+    expect(created).toMatchObject({ status: 201, body: { donation: { from: alice, amount: '0.25', memo: 'via the API' } } });
+    expect((await post('/api/donations', { txHash }, 'operator-secret')).status).toBe(409);
+    expect((await post('/api/donations', {}, 'operator-secret')).status).toBe(400);
+    expect((await post('/api/donations', { txHash, memo: 42 }, 'operator-secret')).status).toBe(400);
+    expect((await post('/api/donations', { txHash, restriction: ['education'] }, 'operator-secret')).status).toBe(400);
+  });
+
+  it('should list returns and refunds with their links', async () => {
+    const garden = fund.tracker.getAllocations().find(a => a.recipientName === 'Garden')!;
+    const txHash = chain.transfer({ from: alice, to: fund.getAddress(), amount: sol('0.1'), currency: 'SOL' });
+    fund.tracker.recordRefund({
+      kind: 'project_refund', txHash, from: garden.to, to: fund.getAddress(), amount: sol('0.1'), currency: 'SOL',
+      allocationId: garden.id, reason: 'Season cancelled', timestamp: new Date()
+    });
+
+    const res = await get(`/api/refunds?allocationId=${garden.id}`);
+    expect(res.body).toMatchObject({ total: 1, items: [{ kind: 'project_refund', amount: '0.1', reason: 'Season cancelled' }] });
+    expect((await get('/api/refunds?kind=donor_refund')).body.total).toBe(0);
+  });
+
+  it('should refuse every write when no operator token is configured', async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(createFundRouter(fund, { apiToken: '' }));
+    const readOnly = app.listen(0);
+    try {
+      const url = `http://127.0.0.1:${(readOnly.address() as AddressInfo).port}/api/proofs/any/review`;
+      const res = await fetch(url, { method: 'POST', headers: { Authorization: 'Bearer anything' } });
+      expect(res.status).toBe(403);
+    } finally {
+      readOnly.close();
+    }
+  });
+});
@@ -0,0 +1,640 @@
+/**
+ * Fund REST API
+ *
+ * Routes over the fund ledger, mounted by the API server. Reads are public;
+ * writes need the operator token (EVE_FUND_API_TOKEN), except proofs and
+ * their evidence, which the recipient's signature vouches for (evidence
+ * uploads are capped per recipient), and proof reviews, which need the
+ * reviewer's own token (EVE_FUND_REVIEWER_TOKENS). Amounts are
+ * formatted in whole tokens ("1.5") like getSummary(); /api/export keeps
+ * base units for machine use.
+ */
+
+import express, { Request, RequestHandler, Response, Router } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import type { TransparentFund } from './index';
+import { Currency, DonorHistory } from './types';
+import type { TokenRegistry } from './tokens';
+import { formatUsd } from './pricing';
+import { parseReviewerTokens, requireOperatorToken, requireReviewerToken } from './auth-middleware';
+import { hashEvidence } from './evidence-store';
+import { verifyEvidenceUploadSignature } from './proof-signing';
+import { DonationError, DuplicateTransactionError, FundingError, GrantError, ProposalError, ProofError, RefundError, TokenError } from './errors';
+
+export interface FundRouterOptions {
+  apiToken?: string; // operator token for writes; defaults to EVE_FUND_API_TOKEN
+  reviewerTokens?: Record<string, string>; // reviewer name -> their token; defaults to EVE_FUND_REVIEWER_TOKENS ("name=token,...")
+  maxEvidenceBytes?: number; // largest evidence upload accepted, default 10 MB
+  maxEvidenceFilesPerRecipient?: number; // evidence files one recipient may upload, default 20
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const DEFAULT_MAX_EVIDENCE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_EVIDENCE_FILES = 20;
+
+// A query or body the route can't use; answered with 400
+class BadRequest extends Error {}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isAddress(address: string): boolean {
+  try {
+    new PublicKey(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ledger records as JSON: bigint amounts in whole tokens of the nearest
+ * enclosing `currency`, USD cents as "142.50", dates as ISO strings
+ */
+export function toApiJson(value: unknown, tokens: TokenRegistry, currency?: Currency, key?: string): unknown {
+  return serialize(value, tokens, amount => amount, currency, key);
+}
+
+// Like toApiJson, but amounts are JSON numbers, as the former web/api/fund.js served them
+function toLegacyJson(value: unknown, tokens: TokenRegistry): unknown {
+  return serialize(value, tokens, Number);
+}
+
+function serialize(
+  value: unknown,
+  tokens: TokenRegistry,
+  amount: (formatted: string) => unknown,
+  currency?: Currency,
+  key?: string
+): unknown {
+  if (typeof value === 'bigint') {
+    if (key === 'usd') return amount(formatUsd(value));
+    return amount(currency ? tokens.format(value, currency) : value.toString());
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => serialize(item, tokens, amount, currency));
+  if (value && typeof value === 'object') {
+    const own = (value as { currency?: unknown }).currency;
+    const context = typeof own === 'string' ? own : currency;
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, field]) => field !== undefined)
+        .map(([field, item]) => [field, serialize(item, tokens, amount, context, field)])
+    );
+  }
+  return value;
+}
+
+// Donor history with whole-token amounts, ready for JSON
+export function formatDonorHistory(history: DonorHistory, tokens: TokenRegistry) {
+  return {
+    address: history.address,
+    totals: Object.fromEntries(Object.entries(history.totals).map(([currency, totals]) => [currency, {
+      donated: tokens.format(totals.donated, currency),
+      allocated: tokens.format(totals.allocated, currency),
+      committed: tokens.format(totals.committed, currency),
+      pending: tokens.format(totals.pending, currency),
+      refunded: tokens.format(totals.refunded, currency),
+      remaining: tokens.format(totals.remaining, currency)
+    }])),
+    recipients: history.recipients,
+    proofs: history.proofs,
+    donations: history.donations.map(({ donation, allocations, remaining }) => ({
+      id: donation.id,
+      txHash: donation.txHash,
+      amount: tokens.format(donation.amount, donation.currency),
+      currency: donation.currency,
+      timestamp: donation.timestamp.toISOString(),
+      ...(donation.memo ? { memo: donation.memo } : {}),
+      ...(donation.restriction ? { restriction: donation.restriction } : {}),
+      remaining: tokens.format(remaining, donation.currency),
+      allocations: allocations.map(({ allocation, amount, proofs }) => ({
+        id: allocation.id,
+        txHash: allocation.txHash,
+        to: allocation.to,
+        recipientName: allocation.recipientName,
+        purpose: allocation.purpose,
+        timestamp: allocation.timestamp.toISOString(),
+        amount: tokens.format(amount, allocation.currency), // this donation's share
+        allocationAmount: tokens.format(allocation.amount, allocation.currency),
+        proofs: proofs.map(proof => ({
+          id: proof.id,
+          description: proof.description,
+          evidenceLinks: proof.evidenceLinks,
+          timestamp: proof.timestamp.toISOString(),
+          verified: proof.verified
+        }))
+      }))
+    }))
+  };
+}
+
+function queryString(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new BadRequest(`${name} must be given once`);
+  return value;
+}
+
+function queryDate(req: Request, name: string): Date | undefined {
+  const value = queryString(req, name);
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new BadRequest(`${name} must be an ISO date`);
+  return date;
+}
+
+function queryInteger(req: Request, name: string, fallback: number, max: number): number {
+  const value = queryString(req, name);
+  if (value === undefined) return fallback;
+  if (!/^\d+$/.test(value) || Number(value) > max) throw new BadRequest(`${name} must be an integer from 0 to ${max}`);
+  return Number(value);
+}
+
+/**
+ * Filter, sort newest first and slice. `limit` (default 50, max 500) and
+ * `offset` come from the query; `total` counts every match.
+ */
+function paginate<T extends { timestamp: Date }>(req: Request, tokens: TokenRegistry, items: T[], filters: Array<(item: T) => boolean>) {
+  const limit = queryInteger(req, 'limit', DEFAULT_LIMIT, MAX_LIMIT);
+  const offset = queryInteger(req, 'offset', 0, Number.MAX_SAFE_INTEGER);
+  const since = queryDate(req, 'since');
+  const until = queryDate(req, 'until');
+
+  const matches = items
+    .filter(item => (!since || item.timestamp >= since) && (!until || item.timestamp <= until))
+    .filter(item => filters.every(filter => filter(item)))
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+  return { items: toApiJson(matches.slice(offset, offset + limit), tokens), total: matches.length, limit, offset };
+}
+
+// Equality filter on a field when the query names it
+function matching<T>(req: Request, name: string, field: (item: T) => unknown): (item: T) => boolean {
+  const value = queryString(req, name);
+  return item => value === undefined || String(field(item)) === value;
+}
+
+function sendError(res: Response, error: unknown): void {
+  if (error instanceof BadRequest) {
+    res.status(400).json({ error: error.message });
+  } else if (error instanceof DuplicateTransactionError) {
+    res.status(409).json({ error: error.message, existingId: error.existingId });
+  } else if (error instanceof ProofError && error.code === 'replayed_signature') {
+    res.status(409).json({ error: error.message, code: error.code });
+  } else if (error instanceof ProofError && error.code === 'unknown_proof') {
+    res.status(404).json({ error: error.message, code: error.code });
+  } else if (error instanceof ProofError && (error.code === 'invalid_signature' || error.code === 'wrong_recipient')) {
+    res.status(403).json({ error: error.message, code: error.code });
+  } else if (error instanceof DonationError || error instanceof FundingError || error instanceof ProposalError || error instanceof ProofError || error instanceof TokenError
+    || error instanceof GrantError || error instanceof RefundError) {
+    res.status(422).json({ error: error.message, code: error.code });
+  } else {
+    res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+export function createFundRouter(fund: TransparentFund, options: FundRouterOptions = {}): Router {
+  const router = Router();
+  const tracker = fund.tracker;
+  const operator = requireOperatorToken(options.apiToken ?? process.env.EVE_FUND_API_TOKEN);
+  const reviewerAuth = requireReviewerToken(options.reviewerTokens ?? parseReviewerTokens(process.env.EVE_FUND_REVIEWER_TOKENS));
+
+  /**
+   * GET /api/fund (deprecated)
+   * The response of the dashboard's former web/api/fund.js function, amounts
+   * as numbers, for clients not yet moved to /api/fund/summary and the record routes
+   */
+  router.get('/api/fund', (req, res) => {
+    try {
+      const { tokens, donations, allocations, proofs } = fund.getSummary();
+      res.json({
+        donations: toLegacyJson(tracker.getDonations(), fund.tokens),
+        allocations: toLegacyJson(tracker.getAllocations(), fund.tokens),
+        proofs: toLegacyJson(tracker.getProofs(), fund.tokens),
+        summary: {
+          ...Object.fromEntries(Object.entries(tokens).map(([symbol, { received, allocated, remaining }]) =>
+            [symbol.toLowerCase(), { received: Number(received), allocated: Number(allocated), remaining: Number(remaining) }])),
+          donations,
+          allocations,
+          proofs
+        },
+        network: fund.config.network,
+        source: 'persisted'
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/fund/summary
+   * Per-token totals and record counts
+   */
+  router.get('/api/fund/summary', (req, res) => {
+    try {
+      res.json({ network: fund.config.network, ...fund.getSummary() });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/donations?from=&currency=&restriction=&since=&until=&limit=&offset=
+   */
+  router.get('/api/donations', (req, res) => {
+    try {
+      res.json(paginate(req, fund.tokens, tracker.getDonations(), [
+        matching(req, 'from', d => d.from),
+        matching(req, 'currency', d => d.currency),
+        matching(req, 'restriction', d => d.restriction)
+      ]));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/donations/:id
+   * A donation and how much of it is still unallocated
+   */
+  router.get('/api/donations/:id', (req, res) => {
+    try {
+      const donation = tracker.getDonations().find(d => d.id === req.params.id);
+      if (!donation) {
+        return res.status(404).json({ error: 'Donation not found' });
+      }
+      res.json(toApiJson({ ...donation, remaining: tracker.getDonationBalance(donation.id) }, fund.tokens));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/donations/:id/trace
+   * Where a donation went: allocations, its share of each, and their proofs
+   */
+  router.get('/api/donations/:id/trace', (req, res) => {
+    try {
+      const trace = tracker.traceDonation(req.params.id);
+      if (!trace.donation) {
+        return res.status(404).json({ error: 'Donation not found' });
+      }
+      res.json(toApiJson(trace, fund.tokens, trace.donation.currency));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/allocations?to=&currency=&donationId=&category=&since=&until=&limit=&offset=
+   * Each allocation carries counts of its submitted and verified proofs
+   */
+  router.get('/api/allocations', (req, res) => {
+    try {
+      const donationId = queryString(req, 'donationId');
+      const allocations = tracker.getAllocations().map(allocation => {
+        const proofs = tracker.getProofsForAllocation(allocation.id);
+        return { ...allocation, proofs: { submitted: proofs.length, verified: proofs.filter(p => p.verified).length } };
+      });
+      res.json(paginate(req, fund.tokens, allocations, [
+        matching(req, 'to', a => a.to),
+        matching(req, 'currency', a => a.currency),
+        matching(req, 'category', a => a.category),
+        a => !donationId || a.donationIds.includes(donationId)
+      ]));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/allocations/:id
+   * An allocation with its proofs of impact
+   */
+  router.get('/api/allocations/:id', (req, res) => {
+    try {
+      const allocation = tracker.getAllocations().find(a => a.id === req.params.id);
+      if (!allocation) {
+        return res.status(404).json({ error: 'Allocation not found' });
+      }
+      res.json(toApiJson({ ...allocation, proofs: tracker.getProofsForAllocation(allocation.id) }, fund.tokens));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/proofs?allocationId=&recipientAddress=&status=&verified=&since=&until=&limit=&offset=
+   */
+  router.get('/api/proofs', (req, res) => {
+    try {
+      res.json(paginate(req, fund.tokens, tracker.getProofs(), [
+        matching(req, 'allocationId', p => p.allocationId),
+        matching(req, 'recipientAddress', p => p.recipientAddress),
+        matching(req, 'status', p => p.status),
+        matching(req, 'verified', p => p.verified)
+      ]));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/refunds?kind=&allocationId=&donationId=&since=&until=&limit=&offset=
+   */
+  router.get('/api/refunds', (req, res) => {
+    try {
+      res.json(paginate(req, fund.tokens, tracker.getRefunds(), [
+        matching(req, 'kind', r => r.kind),
+        matching(req, 'allocationId', r => r.allocationId),
+        matching(req, 'donationId', r => r.donationId)
+      ]));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/proofs/:id
+   */
+  router.get('/api/proofs/:id', (req, res) => {
+    try {
+      const proof = tracker.getProofs().find(p => p.id === req.params.id);
+      if (!proof) {
+        return res.status(404).json({ error: 'Proof not found' });
+      }
+      res.json(toApiJson(proof, fund.tokens));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/proofs/:id/evidence
+   * Re-hashes every evidence file the proof references
+   */
+  router.get('/api/proofs/:id/evidence', async (req, res) => {
+    try {
+      res.json(await fund.checkProofEvidence(req.params.id));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  // Recipient uploads are checked against the body's hash once it is read
+  const recipientOrOperator: RequestHandler = (req, res, next) => {
+    if (req.get('x-recipient-signature')) return next();
+    operator(req, res, next);
+  };
+
+  // An app-level express.json() would have parsed the file already
+  const rejectJson: RequestHandler = (req, res, next) => {
+    if (req.is('application/json')) {
+      res.status(415).json({ error: 'Upload evidence as raw bytes; send JSON files as application/octet-stream' });
+      return;
+    }
+    next();
+  };
+
+  /**
+   * POST /api/evidence
+   * Raw file bytes; Content-Type is kept, ?filename= names it. Returns the
+   * SHA-256 to sign into a proof. Storing the same bytes twice is harmless.
+   * Needs the operator token, or X-Recipient-Address and X-Recipient-Signature:
+   * that recipient's signature over evidenceUploadMessage(sha256 of the body).
+   */
+  router.post(
+    '/api/evidence',
+    rejectJson,
+    recipientOrOperator,
+    express.raw({ type: () => true, limit: options.maxEvidenceBytes ?? DEFAULT_MAX_EVIDENCE_BYTES }),
+    async (req, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          throw new BadRequest('Send the evidence file as the request body');
+        }
+        const content = new Uint8Array(req.body);
+        const hash = hashEvidence(content);
+
+        const signature = req.get('x-recipient-signature');
+        const uploadedBy = req.get('x-recipient-address');
+        if (signature) {
+          if (!uploadedBy || !tracker.getAllocations().some(a => a.to === uploadedBy)) {
+            return res.status(403).json({ error: 'X-Recipient-Address must be the recipient of an allocation' });
+          }
+          if (!verifyEvidenceUploadSignature(hash, signature, uploadedBy)) {
+            return res.status(403).json({ error: 'Signature does not match the file and recipient address' });
+          }
+          const limit = options.maxEvidenceFilesPerRecipient ?? DEFAULT_MAX_EVIDENCE_FILES;
+          if (!await fund.evidence.has(hash) && await fund.evidence.countUploads(uploadedBy) >= limit) {
+            return res.status(429).json({ error: `${uploadedBy} has already uploaded ${limit} evidence files` });
+          }
+        }
+
+        const filename = queryString(req, 'filename');
+        const contentType = req.get('content-type');
+        const stored = await fund.evidence.put(content, {
+          ...(filename ? { filename } : {}),
+          ...(contentType ? { contentType } : {}),
+          ...(signature ? { uploadedBy } : {})
+        });
+        res.status(201).json(stored);
+      } catch (error) {
+        sendError(res, error);
+      }
+    }
+  );
+
+  /**
+   * GET /api/evidence/:hash
+   * Serves a stored file after re-hashing it, so corrupted evidence is
+   * never passed off as what the recipient signed
+   */
+  router.get('/api/evidence/:hash', async (req, res) => {
+    try {
+      const stored = await fund.evidence.get(req.params.hash);
+      if (!stored) {
+        return res.status(404).json({ error: 'Evidence not found' });
+      }
+      const actualHash = hashEvidence(stored.content);
+      if (actualHash !== req.params.hash) {
+        return res.status(500).json({ error: 'Stored evidence no longer matches its hash', hash: req.params.hash, actualHash });
+      }
+      res
+        .set('Content-Type', stored.evidence.contentType || 'application/octet-stream')
+        .set('X-Content-SHA256', req.params.hash)
+        .set('X-Content-Type-Options', 'nosniff')
+        .set('Content-Security-Policy', 'sandbox') // uploads are untrusted; never run them as a page on this origin
+        .set('Cache-Control', 'public, max-age=31536000, immutable')
+        .send(Buffer.from(stored.content));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/audit-trail?format=json|markdown
+   * Every record in time order, with the audit log's integrity check
+   */
+  router.get('/api/audit-trail', (req, res) => {
+    try {
+      const format = queryString(req, 'format') || 'json';
+      if (format === 'markdown') {
+        return res.type('text/markdown').send(fund.getAuditTrailMarkdown());
+      }
+      if (format !== 'json') {
+        throw new BadRequest('format must be json or markdown');
+      }
+      res.json({ entries: toApiJson(tracker.getAuditTrail(), fund.tokens), integrity: tracker.verifyIntegrity() });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/export
+   * The whole ledger with base-unit amounts, as a download
+   */
+  router.get('/api/export', (req, res) => {
+    try {
+      res.attachment(`fund-${fund.config.network}-export.json`).type('json').send(tracker.exportData());
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * GET /api/donors/:address
+   * Every donation from a wallet, how each was allocated, the resulting
+   * proofs and lifetime totals
+   */
+  router.get('/api/donors/:address', (req, res) => {
+    try {
+      const { address } = req.params;
+      if (!isAddress(address)) {
+        return res.status(400).json({ error: 'Invalid Solana address' });
+      }
+
+      const history = tracker.getDonorHistory(address);
+      if (history.donations.length === 0) {
+        return res.status(404).json({ error: 'No donations from this address' });
+      }
+      res.json(formatDonorHistory(history, fund.tokens));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * POST /api/donations (operator)
+   * Record a donation after verifying its transaction on-chain
+   * Body: { txHash, memo?, restriction? }
+   */
+  router.post('/api/donations', operator, async (req, res) => {
+    try {
+      const { txHash, memo, restriction } = req.body ?? {};
+      if (typeof txHash !== 'string' || !txHash) {
+        throw new BadRequest('Missing required field: txHash');
+      }
+      if ((memo !== undefined && typeof memo !== 'string') || (restriction !== undefined && typeof restriction !== 'string')) {
+        throw new BadRequest('memo and restriction must be strings');
+      }
+      const { donation, receipt } = await fund.recordIncomingDonation(txHash, { memo, restriction });
+      res.status(201).json({ donation: toApiJson(donation, fund.tokens), ...(receipt ? { receipt } : {}) });
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * POST /api/proofs
+   * Body: { allocationId, description, evidenceLinks?, evidenceHashes?, signedAt, signature, recipientAddress? }
+   * Open to anyone: the allocation recipient's signature is the authentication,
+   * and a signature is accepted once (409 when replayed).
+   * Each evidence hash must already be uploaded to /api/evidence.
+   */
+  router.post('/api/proofs', async (req, res) => {
+    try {
+      const { allocationId, description, evidenceLinks = [], evidenceHashes = [], signedAt, signature } = req.body ?? {};
+      if (typeof allocationId !== 'string' || typeof description !== 'string' || typeof signedAt !== 'string' || typeof signature !== 'string') {
+        throw new BadRequest('Missing required fields: allocationId, description, signedAt, signature');
+      }
+      if (!isStringArray(evidenceLinks) || !isStringArray(evidenceHashes)) {
+        throw new BadRequest('evidenceLinks and evidenceHashes must be arrays of strings');
+      }
+      const allocation = tracker.getAllocations().find(a => a.id === allocationId);
+      if (!allocation) {
+        return res.status(404).json({ error: 'Allocation not found' });
+      }
+      const recipientAddress = req.body.recipientAddress ?? allocation.to;
+      if (typeof recipientAddress !== 'string') {
+        throw new BadRequest('recipientAddress must be a string');
+      }
+      await fund.assertEvidenceStored(evidenceHashes);
+      const proof = fund.submitProofOfImpact(allocationId, recipientAddress, description, evidenceLinks, signature, signedAt, evidenceHashes);
+      res.status(201).json(toApiJson(proof, fund.tokens));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * POST /api/proofs/:id/review (reviewer token)
+   * Body: { status: under_review|verified|rejected|needs_more_info, note? }
+   * The review is attributed to whoever the token belongs to.
+   */
+  router.post('/api/proofs/:id/review', reviewerAuth, (req, res) => {
+    try {
+      const { status, note } = req.body ?? {};
+      const reviewer: string = res.locals.reviewer;
+      if (!['under_review', 'verified', 'rejected', 'needs_more_info'].includes(status)) {
+        throw new BadRequest('status must be under_review, verified, rejected or needs_more_info');
+      }
+      if (req.body.reviewer !== undefined && req.body.reviewer !== reviewer) {
+        return res.status(403).json({ error: `This token belongs to ${reviewer}` });
+      }
+      if (note !== undefined && typeof note !== 'string') {
+        throw new BadRequest('note must be a string');
+      }
+      res.json(toApiJson(fund.reviewProof(String(req.params.id), status, reviewer, note), fund.tokens));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  /**
+   * POST /api/proofs/:id/resubmit
+   * Body: { description?, evidenceLinks?, evidenceHashes?, signedAt, signature, note? }
+   * Answers needs_more_info; the recipient signs the revised proof, which is
+   * the authentication, like POST /api/proofs.
+   */
+  router.post('/api/proofs/:id/resubmit', async (req, res) => {
+    try {
+      const { description, evidenceLinks, evidenceHashes, signedAt, signature, note } = req.body ?? {};
+      if (typeof signedAt !== 'string' || typeof signature !== 'string') {
+        throw new BadRequest('Missing required fields: signedAt, signature');
+      }
+      if ((description !== undefined && typeof description !== 'string') || (note !== undefined && typeof note !== 'string')) {
+        throw new BadRequest('description and note must be strings');
+      }
+      if ((evidenceLinks !== undefined && !isStringArray(evidenceLinks)) || (evidenceHashes !== undefined && !isStringArray(evidenceHashes))) {
+        throw new BadRequest('evidenceLinks and evidenceHashes must be arrays of strings');
+      }
+      if (evidenceHashes) await fund.assertEvidenceStored(evidenceHashes);
+      const changes = {
+        ...(description !== undefined ? { description } : {}),
+        ...(evidenceLinks ? { evidenceLinks } : {}),
+        ...(evidenceHashes ? { evidenceHashes } : {}),
+        signedAt
+      };
+      res.json(toApiJson(tracker.resubmitProof(String(req.params.id), changes, signature, note), fund.tokens));
+    } catch (error) {
+      sendError(res, error);
+    }
+  });
+
+  return router;
+}
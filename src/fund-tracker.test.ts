@@ -0,0 +1,820 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Keypair } from '@solana/web3.js';
+import { FundTracker } from './fund-tracker';
+import { verifyMerkleProof } from './merkle';
+import { AuditLog } from './audit-log';
+import { DuplicateTransactionError, FundingError, GrantError, ProposalError, ProofError, RefundError } from './errors';
+import { parseAmount } from './money';
+import { signProof } from './proof-signing';
+
+const sol = (value: string) => parseAmount(value, 'SOL');
+
+const recipient = Keypair.generate();
+const recipientAddress = recipient.publicKey.toBase58();
+
+// A proof of impact for `allocationId` signed by `recipient`
+function signedProof(allocationId: string, description: string, evidenceHashes: string[] = [], signedAt = new Date().toISOString()) {
+  return {
+    allocationId,
+    recipientAddress,
+    description,
+    evidenceLinks: [],
+    evidenceHashes,
+    signedAt,
+    signature: signProof({ allocationId, description, evidenceHashes, signedAt }, recipient.secretKey),
+    timestamp: new Date()
+  };
+}
+
+describe('FundTracker audit log', () => {
+  let dir: string;
+  let dataPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    dataPath = join(dir, 'fund-data.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function seed(tracker: FundTracker) {
+    const donation = tracker.recordDonation({
+      txHash: 'tx1',
+      from: 'donor',
+      amount: sol('1'),
+      currency: 'SOL',
+      timestamp: new Date()
+    });
+    const allocation = tracker.recordAllocation({
+      txHash: 'tx2',
+      to: recipientAddress,
+      recipientName: 'Recipient',
+      amount: sol('0.5'),
+      currency: 'SOL',
+      purpose: 'Purpose',
+      timestamp: new Date(),
+      donationIds: [donation.id]
+    });
+    const proof = tracker.submitProof(signedProof(allocation.id, 'Done'));
+    tracker.startProofReview(proof.id, 'auditor');
+    tracker.verifyProof(proof.id, 'auditor', 'Photos match the purpose');
+    return { donation, allocation, proof };
+  }
+
+  it('should chain every change to the previous entry', () => {
+    const tracker = new FundTracker(dataPath, false);
+    seed(tracker);
+
+    const log = tracker.getAuditLog();
+    expect(log.map(e => e.type)).toEqual(['donation', 'allocation', 'proof', 'proof_reviewed', 'proof_reviewed']);
+    for (let i = 1; i < log.length; i++) {
+      expect(log[i].prevHash).toBe(log[i - 1].hash);
+    }
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+  });
+
+  it('should survive a save and reload', () => {
+    seed(new FundTracker(dataPath));
+
+    const reloaded = new FundTracker(dataPath);
+    expect(reloaded.getAuditLog()).toHaveLength(5);
+    expect(reloaded.verifyIntegrity()).toEqual({ valid: true, entriesChecked: 5 });
+  });
+
+  it('should detect a donation edited on disk', () => {
+    seed(new FundTracker(dataPath));
+
+    const data = JSON.parse(readFileSync(dataPath, 'utf-8'));
+    data.donations[0].amount = '100000000000';
+    writeFileSync(dataPath, JSON.stringify(data));
+
+    const report = new FundTracker(dataPath).verifyIntegrity();
+    expect(report.valid).toBe(false);
+    expect(report.firstBrokenSeq).toBe(0);
+  });
+
+  it('should detect a rewritten log entry', () => {
+    seed(new FundTracker(dataPath));
+
+    const logPath = join(dir, 'fund-data.audit.jsonl');
+    const lines = readFileSync(logPath, 'utf-8').trim().split('\n');
+    const entry = JSON.parse(lines[1]);
+    entry.data.amount = '10000000';
+    lines[1] = JSON.stringify(entry);
+    writeFileSync(logPath, lines.join('\n'));
+
+    const report = new FundTracker(dataPath).verifyIntegrity();
+    expect(report.valid).toBe(false);
+    expect(report.firstBrokenSeq).toBe(1);
+  });
+
+  it('should start a chain for data saved before the log existed only when asked to', () => {
+    seed(new FundTracker(dataPath));
+    rmSync(join(dir, 'fund-data.audit.jsonl'));
+
+    expect(() => new FundTracker(dataPath, false)).toThrow('Audit log');
+    const tracker = new FundTracker(dataPath, false, undefined, undefined, true);
+    expect(tracker.getAuditLog()).toHaveLength(3);
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+  });
+
+  it('should refuse to start on a corrupt log and leave it for repair', () => {
+    seed(new FundTracker(dataPath));
+    const logPath = join(dir, 'fund-data.audit.jsonl');
+    writeFileSync(logPath, readFileSync(logPath, 'utf-8') + '{"seq": 3, trunc');
+    const before = readFileSync(logPath, 'utf-8');
+
+    expect(() => new FundTracker(dataPath)).toThrow('Failed to load audit log');
+    expect(readFileSync(logPath, 'utf-8')).toBe(before);
+  });
+});
+
+describe('FundTracker anchoring', () => {
+  it('should prove a donation is included in the anchored root', () => {
+    const tracker = new FundTracker('./data/unused.json', false);
+    const donation = tracker.recordDonation({
+      txHash: 'tx1',
+      from: 'donor',
+      amount: sol('1'),
+      currency: 'SOL',
+      timestamp: new Date()
+    });
+    for (let i = 2; i <= 5; i++) {
+      tracker.recordDonation({
+        txHash: `tx${i}`,
+        from: 'donor',
+        amount: sol('0.1'),
+        currency: 'SOL',
+        timestamp: new Date()
+      });
+    }
+
+    const pending = tracker.prepareAnchor();
+    expect(pending).toMatchObject({ fromSeq: 0, toSeq: 4 });
+    tracker.recordAnchor({ ...pending!, txHash: 'memo_tx', network: 'devnet', timestamp: new Date() });
+
+    // Nothing new to anchor until the log grows
+    expect(tracker.prepareAnchor()).toBeNull();
+
+    const inclusion = tracker.getInclusionProof(donation.id);
+    expect(inclusion).not.toBeNull();
+    expect(inclusion!.entry.recordId).toBe(donation.id);
+    expect(inclusion!.proof.root).toBe(pending!.root);
+    expect(verifyMerkleProof(inclusion!.proof)).toBe(true);
+
+    // A tampered leaf no longer reaches the root
+    expect(verifyMerkleProof({ ...inclusion!.proof, leaf: 'f'.repeat(64) })).toBe(false);
+  });
+
+  it('should not prove records logged after the latest anchor', () => {
+    const tracker = new FundTracker('./data/unused.json', false);
+    tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+    tracker.recordAnchor({ ...tracker.prepareAnchor()!, txHash: 'memo_tx', network: 'devnet', timestamp: new Date() });
+
+    const later = tracker.recordDonation({ txHash: 'tx2', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+    expect(tracker.getInclusionProof(later.id)).toBeNull();
+  });
+
+  it('should log anchors so one dropped from the data file is detected', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    const dataPath = join(dir, 'fund-data.json');
+    const tracker = new FundTracker(dataPath);
+    tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+    const anchor = tracker.recordAnchor({ ...tracker.prepareAnchor()!, txHash: 'memo_tx', network: 'devnet', timestamp: new Date() });
+    expect(tracker.getAuditLog().map(e => e.type)).toEqual(['donation', 'anchor']);
+    expect(tracker.prepareAnchor()).toBeNull();
+
+    const data = JSON.parse(readFileSync(dataPath, 'utf-8'));
+    writeFileSync(dataPath, JSON.stringify({ ...data, anchors: [] }));
+    const report = new FundTracker(dataPath, false).verifyIntegrity();
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(report).toMatchObject({ valid: false, reason: expect.stringContaining(`Record ${anchor.id} logged at entry 1`) });
+  });
+});
+
+describe('FundTracker transaction uniqueness', () => {
+  it('should reject a donation with an already recorded txHash', () => {
+    const tracker = new FundTracker('./data/unused.json', false);
+    const first = tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+
+    expect(() => tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() }))
+      .toThrow(DuplicateTransactionError);
+
+    const duplicateAllocation = () => tracker.recordAllocation({
+      txHash: 'tx1',
+      to: 'recipient',
+      recipientName: 'Recipient',
+      amount: sol('0.5'),
+      currency: 'SOL',
+      purpose: 'Purpose',
+      timestamp: new Date(),
+      donationIds: []
+    });
+    expect(duplicateAllocation).toThrow(DuplicateTransactionError);
+    expect(duplicateAllocation).toThrow(first.id);
+
+    expect(tracker.getSummary().totalReceived).toBe(sol('1'));
+  });
+
+  it('should report duplicates already present in a data file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    const dataPath = join(dir, 'fund-data.json');
+    const donation = { txHash: 'tx1', from: 'donor', amount: '1000000000', currency: 'SOL', timestamp: new Date().toISOString() };
+    writeFileSync(dataPath, JSON.stringify({
+      version: 2,
+      donations: [{ ...donation, id: 'don_a' }, { ...donation, id: 'don_b' }, { ...donation, id: 'don_c', txHash: 'tx2' }],
+      allocations: [],
+      proofs: []
+    }));
+
+    const duplicates = new FundTracker(dataPath, false, undefined, undefined, true).findDuplicateTransactions();
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0].txHash).toBe('tx1');
+    expect(duplicates[0].records.map(r => r.id)).toEqual(['don_a', 'don_b']);
+  });
+});
+
+describe('FundTracker amounts', () => {
+  let dir: string;
+  let dataPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    dataPath = join(dir, 'fund-data.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should total without floating point drift', () => {
+    const tracker = new FundTracker(dataPath, false);
+    tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('0.1'), currency: 'SOL', timestamp: new Date() });
+    tracker.recordDonation({ txHash: 'tx2', from: 'donor', amount: sol('0.2'), currency: 'SOL', timestamp: new Date() });
+
+    expect(tracker.getSummary('SOL').totalReceived).toBe(sol('0.3'));
+  });
+
+  it('should store amounts as base-unit strings and read them back exactly', () => {
+    const tracker = new FundTracker(dataPath);
+    tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: 123_456_789_123n, currency: 'SOL', timestamp: new Date() });
+
+    const data = JSON.parse(readFileSync(dataPath, 'utf-8'));
+    expect(data.version).toBe(3);
+    expect(data.donations[0].amount).toBe('123456789123');
+    expect(new FundTracker(dataPath).getDonations()[0].amount).toBe(123_456_789_123n);
+  });
+
+  it('should migrate a legacy file with human-readable amounts', () => {
+    // Legacy data and its audit log, as written before amounts were base units
+    writeFileSync(dataPath, JSON.stringify({
+      donations: [{ id: 'don_a', txHash: 'tx1', from: 'donor', amount: 0.1, currency: 'SOL', timestamp: new Date().toISOString() }],
+      allocations: [],
+      proofs: []
+    }));
+    const log = new AuditLog();
+    log.append('donation', 'don_a', JSON.parse(readFileSync(dataPath, 'utf-8')).donations[0]);
+    writeFileSync(join(dir, 'fund-data.audit.jsonl'), log.getEntries().map(e => JSON.stringify(e) + '\n').join(''));
+
+    const tracker = new FundTracker(dataPath);
+    expect(tracker.getDonations()[0].amount).toBe(100_000_000n);
+    expect(tracker.getAuditLog().map(e => e.type)).toEqual(['donation', 'migration']);
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+
+    // Migrated on load, so a reload needs no further migration
+    expect(JSON.parse(readFileSync(dataPath, 'utf-8')).donations[0].amount).toBe('100000000');
+    expect(new FundTracker(dataPath).getAuditLog()).toHaveLength(2);
+  });
+
+  it('should round float dust off legacy amounts instead of dropping the record', () => {
+    const timestamp = new Date().toISOString();
+    writeFileSync(dataPath, JSON.stringify({
+      donations: [{ id: 'don_a', txHash: 'tx1', from: 'donor', amount: 0.1, currency: 'SOL', timestamp }],
+      allocations: [{
+        id: 'alloc_a', txHash: 'tx2', to: 'recipient', recipientName: 'R', amount: 0.1 / 3, currency: 'SOL',
+        purpose: 'P', timestamp, donationIds: ['don_a']
+      }],
+      proofs: []
+    }));
+    const log = new AuditLog();
+    const legacy = JSON.parse(readFileSync(dataPath, 'utf-8'));
+    log.append('donation', 'don_a', legacy.donations[0]);
+    log.append('allocation', 'alloc_a', legacy.allocations[0]);
+    writeFileSync(join(dir, 'fund-data.audit.jsonl'), log.getEntries().map(e => JSON.stringify(e) + '\n').join(''));
+
+    const tracker = new FundTracker(dataPath);
+    expect(tracker.getAllocations()[0]).toMatchObject({ amount: 33_333_333n, funding: [{ donationId: 'don_a', amount: 33_333_333n }] });
+    expect(JSON.parse(readFileSync(dataPath, 'utf-8')).allocations[0].amount).toBe('33333333');
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+  });
+
+  it('should refuse to open a file it can\'t fully load and leave it untouched', () => {
+    const broken = JSON.stringify({ donations: [{ id: 'don_a', txHash: 'tx1', from: 'donor', amount: 1, currency: 'XYZ', timestamp: 0 }] });
+    writeFileSync(dataPath, broken);
+
+    expect(() => new FundTracker(dataPath)).toThrow(`Failed to load fund data from ${dataPath}`);
+    expect(readFileSync(dataPath, 'utf-8')).toBe(broken);
+  });
+});
+
+describe('FundTracker funding', () => {
+  it('should derive funding splits for allocations saved before they were tracked', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    const dataPath = join(dir, 'fund-data.json');
+    const allocation = { to: 'r', recipientName: 'R', currency: 'SOL', purpose: 'P', donationIds: ['don_a'] };
+    writeFileSync(dataPath, JSON.stringify({
+      version: 2,
+      donations: [{ id: 'don_a', txHash: 'tx1', from: 'donor', amount: '1000000000', currency: 'SOL', timestamp: '2026-02-07T00:00:00.000Z' }],
+      allocations: [
+        { ...allocation, id: 'alloc_b', txHash: 'tx3', amount: '600000000', timestamp: '2026-02-09T00:00:00.000Z' },
+        { ...allocation, id: 'alloc_a', txHash: 'tx2', amount: '700000000', timestamp: '2026-02-08T00:00:00.000Z' }
+      ],
+      proofs: []
+    }));
+
+    const tracker = new FundTracker(dataPath, false, undefined, undefined, true);
+    rmSync(dir, { recursive: true, force: true });
+
+    // Earlier allocation is funded first; the later one only gets what's left
+    const trace = tracker.traceDonation('don_a');
+    expect(trace.shares).toEqual([
+      { allocationId: 'alloc_a', amount: sol('0.7') },
+      { allocationId: 'alloc_b', amount: sol('0.3') }
+    ]);
+    expect(trace.remaining).toBe(0n);
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+  });
+});
+
+describe('FundTracker proposals', () => {
+  let tracker: FundTracker;
+  const policy = { approvers: ['alice', 'bob', 'carol'], required: 2 };
+
+  beforeEach(() => {
+    tracker = new FundTracker('./data/unused.json', false);
+    tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+  });
+
+  const propose = (amount = '0.4', ttlMs?: number) => tracker.proposeAllocation({
+    to: 'recipient',
+    recipientName: 'Recipient',
+    amount: sol(amount),
+    currency: 'SOL',
+    purpose: 'Purpose',
+    proposedBy: 'agent'
+  }, { ...policy, ttlMs });
+
+  const code = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProposalError);
+      return (error as ProposalError).code;
+    }
+    throw new Error('Expected a ProposalError');
+  };
+
+  it('should need M distinct approvers before executing', () => {
+    const proposal = propose();
+    expect(proposal.status).toBe('draft');
+    expect(code(() => tracker.assertExecutable(proposal.id))).toBe('not_approved');
+
+    tracker.approveProposal(proposal.id, 'alice');
+    expect(code(() => tracker.approveProposal(proposal.id, 'alice'))).toBe('already_approved');
+    expect(code(() => tracker.approveProposal(proposal.id, 'mallory'))).toBe('not_an_approver');
+    expect(tracker.getProposal(proposal.id)!.status).toBe('draft');
+
+    tracker.approveProposal(proposal.id, 'bob', 'Looks good');
+    expect(tracker.getProposal(proposal.id)!.status).toBe('approved');
+
+    const allocation = tracker.recordProposalExecution(proposal.id, 'tx_out');
+    expect(allocation.proposalId).toBe(proposal.id);
+    expect(allocation.funding).toEqual(proposal.funding);
+    expect(tracker.getProposal(proposal.id)).toMatchObject({ status: 'executed', allocationId: allocation.id });
+    expect(code(() => tracker.recordProposalExecution(proposal.id, 'tx_again'))).toBe('not_approved');
+  });
+
+  it('should record every approval in the audit log', () => {
+    const proposal = propose();
+    tracker.approveProposal(proposal.id, 'alice');
+    tracker.rejectProposal(proposal.id, 'carol', 'Recipient not vetted');
+
+    const types = tracker.getAuditLog().filter(e => e.recordId === proposal.id).map(e => e.type);
+    expect(types).toEqual(['proposal', 'proposal_approved', 'proposal_rejected']);
+    expect(code(() => tracker.approveProposal(proposal.id, 'bob'))).toBe('not_pending');
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+  });
+
+  it('should expire proposals past their deadline', () => {
+    const proposal = propose('0.4', 1000);
+    expect(tracker.expireProposals(new Date(Date.now() + 2000))).toEqual([proposal]);
+    expect(proposal.status).toBe('expired');
+    expect(code(() => tracker.approveProposal(proposal.id, 'alice'))).toBe('expired');
+  });
+
+  it('should reject invalid policies and uncovered proposals', () => {
+    expect(code(() => tracker.proposeAllocation({
+      to: 'r', recipientName: 'R', amount: sol('0.1'), currency: 'SOL', purpose: 'P', proposedBy: 'agent'
+    }, { approvers: ['alice'], required: 2 }))).toBe('invalid_policy');
+    expect(() => propose('2')).toThrow(expect.objectContaining({ code: 'insufficient_funds' }));
+  });
+
+  it('should persist proposals across restarts', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    const dataPath = join(dir, 'fund-data.json');
+    const saved = new FundTracker(dataPath);
+    saved.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+    const proposal = saved.proposeAllocation({
+      to: 'r', recipientName: 'R', amount: sol('0.1'), currency: 'SOL', purpose: 'P', proposedBy: 'agent'
+    }, policy);
+    saved.approveProposal(proposal.id, 'alice');
+
+    const reloaded = new FundTracker(dataPath);
+    rmSync(dir, { recursive: true, force: true });
+
+    const restored = reloaded.getProposal(proposal.id)!;
+    expect(restored.amount).toBe(sol('0.1'));
+    expect(restored.approvals[0].timestamp).toBeInstanceOf(Date);
+    expect(reloaded.getProposals('draft')).toHaveLength(1);
+    expect(reloaded.verifyIntegrity().valid).toBe(true);
+  });
+});
+
+describe('FundTracker proof review', () => {
+  let tracker: FundTracker;
+  let proofId: string;
+  let allocationId: string;
+
+  const code = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      return (error as ProofError).code;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    tracker = new FundTracker(join(tmpdir(), 'eve-fund-review-unused.json'), false);
+    const donation = tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+    const allocation = tracker.recordAllocation({
+      txHash: 'tx2', to: recipientAddress, recipientName: 'R', amount: sol('0.5'), currency: 'SOL', purpose: 'P', timestamp: new Date(), donationIds: [donation.id]
+    });
+    allocationId = allocation.id;
+    proofId = tracker.submitProof(signedProof(allocationId, 'Built it')).id;
+  });
+
+  it('should walk a proof through review with each step attributed', () => {
+    tracker.startProofReview(proofId, 'alice');
+    tracker.requestMoreProofInfo(proofId, 'alice', 'Add photos of the finished roof');
+    const roofHash = 'a'.repeat(64);
+    const { signedAt, signature: resigned } = signedProof(allocationId, 'Built it', [roofHash]);
+    tracker.resubmitProof(proofId, { evidenceLinks: ['https://example.com/roof.jpg'], evidenceHashes: [roofHash], signedAt }, resigned, 'Photos added');
+    tracker.startProofReview(proofId, 'bob');
+    const proof = tracker.verifyProof(proofId, 'bob', 'Roof matches the plans');
+
+    expect(proof).toMatchObject({ status: 'verified', verified: true, evidenceLinks: ['https://example.com/roof.jpg'], signature: resigned });
+    expect(proof.reviews.map(r => [r.from, r.to, r.by])).toEqual([
+      ['submitted', 'under_review', 'alice'],
+      ['under_review', 'needs_more_info', 'alice'],
+      ['needs_more_info', 'submitted', recipientAddress],
+      ['submitted', 'under_review', 'bob'],
+      ['under_review', 'verified', 'bob']
+    ]);
+    expect(tracker.getAuditLog().filter(e => e.type === 'proof_reviewed')).toHaveLength(5);
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+  });
+
+  it('should refuse steps the workflow does not allow', () => {
+    expect(code(() => tracker.verifyProof(proofId, 'alice'))).toBe('invalid_transition');
+    expect(code(() => tracker.startProofReview(proofId, recipientAddress))).toBe('self_review');
+    const resigned = signedProof(allocationId, 'Built it');
+    expect(code(() => tracker.resubmitProof(proofId, { signedAt: resigned.signedAt }, resigned.signature))).toBe('invalid_transition');
+    expect(code(() => tracker.startProofReview('proof_missing', 'alice'))).toBe('unknown_proof');
+
+    tracker.startProofReview(proofId, 'alice');
+    expect(code(() => tracker.rejectProof(proofId, 'alice', ' '))).toBe('note_required');
+    tracker.rejectProof(proofId, 'alice', 'Evidence is for another project');
+    expect(code(() => tracker.startProofReview(proofId, 'bob'))).toBe('invalid_transition');
+    expect(tracker.getProofs()[0]).toMatchObject({ status: 'rejected', verified: false });
+  });
+
+  it('should give proofs saved before the workflow a status', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    const dataPath = join(dir, 'fund-data.json');
+    const legacy = { allocationId: 'alloc_a', recipientAddress: 'r', description: 'D', evidenceLinks: [], timestamp: '2026-02-08T00:00:00.000Z' };
+    writeFileSync(dataPath, JSON.stringify({
+      version: 2,
+      donations: [],
+      allocations: [],
+      proofs: [{ ...legacy, id: 'proof_a', verified: true }, { ...legacy, id: 'proof_b', verified: false }]
+    }));
+
+    const reloaded = new FundTracker(dataPath, false, undefined, undefined, true);
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(reloaded.getProofs().map(p => [p.status, p.reviews, p.evidenceHashes])).toEqual([['verified', [], []], ['submitted', [], []]]);
+    expect(reloaded.verifyIntegrity().valid).toBe(true);
+  });
+
+  it('should only accept proofs signed by the allocation recipient over what they claim', () => {
+    const impostor = Keypair.generate();
+    const proof = signedProof(allocationId, 'Built a school');
+
+    const forged = {
+      ...proof,
+      signature: signProof({ allocationId, description: 'Built a school', evidenceHashes: [], signedAt: proof.signedAt }, impostor.secretKey)
+    };
+    expect(code(() => tracker.submitProof(forged))).toBe('invalid_signature');
+    expect(code(() => tracker.submitProof({ ...proof, description: 'Built two schools' }))).toBe('invalid_signature');
+    expect(code(() => tracker.submitProof({ ...proof, evidenceHashes: ['b'.repeat(64)] }))).toBe('invalid_signature');
+    expect(code(() => tracker.submitProof({ ...proof, signature: undefined }))).toBe('invalid_signature');
+    expect(code(() => tracker.submitProof({ ...proof, signedAt: '2020-01-01T00:00:00.000Z' }))).toBe('invalid_signature');
+    expect(code(() => tracker.submitProof({ ...proof, signedAt: undefined }))).toBe('invalid_signature');
+
+    const fromImpostor = { ...forged, recipientAddress: impostor.publicKey.toBase58() };
+    expect(code(() => tracker.submitProof(fromImpostor))).toBe('wrong_recipient');
+    expect(code(() => tracker.submitProof({ ...proof, allocationId: 'alloc_missing' }))).toBe('unknown_allocation');
+    expect(code(() => tracker.submitProof(signedProof(allocationId, 'Built a school', ['NOT-HEX'])))).toBe('invalid_evidence_hash');
+
+    // Stored in canonical base64, whatever spelling was sent
+    expect(tracker.submitProof({ ...proof, signature: proof.signature.replace(/=+$/, '') }).signature).toBe(proof.signature);
+  });
+
+  it('should require a fresh signature when a proof is resubmitted', () => {
+    tracker.startProofReview(proofId, 'alice');
+    tracker.requestMoreProofInfo(proofId, 'alice', 'What did you build?');
+    const { signature: oldSignature, signedAt: oldSignedAt } = tracker.getProofs()[0];
+
+    expect(code(() => tracker.resubmitProof(proofId, { description: 'Built a roof', signedAt: oldSignedAt! }, oldSignature!))).toBe('invalid_signature');
+    expect(tracker.getProofs()[0]).toMatchObject({ status: 'needs_more_info', description: 'Built it' });
+
+    const { signedAt, signature } = signedProof(allocationId, 'Built a roof');
+    tracker.resubmitProof(proofId, { description: 'Built a roof', signedAt }, signature);
+    expect(tracker.getProofs()[0]).toMatchObject({ status: 'submitted', description: 'Built a roof', signedAt });
+  });
+
+  it('should refuse a proof signature that was already used, even after it was replaced', () => {
+    const original = tracker.getProofs()[0];
+    const replay = { ...signedProof(allocationId, 'Built it'), signedAt: original.signedAt!, signature: original.signature! };
+    expect(code(() => tracker.submitProof(replay))).toBe('replayed_signature');
+    // The same bytes spelled differently: base64 without its padding
+    expect(replay.signature).toMatch(/==$/);
+    expect(code(() => tracker.submitProof({ ...replay, signature: replay.signature.replace(/=+$/, '') }))).toBe('replayed_signature');
+
+    tracker.startProofReview(proofId, 'alice');
+    tracker.requestMoreProofInfo(proofId, 'alice', 'What did you build?');
+    const { signedAt, signature } = signedProof(allocationId, 'Built a roof');
+    tracker.resubmitProof(proofId, { description: 'Built a roof', signedAt }, signature);
+
+    // The first signature is no longer on any proof, but the audit log remembers it
+    expect(code(() => tracker.submitProof(replay))).toBe('replayed_signature');
+    expect(code(() => tracker.submitProof({ ...replay, signature: replay.signature.replace(/=+$/, '') }))).toBe('replayed_signature');
+    expect(tracker.getProofs()).toHaveLength(1);
+  });
+});
+
+describe('FundTracker grants', () => {
+  let tracker: FundTracker;
+
+  const code = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      return (error as GrantError).code;
+    }
+    return undefined;
+  };
+
+  // Send the next tranche the way TransparentFund does: intent, then allocation
+  const release = (grantId: string, txHash: string) => {
+    const { milestone, plan } = tracker.planTranche(grantId);
+    const grant = tracker.getGrant(grantId)!;
+    const intent = tracker.beginAllocation({
+      to: grant.to, recipientName: grant.recipientName, amount: grant.milestones[milestone].amount,
+      currency: 'SOL', purpose: grant.purpose, grantId, milestone
+    }, plan);
+    return tracker.finalizeIntent(intent.id, txHash);
+  };
+
+  const prove = (allocationId: string) => {
+    const proof = tracker.submitProof(signedProof(allocationId, 'Milestone done'));
+    tracker.startProofReview(proof.id, 'auditor');
+    tracker.verifyProof(proof.id, 'auditor');
+  };
+
+  beforeEach(() => {
+    tracker = new FundTracker(join(tmpdir(), 'eve-fund-grants-unused.json'), false);
+    tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+    tracker.recordDonation({ txHash: 'tx2', from: 'donor', amount: sol('2'), currency: 'SOL', timestamp: new Date() });
+  });
+
+  it('should hold back the whole commitment and release it tranche by tranche', () => {
+    const grant = tracker.createGrant({
+      to: recipientAddress, recipientName: 'School', currency: 'SOL', purpose: 'New roof',
+      milestones: [{ description: 'Materials', amount: sol('0.8') }, { description: 'Labour', amount: sol('1.2') }]
+    });
+    expect(grant).toMatchObject({ amount: sol('2'), status: 'active' });
+    expect(tracker.getSummary()).toMatchObject({ totalRemaining: sol('3'), totalCommitted: sol('2') });
+    expect(() => tracker.planFunding(sol('1.5'), 'SOL')).toThrow('Available donations cover 1 SOL');
+
+    const first = release(grant.id, 'tx_tranche_1');
+    expect(first).toMatchObject({ amount: sol('0.8'), grantId: grant.id, milestone: 0 });
+    expect(tracker.getSummary()).toMatchObject({ totalAllocated: sol('0.8'), totalCommitted: sol('1.2') });
+    expect(tracker.getDonorHistory('donor').totals.SOL).toMatchObject({ allocated: sol('0.8'), committed: sol('1.2'), remaining: sol('1') });
+
+    expect(code(() => tracker.planTranche(grant.id))).toBe('milestone_not_verified');
+    prove(first.id);
+    const second = release(grant.id, 'tx_tranche_2');
+
+    expect(second.funding.reduce((sum, s) => sum + s.amount, 0n)).toBe(sol('1.2'));
+    expect(tracker.getGrant(grant.id)).toMatchObject({ status: 'completed', milestones: [{ allocationId: first.id }, { allocationId: second.id }] });
+    expect(tracker.getSummary()).toMatchObject({ totalRemaining: sol('1'), totalCommitted: 0n });
+    expect(code(() => tracker.planTranche(grant.id))).toBe('not_active');
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+  });
+
+  it('should refuse grants the pool can\'t cover and return a cancelled grant\'s commitment', () => {
+    expect(code(() => tracker.createGrant({ to: recipientAddress, recipientName: 'R', currency: 'SOL', purpose: 'P', milestones: [] })))
+      .toBe('invalid_grant');
+    expect(() => tracker.createGrant({
+      to: recipientAddress, recipientName: 'R', currency: 'SOL', purpose: 'P', milestones: [{ description: 'All', amount: sol('4') }]
+    })).toThrow(FundingError);
+
+    const grant = tracker.createGrant({
+      to: recipientAddress, recipientName: 'R', currency: 'SOL', purpose: 'P', milestones: [{ description: 'All', amount: sol('2.5') }]
+    });
+    expect(() => tracker.createGrant({
+      to: recipientAddress, recipientName: 'R', currency: 'SOL', purpose: 'P', milestones: [{ description: 'More', amount: sol('1') }]
+    })).toThrow(FundingError);
+
+    tracker.cancelGrant(grant.id, 'Recipient withdrew');
+    expect(tracker.getSummary().totalCommitted).toBe(0n);
+    expect(tracker.planFunding(sol('3'), 'SOL').funding).toHaveLength(2);
+    expect(code(() => tracker.cancelGrant(grant.id, 'again'))).toBe('not_active');
+  });
+
+  it('should keep commitments across a reload', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    const dataPath = join(dir, 'fund-data.json');
+    const saved = new FundTracker(dataPath);
+    saved.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+    const grant = saved.createGrant({
+      to: recipientAddress, recipientName: 'R', currency: 'SOL', purpose: 'P', milestones: [{ description: 'All', amount: sol('0.75') }]
+    });
+
+    const reloaded = new FundTracker(dataPath);
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(reloaded.getGrant(grant.id)).toEqual(grant);
+    expect(reloaded.getSummary().totalCommitted).toBe(sol('0.75'));
+    expect(reloaded.verifyIntegrity().valid).toBe(true);
+  });
+});
+
+describe('FundTracker returns and refunds', () => {
+  let tracker: FundTracker;
+
+  const code = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      return (error as RefundError).code;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    tracker = new FundTracker(join(tmpdir(), 'eve-fund-refunds-unused.json'), false);
+    tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+    tracker.recordDonation({ txHash: 'tx2', from: 'donor', amount: sol('2'), currency: 'SOL', timestamp: new Date() });
+  });
+
+  it('should give a return back to the allocation\'s donations pro rata', () => {
+    const [first, second] = tracker.getDonations();
+    const allocation = tracker.recordAllocation({
+      txHash: 'tx_out', to: recipientAddress, recipientName: 'R', amount: sol('3'), currency: 'SOL', purpose: 'P', timestamp: new Date()
+    });
+
+    const refund = tracker.recordRefund({
+      kind: 'recipient_return', txHash: 'tx_back', from: recipientAddress, to: 'fund', amount: sol('0.6'),
+      currency: 'SOL', allocationId: allocation.id, reason: 'Under budget', timestamp: new Date()
+    });
+    expect(refund.funding).toEqual([{ donationId: first.id, amount: sol('0.2') }, { donationId: second.id, amount: sol('0.4') }]);
+    expect(tracker.getDonationBalance(second.id)).toBe(sol('0.4'));
+    expect(tracker.getSummary()).toMatchObject({ totalAllocated: sol('3'), totalReturned: sol('0.6'), totalRemaining: sol('0.6') });
+
+    expect(code(() => tracker.planRefund({
+      kind: 'project_refund', from: recipientAddress, to: 'fund', amount: sol('2.5'), currency: 'SOL', allocationId: allocation.id, reason: 'Cancelled'
+    }))).toBe('exceeds_allocation');
+    expect(code(() => tracker.planRefund({
+      kind: 'recipient_return', from: 'someone_else', to: 'fund', amount: sol('0.1'), currency: 'SOL', allocationId: allocation.id, reason: 'Not theirs'
+    }))).toBe('wrong_counterparty');
+    expect(tracker.getAuditTrail().filter(e => e.type === 'refund')).toHaveLength(1);
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+  });
+
+  it('should only refund a donor what is left of their donation', () => {
+    const [first] = tracker.getDonations();
+    tracker.recordAllocation({
+      txHash: 'tx_out', to: recipientAddress, recipientName: 'R', amount: sol('0.75'), currency: 'SOL', purpose: 'P',
+      timestamp: new Date(), donationIds: [first.id]
+    });
+    const donorRefund = { kind: 'donor_refund' as const, from: 'fund', to: 'donor', currency: 'SOL', donationId: first.id, reason: 'Asked for it back' };
+
+    expect(code(() => tracker.planRefund({ ...donorRefund, amount: sol('0.5') }))).toBe('exceeds_balance');
+    expect(code(() => tracker.planRefund({ ...donorRefund, to: 'someone_else', amount: sol('0.25') }))).toBe('wrong_counterparty');
+    expect(code(() => tracker.planRefund({ ...donorRefund, amount: 0n }))).toBe('invalid_amount');
+
+    const refund = tracker.recordRefund({ ...donorRefund, txHash: 'tx_refund', amount: sol('0.25'), timestamp: new Date() });
+    expect(tracker.getDonationBalance(first.id)).toBe(0n);
+    expect(tracker.getSummary()).toMatchObject({ totalRefunded: sol('0.25'), totalRemaining: sol('2') });
+    expect(tracker.traceDonation(first.id).refunds).toEqual([{ refund, amount: sol('0.25') }]);
+    expect(tracker.getDonorHistory('donor').totals.SOL).toEqual({
+      donated: sol('3'), allocated: sol('0.75'), committed: 0n, pending: 0n, refunded: sol('0.25'), remaining: sol('2')
+    });
+    expect(() => tracker.recordRefund({ ...donorRefund, txHash: 'tx_refund', amount: sol('0.25'), timestamp: new Date() }))
+      .toThrow(DuplicateTransactionError);
+  });
+
+  it('should reserve a donor refund while its transfer is in flight', () => {
+    const [first] = tracker.getDonations();
+    const details = { from: 'fund', to: 'donor', amount: sol('0.75'), currency: 'SOL', donationId: first.id, reason: 'Asked for it back' };
+
+    const intent = tracker.beginRefund(details);
+    expect(tracker.getDonationBalance(first.id)).toBe(sol('0.25'));
+    expect(tracker.getDonorHistory('donor').totals.SOL).toMatchObject({ allocated: 0n, pending: sol('0.75'), refunded: 0n });
+    expect(code(() => tracker.beginRefund(details))).toBe('exceeds_balance');
+    expect(() => tracker.finalizeIntent(intent.id, 'tx_refund')).toThrow('use finalizeRefundIntent()');
+
+    const refund = tracker.finalizeRefundIntent(intent.id, 'tx_refund');
+    expect(refund).toMatchObject({ kind: 'donor_refund', intentId: intent.id, amount: sol('0.75') });
+    expect(tracker.getIntent(intent.id)).toMatchObject({ status: 'finalized', refundId: refund.id });
+    expect(tracker.getDonationBalance(first.id)).toBe(sol('0.25'));
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+  });
+
+  it('should keep refunds across a reload', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    const dataPath = join(dir, 'fund-data.json');
+    const saved = new FundTracker(dataPath);
+    const donation = saved.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+    const refund = saved.recordRefund({
+      kind: 'donor_refund', txHash: 'tx_refund', from: 'fund', to: 'donor', amount: sol('1'), currency: 'SOL',
+      donationId: donation.id, reason: 'Duplicate gift', timestamp: new Date()
+    });
+
+    const reloaded = new FundTracker(dataPath);
+    rmSync(dir, { recursive: true, force: true });
+
+    expect(reloaded.getRefunds()).toEqual([refund]);
+    expect(reloaded.hasTransaction('tx_refund')).toBe(true);
+    expect(reloaded.getSummary().totalRemaining).toBe(0n);
+    expect(reloaded.verifyIntegrity().valid).toBe(true);
+  });
+});
+
+describe('FundTracker export', () => {
+  it('should export every record kind with base-unit amounts', () => {
+    const tracker = new FundTracker(join(tmpdir(), 'eve-fund-export-unused.json'), false);
+    const donation = tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('3'), currency: 'SOL', timestamp: new Date() });
+    const proposal = tracker.proposeAllocation({
+      to: 'recipient', recipientName: 'Recipient', amount: sol('0.4'), currency: 'SOL', purpose: 'Purpose', proposedBy: 'agent'
+    }, { approvers: ['alice'], required: 1 });
+    const grant = tracker.createGrant({
+      to: recipientAddress, recipientName: 'School', currency: 'SOL', purpose: 'New roof',
+      milestones: [{ description: 'Materials', amount: sol('1') }]
+    });
+    const { plan } = tracker.planTranche(grant.id);
+    const intent = tracker.beginAllocation({
+      to: grant.to, recipientName: grant.recipientName, amount: sol('1'), currency: 'SOL', purpose: grant.purpose, grantId: grant.id, milestone: 0
+    }, plan);
+    const allocation = tracker.finalizeIntent(intent.id, 'tx_tranche');
+    const proof = tracker.submitProof(signedProof(allocation.id, 'Materials bought'));
+    const refund = tracker.recordRefund({
+      kind: 'donor_refund', txHash: 'tx_refund', from: 'fund', to: 'donor', amount: sol('0.5'), currency: 'SOL',
+      donationId: donation.id, reason: 'Asked back', timestamp: new Date()
+    });
+    const anchor = tracker.recordAnchor({ ...tracker.prepareAnchor()!, txHash: 'memo_tx', network: 'devnet', timestamp: new Date() });
+
+    const exported = JSON.parse(tracker.exportData());
+    const ids = (records: Array<{ id: string }>) => records.map(record => record.id);
+    expect(ids(exported.donations)).toEqual([donation.id]);
+    expect(ids(exported.allocations)).toEqual([allocation.id]);
+    expect(ids(exported.proofs)).toEqual([proof.id]);
+    expect(ids(exported.proposals)).toEqual([proposal.id]);
+    expect(ids(exported.grants)).toEqual([grant.id]);
+    expect(exported.intents).toMatchObject([{ id: intent.id, status: 'finalized', allocationId: allocation.id }]);
+    expect(ids(exported.refunds)).toEqual([refund.id]);
+    expect(exported.anchors).toMatchObject([{ id: anchor.id, root: anchor.root, txHash: 'memo_tx' }]);
+    expect(exported.grants[0].amount).toBe('1000000000');
+  });
+});
@@ -12,13 +12,88 @@ import {
   Allocation, 
   ProofOfImpact, 
   FundSummary, 
-  AuditEntry 
+  AuditEntry,
+  Currency,
+  AuditLogEntry,
+  IntegrityReport,
+  AuditAnchor,
+  InclusionProof,
+  DuplicateTransaction,
+  FundingShare,
+  FundingPlan,
+  RestrictedBalance,
+  FiatSummary,
+  FiatValuation,
+  AllocationProposal,
+  ApprovalPolicy,
+  ProposalStatus,
+  AllocationIntent,
+  Grant,
+  GrantMilestone,
+  GrantStatus,
+  Refund,
+  DonorHistory,
+  ProofStatus,
+  Network
 } from './types';
+import { DuplicateTransactionError, FundingError, ProposalError, ProofError, GrantError, RefundError, NetworkError } from './errors';
+import { AuditLog, canonicalJson } from './audit-log';
+import { merkleRoot, merkleProof } from './merkle';
+import { MatchingStrategy, DonationBalance, fifo, manual, proRata } from './matching';
+import { parseLegacyAmount, jsonReplacer } from './money';
+import { TokenRegistry } from './tokens';
+import { NETWORK_DEFAULTS } from './network';
+import { normalizeCategory, parseRestriction } from './restrictions';
+import { valueInUsd } from './pricing';
+import { ProofPayload, isEvidenceHash, verifyProofSignature } from './proof-signing';
+import { canonicalSignature } from './signing';
+
+// Version 2 stores amounts as base-unit strings; files without a version hold human-readable numbers.
+// Version 3 logs anchors in the audit log.
+const DATA_VERSION = 3;
+
+// Review steps allowed from each proof status; verified and rejected are final
+const PROOF_TRANSITIONS: Record<ProofStatus, ProofStatus[]> = {
+  submitted: ['under_review'],
+  under_review: ['verified', 'rejected', 'needs_more_info'],
+  needs_more_info: ['submitted', 'under_review'],
+  verified: [],
+  rejected: []
+};
+
+// An allocation as passed in by callers; funding is worked out by the tracker
+export type NewAllocation = Omit<Allocation, 'id' | 'funding' | 'donationIds' | 'matchingStrategy'> & {
+  donationIds?: string[]; // hand-picked donations, drawn on in order; omit to match automatically
+};
+
+// A proposal as passed in by callers; approval state is managed by the tracker
+export type NewProposal = Pick<
+  AllocationProposal,
+  'to' | 'recipientName' | 'amount' | 'currency' | 'purpose' | 'category' | 'proposedBy'
+> & {
+  donationIds?: string[];
+};
+
+// A grant as passed in by callers; the total is the sum of the milestones
+export type NewGrant = Pick<Grant, 'to' | 'recipientName' | 'currency' | 'purpose' | 'category'> & {
+  milestones: Array<Pick<GrantMilestone, 'description' | 'amount'>>;
+  donationIds?: string[];
+};
+
+// How long a proposal stays open when the policy doesn't say
+const DEFAULT_PROPOSAL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 
 interface PersistedData {
+  version?: number;
+  network?: Network; // files written before networks were tracked have none
   donations: Donation[];
   allocations: Allocation[];
   proofs: ProofOfImpact[];
+  proposals?: AllocationProposal[];
+  intents?: AllocationIntent[];
+  grants?: Grant[];
+  refunds?: Refund[];
+  anchors?: AuditAnchor[];
   savedAt: string;
 }
 
@@ -26,38 +101,221 @@ export class FundTracker {
   private donations: Map<string, Donation> = new Map();
   private allocations: Map<string, Allocation> = new Map();
   private proofs: Map<string, ProofOfImpact> = new Map();
+  private proposals: Map<string, AllocationProposal> = new Map();
+  private intents: Map<string, AllocationIntent> = new Map();
+  private grants: Map<string, Grant> = new Map();
+  private refunds: Map<string, Refund> = new Map();
+  private finalizingIntentId: string | null = null; // its reservation is being turned into an allocation
+  private releasingGrantId: string | null = null; // its commitment is being drawn on for a tranche
+  private anchors: AuditAnchor[] = [];
+  private txIndex: Map<string, string> = new Map(); // txHash -> donation/allocation id
+  private auditLog: AuditLog = new AuditLog();
   private dataPath: string;
+  private auditLogPath: string;
   private autoSave: boolean;
+  private network?: Network;
+  private tokens: TokenRegistry;
 
-  constructor(dataPath: string = './data/fund-data.json', autoSave: boolean = true) {
+  /**
+   * @param network - Tag the data file with this network and refuse to open one written for another
+   * @param tokens - Precision of each currency; defaults to the network's default tokens
+   * @param seedAuditLog - Start a new audit chain from a data file that has no log (a one-off migration)
+   */
+  constructor(
+    dataPath: string = './data/fund-data.json',
+    autoSave: boolean = true,
+    network?: Network,
+    tokens?: TokenRegistry,
+    seedAuditLog: boolean = false
+  ) {
     this.dataPath = dataPath;
+    this.network = network;
+    this.tokens = tokens ?? new TokenRegistry(NETWORK_DEFAULTS[network ?? 'devnet'].tokens);
+    this.auditLogPath = dataPath.replace(/\.json$/, '') + '.audit.jsonl';
     this.autoSave = autoSave;
-    this.load();
+    const hasData = existsSync(dataPath);
+    const migrated = this.load();
+    this.loadAuditLog(hasData, seedAuditLog);
+
+    if (migrated.length > 0) {
+      this.logMigration(migrated);
+      console.log(`Migrated ${migrated.length} record(s) in ${this.dataPath} to the current data format`);
+      this.maybeAutoSave();
+    }
+
+    const report = this.verifyIntegrity();
+    if (!report.valid) {
+      console.warn(`Audit log integrity check failed: ${report.reason}`);
+    }
   }
 
-  // Load data from disk
-  private load(): void {
-    if (!existsSync(this.dataPath)) return;
+  // Load data from disk, returning ids of records migrated from a legacy format
+  private load(): string[] {
+    const migrated: string[] = [];
+    if (!existsSync(this.dataPath)) return migrated;
     
     try {
       const raw = readFileSync(this.dataPath, 'utf-8');
       const data: PersistedData = JSON.parse(raw);
+      const legacy = data.version === undefined;
+      if (this.network && data.network && data.network !== this.network) {
+        throw new NetworkError(
+          'network_mismatch',
+          `${this.dataPath} holds ${data.network} records; refusing to open it for ${this.network}`
+        );
+      }
+
+      // Amounts are bigint in memory: base-unit strings on disk, or human-readable numbers in legacy files
+      const reviveAmount = (record: Donation | Allocation) => {
+        const stored = record.amount as unknown;
+        if (legacy && typeof stored === 'number') {
+          record.amount = parseLegacyAmount(stored, record.currency, this.tokens.require(record.currency).decimals);
+          migrated.push(record.id);
+        } else {
+          record.amount = BigInt(stored as string);
+        }
+        if (record.valuation) {
+          record.valuation.usd = BigInt(record.valuation.usd as unknown as string);
+          record.valuation.pricedAt = new Date(record.valuation.pricedAt);
+        }
+      };
       
       // Convert dates back from strings
       for (const d of data.donations || []) {
         d.timestamp = new Date(d.timestamp);
+        reviveAmount(d);
         this.donations.set(d.id, d);
       }
-      for (const a of data.allocations || []) {
+      const allocations = (data.allocations || [])
+        .sort((x, y) => new Date(x.timestamp).getTime() - new Date(y.timestamp).getTime());
+      for (const a of allocations) {
         a.timestamp = new Date(a.timestamp);
+        reviveAmount(a);
+        if (a.funding) {
+          for (const share of a.funding) share.amount = BigInt(share.amount as unknown as string);
+        } else {
+          // Written before funding was tracked: split across donationIds as far as they stretch
+          a.funding = manual.match(this.getDonationBalances(a.donationIds), a.amount);
+          if (!migrated.includes(a.id)) migrated.push(a.id);
+        }
+        if (!a.matchingStrategy) {
+          a.matchingStrategy = 'manual';
+          if (!migrated.includes(a.id)) migrated.push(a.id);
+        }
         this.allocations.set(a.id, a);
       }
       for (const p of data.proofs || []) {
         p.timestamp = new Date(p.timestamp);
+        if (!p.status) {
+          // Written before the review workflow: only the verified flag was kept
+          p.status = p.verified ? 'verified' : 'submitted';
+          p.reviews = [];
+          migrated.push(p.id);
+        }
+        if (!p.evidenceHashes) {
+          p.evidenceHashes = [];
+          if (!migrated.includes(p.id)) migrated.push(p.id);
+        }
+        for (const review of p.reviews) review.timestamp = new Date(review.timestamp);
         this.proofs.set(p.id, p);
       }
+      for (const p of data.proposals || []) {
+        p.amount = BigInt(p.amount as unknown as string);
+        for (const share of p.funding) share.amount = BigInt(share.amount as unknown as string);
+        p.createdAt = new Date(p.createdAt);
+        p.expiresAt = new Date(p.expiresAt);
+        for (const approval of p.approvals) approval.timestamp = new Date(approval.timestamp);
+        if (p.rejection) p.rejection.timestamp = new Date(p.rejection.timestamp);
+        this.proposals.set(p.id, p);
+      }
+      for (const intent of data.intents || []) {
+        intent.amount = BigInt(intent.amount as unknown as string);
+        for (const share of intent.funding) share.amount = BigInt(share.amount as unknown as string);
+        intent.createdAt = new Date(intent.createdAt);
+        if (intent.resolvedAt) intent.resolvedAt = new Date(intent.resolvedAt);
+        this.intents.set(intent.id, intent);
+      }
+      for (const grant of data.grants || []) {
+        grant.amount = BigInt(grant.amount as unknown as string);
+        for (const share of grant.funding) share.amount = BigInt(share.amount as unknown as string);
+        for (const milestone of grant.milestones) {
+          milestone.amount = BigInt(milestone.amount as unknown as string);
+          if (milestone.releasedAt) milestone.releasedAt = new Date(milestone.releasedAt);
+        }
+        grant.createdAt = new Date(grant.createdAt);
+        if (grant.cancellation) grant.cancellation.timestamp = new Date(grant.cancellation.timestamp);
+        this.grants.set(grant.id, grant);
+      }
+      for (const refund of data.refunds || []) {
+        refund.amount = BigInt(refund.amount as unknown as string);
+        for (const share of refund.funding) share.amount = BigInt(share.amount as unknown as string);
+        refund.timestamp = new Date(refund.timestamp);
+        this.refunds.set(refund.id, refund);
+      }
+      for (const anchor of data.anchors || []) {
+        anchor.timestamp = new Date(anchor.timestamp);
+        this.anchors.push(anchor);
+        // Anchored before anchors were logged
+        if ((data.version ?? 0) < 3) migrated.push(anchor.id);
+      }
+
+      // Index transactions, keeping the first record for any duplicated hash
+      for (const record of [...this.donations.values(), ...this.allocations.values(), ...this.refunds.values()]) {
+        if (!this.txIndex.has(record.txHash)) this.txIndex.set(record.txHash, record.id);
+      }
+      const duplicates = this.findDuplicateTransactions();
+      if (duplicates.length > 0) {
+        console.warn(`${this.dataPath} has ${duplicates.length} transaction(s) recorded more than once; see findDuplicateTransactions()`);
+      }
     } catch (e) {
-      console.error(`Failed to load fund data from ${this.dataPath}:`, e);
+      // A half-loaded ledger must never reach save(), which would overwrite the file with it
+      if (e instanceof NetworkError) throw e;
+      throw new Error(`Failed to load fund data from ${this.dataPath}: ${e instanceof Error ? e.message : e}`, { cause: e });
+    }
+    return migrated;
+  }
+
+  /**
+   * Load the hash chain. A missing or unreadable log next to existing data is
+   * refused: rebuilding it would bless whatever the data file now says, and an
+   * empty log would be written over the real one on the next save.
+   */
+  private loadAuditLog(hasData: boolean, seed: boolean): void {
+    if (existsSync(this.auditLogPath)) {
+      try {
+        const lines = readFileSync(this.auditLogPath, 'utf-8').split('\n').filter(l => l.trim());
+        this.auditLog = new AuditLog(lines.map(l => JSON.parse(l) as AuditLogEntry));
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        throw new Error(`Failed to load audit log from ${this.auditLogPath}: ${msg}`, { cause: e });
+      }
+      return;
+    }
+    if (!hasData) return;
+    if (!seed) {
+      throw new Error(
+        `Audit log ${this.auditLogPath} is missing for existing fund data ${this.dataPath}; ` +
+        'restore it, or pass seedAuditLog to start a new chain from the data file as it is'
+      );
+    }
+
+    // Data written before the audit log existed: start the chain from what's on disk
+    const existing = this.getAuditTrail();
+    for (const entry of existing) {
+      this.auditLog.append(entry.type, entry.data.id, entry.data);
+    }
+  }
+
+  // Log the new snapshot of each migrated record so the chain still matches the ledger
+  private logMigration(recordIds: string[]): void {
+    const latest = this.auditLog.latestByRecord();
+    for (const id of recordIds) {
+      const record = this.donations.get(id) || this.allocations.get(id) || this.proofs.get(id)
+        || this.anchors.find(a => a.id === id);
+      const entry = latest.get(id);
+      if (record && (!entry || canonicalJson(record) !== canonicalJson(entry.data))) {
+        this.auditLog.append('migration', id, record);
+      }
     }
   }
 
@@ -70,13 +328,24 @@ export class FundTracker {
       }
       
       const data: PersistedData = {
+        version: DATA_VERSION,
+        ...(this.network ? { network: this.network } : {}),
         donations: Array.from(this.donations.values()),
         allocations: Array.from(this.allocations.values()),
         proofs: Array.from(this.proofs.values()),
+        proposals: Array.from(this.proposals.values()),
+        intents: Array.from(this.intents.values()),
+        grants: Array.from(this.grants.values()),
+        refunds: Array.from(this.refunds.values()),
+        anchors: this.anchors,
         savedAt: new Date().toISOString()
       };
       
-      writeFileSync(this.dataPath, JSON.stringify(data, null, 2));
+      writeFileSync(this.dataPath, JSON.stringify(data, jsonReplacer, 2));
+      writeFileSync(
+        this.auditLogPath,
+        this.auditLog.getEntries().map(e => JSON.stringify(e) + '\n').join('')
+      );
     } catch (e) {
       console.error(`Failed to save fund data to ${this.dataPath}:`, e);
     }
@@ -86,48 +355,941 @@ export class FundTracker {
     if (this.autoSave) this.save();
   }
 
-  // Record a new donation
+  // Throw if a transaction signature is already on a donation or allocation
+  private assertNewTransaction(txHash: string): void {
+    const existingId = this.txIndex.get(txHash);
+    if (existingId) {
+      throw new DuplicateTransactionError(txHash, existingId);
+    }
+  }
+
+  // Record a new donation. A restriction not given explicitly is read from the memo ("restrict:<category>").
   recordDonation(donation: Omit<Donation, 'id'>): Donation {
+    this.assertNewTransaction(donation.txHash);
     const id = `don_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
     const fullDonation: Donation = { ...donation, id };
+    const restriction = donation.restriction ? normalizeCategory(donation.restriction) : parseRestriction(donation.memo);
+    if (restriction) {
+      fullDonation.restriction = restriction;
+    } else {
+      delete fullDonation.restriction;
+    }
     this.donations.set(id, fullDonation);
+    this.txIndex.set(fullDonation.txHash, id);
+    this.auditLog.append('donation', id, fullDonation);
     this.maybeAutoSave();
     return fullDonation;
   }
 
-  // Record an allocation to a recipient
-  recordAllocation(allocation: Omit<Allocation, 'id'>): Allocation {
+  /**
+   * Amount of a donation not yet spent by an allocation, reserved by a
+   * pending intent, committed to an active grant's unreleased tranches or
+   * refunded to the donor. Money returned from an allocation is spendable again.
+   */
+  getDonationBalance(donationId: string): bigint {
+    const donation = this.donations.get(donationId);
+    if (!donation) return 0n;
+
+    const pending = Array.from(this.intents.values()).filter(i => i.status === 'pending' && i.id !== this.finalizingIntentId);
+    let spent = 0n;
+    for (const { funding } of [...this.allocations.values(), ...pending]) {
+      for (const share of funding) {
+        if (share.donationId === donationId) spent += share.amount;
+      }
+    }
+    for (const grant of this.grants.values()) {
+      if (grant.id !== this.releasingGrantId) spent += this.getGrantCommitment(grant).get(donationId) ?? 0n;
+    }
+    for (const refund of this.refunds.values()) {
+      for (const share of refund.funding) {
+        if (share.donationId !== donationId) continue;
+        spent += refund.kind === 'donor_refund' ? share.amount : -share.amount;
+      }
+    }
+    return donation.amount - spent;
+  }
+
+  /**
+   * What an active grant still holds back per donation: its reserved funding
+   * less what its tranches have spent or are in the middle of sending
+   */
+  private getGrantCommitment(grant: Grant): Map<string, bigint> {
+    const held = new Map<string, bigint>();
+    if (grant.status !== 'active') return held;
+
+    for (const share of grant.funding) {
+      held.set(share.donationId, (held.get(share.donationId) ?? 0n) + share.amount);
+    }
+    const tranches = [
+      ...Array.from(this.allocations.values()).filter(a => a.grantId === grant.id),
+      ...this.getPendingIntents().filter(i => i.grantId === grant.id)
+    ];
+    for (const { funding } of tranches) {
+      for (const share of funding) {
+        held.set(share.donationId, (held.get(share.donationId) ?? 0n) - share.amount);
+      }
+    }
+    return held;
+  }
+
+  // Unspent balances of the given donations, in the order given
+  private getDonationBalances(donationIds: string[]): DonationBalance[] {
+    return donationIds
+      .map(id => this.donations.get(id))
+      .filter((d): d is Donation => d !== undefined)
+      .map(donation => ({ donation, available: this.getDonationBalance(donation.id) }));
+  }
+
+  // Whether a donation's restriction lets it fund an allocation in this category
+  private canFund(donation: Donation, category?: string): boolean {
+    return !donation.restriction || (category !== undefined && donation.restriction === normalizeCategory(category));
+  }
+
+  /**
+   * Every donation in a currency that still has unspent funds, oldest first.
+   * With a category, restricted donations are limited to those earmarked for it;
+   * without one only unrestricted donations are returned.
+   */
+  getUnspentDonations(currency: Currency, category?: string): DonationBalance[] {
+    return Array.from(this.donations.values())
+      .filter(d => d.currency === currency && this.canFund(d, category))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(donation => ({ donation, available: this.getDonationBalance(donation.id) }))
+      .filter(c => c.available > 0n);
+  }
+
+  // Throw unless every hand-picked donation exists, is in the allocation's currency and may fund its category
+  private assertFundingSources(donationIds: string[], currency: Currency, category?: string): void {
+    for (const donationId of donationIds) {
+      const donation = this.donations.get(donationId);
+      if (!donation) {
+        throw new FundingError('unknown_donation', `Donation ${donationId} does not exist`, donationId);
+      }
+      if (donation.currency !== currency) {
+        throw new FundingError(
+          'currency_mismatch',
+          `Donation ${donationId} is in ${donation.currency}, allocation is in ${currency}`,
+          donationId
+        );
+      }
+      if (!this.canFund(donation, category)) {
+        throw new FundingError(
+          'restriction_mismatch',
+          `Donation ${donationId} is restricted to ${donation.restriction}, ` +
+          (category ? `allocation is for ${normalizeCategory(category)}` : 'allocation has no category'),
+          donationId
+        );
+      }
+    }
+  }
+
+  /**
+   * Work out which donations pay for an allocation. Hand-picked donationIds are
+   * drawn on in order (or split by `strategy` if one is given); without them the
+   * strategy (FIFO by default) chooses from every unspent donation the
+   * allocation's category may draw on. Throws FundingError unless the result
+   * covers the whole amount.
+   */
+  planFunding(
+    amount: bigint,
+    currency: Currency,
+    options: { donationIds?: string[]; strategy?: MatchingStrategy; category?: string } = {}
+  ): FundingPlan {
+    if (amount <= 0n) {
+      throw new FundingError('invalid_amount', 'Allocation amount must be positive');
+    }
+
+    const { donationIds, category } = options;
+    let candidates: DonationBalance[];
+    let strategy: MatchingStrategy;
+
+    if (donationIds) {
+      this.assertFundingSources(donationIds, currency, category);
+      candidates = this.getDonationBalances(donationIds);
+      strategy = options.strategy || manual;
+    } else {
+      candidates = this.getUnspentDonations(currency, category);
+      strategy = options.strategy || fifo;
+    }
+
+    const plan = { funding: strategy.match(candidates, amount), matchingStrategy: strategy.name };
+    this.assertPlanCovers(plan, amount, currency, category);
+    return plan;
+  }
+
+  // Throw unless a plan draws exactly `amount` from donations that can still afford it
+  private assertPlanCovers(plan: FundingPlan, amount: bigint, currency: Currency, category?: string): void {
+    this.assertFundingSources(plan.funding.map(share => share.donationId), currency, category);
+
+    let covered = 0n;
+    for (const share of plan.funding) {
+      if (share.amount <= 0n || share.amount > this.getDonationBalance(share.donationId)) {
+        throw new FundingError(
+          'insufficient_funds',
+          `Donation ${share.donationId} has ${this.tokens.formatMoney({ amount: this.getDonationBalance(share.donationId), currency })} unspent, ` +
+          `plan draws ${this.tokens.formatMoney({ amount: share.amount, currency })}`,
+          share.donationId
+        );
+      }
+      covered += share.amount;
+    }
+
+    if (covered !== amount) {
+      throw new FundingError(
+        'insufficient_funds',
+        `Available donations cover ${this.tokens.formatMoney({ amount: covered, currency })} ` +
+        `(${plan.matchingStrategy}), allocation needs ${this.tokens.formatMoney({ amount, currency })}`
+      );
+    }
+  }
+
+  /**
+   * Record an allocation to a recipient. Pass the plan from planFunding() when
+   * it was worked out ahead of a transfer; otherwise one is made here.
+   */
+  recordAllocation(allocation: NewAllocation, plan?: FundingPlan): Allocation {
+    this.assertNewTransaction(allocation.txHash);
+    const { category } = allocation;
+    if (plan) {
+      this.assertPlanCovers(plan, allocation.amount, allocation.currency, category);
+    } else {
+      plan = this.planFunding(allocation.amount, allocation.currency, { donationIds: allocation.donationIds, category });
+    }
+
     const id = `alloc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-    const fullAllocation: Allocation = { ...allocation, id };
+    const fullAllocation: Allocation = {
+      ...allocation,
+      ...(category ? { category: normalizeCategory(category) } : {}),
+      id,
+      donationIds: plan.funding.map(share => share.donationId),
+      funding: plan.funding,
+      matchingStrategy: plan.matchingStrategy
+    };
     this.allocations.set(id, fullAllocation);
+    this.txIndex.set(fullAllocation.txHash, id);
+    this.auditLog.append('allocation', id, fullAllocation);
     this.maybeAutoSave();
     return fullAllocation;
   }
 
-  // Submit proof of impact for an allocation
-  submitProof(proof: Omit<ProofOfImpact, 'id' | 'verified'>): ProofOfImpact {
+  /**
+   * Write-ahead step of a two-phase allocation: persist what is about to be
+   * sent, reserving its funding, before the transfer goes out. Finalize it with
+   * the transaction once sent, or abandon it if the transfer never happened.
+   * Survives a crash only when autoSave is on.
+   */
+  beginAllocation(
+    allocation: Omit<NewAllocation, 'txHash' | 'timestamp' | 'donationIds' | 'intentId'>,
+    plan: FundingPlan
+  ): AllocationIntent {
+    // A grant tranche draws on the grant's own commitment
+    this.releasingGrantId = allocation.grantId ?? null;
+    try {
+      this.assertPlanCovers(plan, allocation.amount, allocation.currency, allocation.category);
+    } finally {
+      this.releasingGrantId = null;
+    }
+
+    const id = `intent_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const intent: AllocationIntent = {
+      ...allocation,
+      ...(allocation.category ? { category: normalizeCategory(allocation.category) } : {}),
+      id,
+      status: 'pending',
+      funding: plan.funding,
+      matchingStrategy: plan.matchingStrategy,
+      createdAt: new Date()
+    };
+    this.intents.set(id, intent);
+    this.auditLog.append('intent', id, intent);
+    this.maybeAutoSave();
+    return intent;
+  }
+
+  private getPendingIntent(intentId: string): AllocationIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) throw new Error(`Allocation intent ${intentId} does not exist`);
+    if (intent.status !== 'pending') throw new Error(`Allocation intent ${intentId} is already ${intent.status}`);
+    return intent;
+  }
+
+  // Note the transaction as soon as the wallet returns it, before recording the allocation
+  markIntentSent(intentId: string, txHash: string): AllocationIntent {
+    const intent = this.getPendingIntent(intentId);
+    intent.txHash = txHash;
+    this.auditLog.append('intent_sent', intentId, intent);
+    this.maybeAutoSave();
+    return intent;
+  }
+
+  /**
+   * Second phase: record the allocation for a sent transfer and close the intent.
+   * The funding reserved by the intent is what the allocation spends.
+   */
+  finalizeIntent(intentId: string, txHash: string, resolution: string = 'Transfer confirmed by wallet'): Allocation {
+    const intent = this.getPendingIntent(intentId);
+    if (intent.refund) throw new Error(`Allocation intent ${intentId} is a donor refund; use finalizeRefundIntent()`);
+
+    // An allocation may already exist if we crashed right after recording it
+    let allocation = Array.from(this.allocations.values()).find(a => a.intentId === intentId);
+    if (!allocation) {
+      // Release the reservation so the allocation can spend it
+      this.finalizingIntentId = intentId;
+      try {
+        allocation = this.recordAllocation({
+          txHash,
+          to: intent.to,
+          recipientName: intent.recipientName,
+          amount: intent.amount,
+          currency: intent.currency,
+          purpose: intent.purpose,
+          ...(intent.category ? { category: intent.category } : {}),
+          ...(intent.proposalId ? { proposalId: intent.proposalId } : {}),
+          ...(intent.grantId ? { grantId: intent.grantId, milestone: intent.milestone } : {}),
+          intentId,
+          timestamp: new Date()
+        }, intent);
+      } finally {
+        this.finalizingIntentId = null;
+      }
+    }
+
+    intent.status = 'finalized';
+    intent.txHash = allocation.txHash;
+    intent.allocationId = allocation.id;
+    intent.resolvedAt = new Date();
+    intent.resolution = resolution;
+    this.auditLog.append('intent_finalized', intentId, intent);
+    if (intent.proposalId) this.markProposalExecuted(intent.proposalId, allocation.id);
+    if (intent.grantId) this.markTrancheReleased(intent.grantId, allocation);
+    this.maybeAutoSave();
+    return allocation;
+  }
+
+  /**
+   * Write-ahead step of a donor refund, like beginAllocation(): the refunded
+   * amount is reserved against the donation before the transfer goes out, so
+   * a concurrent refund or allocation can't spend it too
+   */
+  beginRefund(refund: Pick<Refund, 'from' | 'to' | 'amount' | 'currency' | 'reason'> & { donationId: string }): AllocationIntent {
+    const funding = this.planRefund({ ...refund, kind: 'donor_refund' });
+
+    const id = `intent_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const intent: AllocationIntent = {
+      id,
+      status: 'pending',
+      to: refund.to,
+      recipientName: 'Donor refund',
+      amount: refund.amount,
+      currency: refund.currency,
+      purpose: refund.reason,
+      funding,
+      matchingStrategy: 'donor-refund',
+      refund: { donationId: refund.donationId, from: refund.from },
+      createdAt: new Date()
+    };
+    this.intents.set(id, intent);
+    this.auditLog.append('intent', id, intent);
+    this.maybeAutoSave();
+    return intent;
+  }
+
+  // Second phase of a donor refund: record the refund for a sent transfer and close the intent
+  finalizeRefundIntent(intentId: string, txHash: string, resolution: string = 'Transfer confirmed by wallet'): Refund {
+    const intent = this.getPendingIntent(intentId);
+    if (!intent.refund) throw new Error(`Allocation intent ${intentId} is not a refund; use finalizeIntent()`);
+
+    // A refund may already exist if we crashed right after recording it
+    let refund = Array.from(this.refunds.values()).find(r => r.intentId === intentId);
+    if (!refund) {
+      // Release the reservation so the refund can spend it
+      this.finalizingIntentId = intentId;
+      try {
+        refund = this.recordRefund({
+          kind: 'donor_refund',
+          txHash,
+          from: intent.refund.from,
+          to: intent.to,
+          amount: intent.amount,
+          currency: intent.currency,
+          donationId: intent.refund.donationId,
+          reason: intent.purpose,
+          intentId,
+          timestamp: new Date()
+        });
+      } finally {
+        this.finalizingIntentId = null;
+      }
+    }
+
+    intent.status = 'finalized';
+    intent.txHash = refund.txHash;
+    intent.refundId = refund.id;
+    intent.resolvedAt = new Date();
+    intent.resolution = resolution;
+    this.auditLog.append('intent_finalized', intentId, intent);
+    this.maybeAutoSave();
+    return refund;
+  }
+
+  // Close an intent whose transfer never happened, releasing its funding
+  abandonIntent(intentId: string, reason: string): AllocationIntent {
+    const intent = this.getPendingIntent(intentId);
+    intent.status = 'abandoned';
+    intent.resolvedAt = new Date();
+    intent.resolution = reason;
+    this.auditLog.append('intent_abandoned', intentId, intent);
+    this.maybeAutoSave();
+    return intent;
+  }
+
+  // Intents whose transfer may or may not have gone out
+  getPendingIntents(): AllocationIntent[] {
+    return Array.from(this.intents.values()).filter(i => i.status === 'pending');
+  }
+
+  getIntent(intentId: string): AllocationIntent | undefined {
+    return this.intents.get(intentId);
+  }
+
+  /**
+   * Propose an allocation for approval. Funding is planned now so approvers
+   * sign off on exactly which donations pay; it is checked again at execution.
+   */
+  proposeAllocation(
+    proposal: NewProposal,
+    policy: ApprovalPolicy,
+    options: { strategy?: MatchingStrategy } = {}
+  ): AllocationProposal {
+    this.assertPolicy(policy);
+    const { donationIds, ...details } = proposal;
+    const plan = this.planFunding(proposal.amount, proposal.currency, {
+      donationIds,
+      strategy: options.strategy,
+      category: proposal.category
+    });
+
+    const id = `prop_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const createdAt = new Date();
+    const fullProposal: AllocationProposal = {
+      ...details,
+      ...(proposal.category ? { category: normalizeCategory(proposal.category) } : {}),
+      id,
+      funding: plan.funding,
+      matchingStrategy: plan.matchingStrategy,
+      approvers: [...policy.approvers],
+      requiredApprovals: policy.required,
+      approvals: [],
+      status: 'draft',
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + (policy.ttlMs ?? DEFAULT_PROPOSAL_TTL_MS))
+    };
+    this.proposals.set(id, fullProposal);
+    this.auditLog.append('proposal', id, fullProposal);
+    this.maybeAutoSave();
+    return fullProposal;
+  }
+
+  // Throw unless a policy names distinct approvers and needs between 1 and all of them
+  private assertPolicy(policy: ApprovalPolicy): void {
+    if (new Set(policy.approvers).size !== policy.approvers.length) {
+      throw new ProposalError('invalid_policy', 'Approval policy lists the same approver twice');
+    }
+    if (!Number.isInteger(policy.required) || policy.required < 1 || policy.required > policy.approvers.length) {
+      throw new ProposalError(
+        'invalid_policy',
+        `Approval policy needs between 1 and ${policy.approvers.length} approvals, got ${policy.required}`
+      );
+    }
+  }
+
+  // Look up a proposal, marking it expired first if its time is up
+  private getLiveProposal(proposalId: string, now: Date = new Date()): AllocationProposal {
+    const proposal = this.proposals.get(proposalId);
+    if (!proposal) {
+      throw new ProposalError('unknown_proposal', `Proposal ${proposalId} does not exist`, proposalId);
+    }
+    this.expireIfDue(proposal, now);
+    if (proposal.status === 'expired') {
+      throw new ProposalError('expired', `Proposal ${proposalId} expired at ${proposal.expiresAt.toISOString()}`, proposalId);
+    }
+    return proposal;
+  }
+
+  private expireIfDue(proposal: AllocationProposal, now: Date): boolean {
+    const open = proposal.status === 'draft' || proposal.status === 'approved';
+    if (!open || proposal.expiresAt.getTime() > now.getTime()) return false;
+
+    proposal.status = 'expired';
+    this.auditLog.append('proposal_expired', proposal.id, proposal);
+    this.maybeAutoSave();
+    return true;
+  }
+
+  private assertApprover(proposal: AllocationProposal, approver: string): void {
+    if (!proposal.approvers.includes(approver)) {
+      throw new ProposalError('not_an_approver', `${approver} is not an approver for proposal ${proposal.id}`, proposal.id);
+    }
+  }
+
+  /**
+   * Record one approver's sign-off. The proposal becomes approved once it
+   * has the required number of distinct approvals.
+   */
+  approveProposal(proposalId: string, approver: string, note?: string): AllocationProposal {
+    const proposal = this.getLiveProposal(proposalId);
+    if (proposal.status !== 'draft') {
+      throw new ProposalError('not_pending', `Proposal ${proposalId} is ${proposal.status}`, proposalId);
+    }
+    this.assertApprover(proposal, approver);
+    if (proposal.approvals.some(a => a.approver === approver)) {
+      throw new ProposalError('already_approved', `${approver} has already approved proposal ${proposalId}`, proposalId);
+    }
+
+    proposal.approvals.push({ approver, timestamp: new Date(), ...(note ? { note } : {}) });
+    if (proposal.approvals.length >= proposal.requiredApprovals) {
+      proposal.status = 'approved';
+    }
+    this.auditLog.append('proposal_approved', proposalId, proposal);
+    this.maybeAutoSave();
+    return proposal;
+  }
+
+  // Reject a proposal that hasn't been executed yet
+  rejectProposal(proposalId: string, approver: string, reason: string): AllocationProposal {
+    const proposal = this.getLiveProposal(proposalId);
+    if (proposal.status !== 'draft' && proposal.status !== 'approved') {
+      throw new ProposalError('not_pending', `Proposal ${proposalId} is ${proposal.status}`, proposalId);
+    }
+    this.assertApprover(proposal, approver);
+
+    proposal.status = 'rejected';
+    proposal.rejection = { approver, reason, timestamp: new Date() };
+    this.auditLog.append('proposal_rejected', proposalId, proposal);
+    this.maybeAutoSave();
+    return proposal;
+  }
+
+  // Expire every open proposal past its deadline, returning the ones expired
+  expireProposals(now: Date = new Date()): AllocationProposal[] {
+    return Array.from(this.proposals.values()).filter(p => this.expireIfDue(p, now));
+  }
+
+  /**
+   * Throw unless a proposal is approved, unexpired and its donations still cover it.
+   * Call before handing the transfer to the wallet.
+   */
+  assertExecutable(proposalId: string): AllocationProposal {
+    const proposal = this.getLiveProposal(proposalId);
+    if (proposal.status !== 'approved') {
+      throw new ProposalError(
+        'not_approved',
+        `Proposal ${proposalId} is ${proposal.status} with ${proposal.approvals.length} of ${proposal.requiredApprovals} approvals`,
+        proposalId
+      );
+    }
+    const inFlight = this.getPendingIntents().find(i => i.proposalId === proposalId);
+    if (inFlight) {
+      throw new ProposalError('in_progress', `Proposal ${proposalId} is already being executed (${inFlight.id})`, proposalId);
+    }
+    this.assertPlanCovers(proposal, proposal.amount, proposal.currency, proposal.category);
+    return proposal;
+  }
+
+  // Record the allocation for an approved proposal once its transfer has landed
+  recordProposalExecution(proposalId: string, txHash: string): Allocation {
+    const proposal = this.assertExecutable(proposalId);
+    const allocation = this.recordAllocation({
+      txHash,
+      to: proposal.to,
+      recipientName: proposal.recipientName,
+      amount: proposal.amount,
+      currency: proposal.currency,
+      purpose: proposal.purpose,
+      ...(proposal.category ? { category: proposal.category } : {}),
+      timestamp: new Date(),
+      proposalId
+    }, proposal);
+
+    this.markProposalExecuted(proposalId, allocation.id);
+    this.maybeAutoSave();
+    return allocation;
+  }
+
+  // Money has moved, so this applies even if the proposal expired mid-transfer
+  private markProposalExecuted(proposalId: string, allocationId: string): void {
+    const proposal = this.proposals.get(proposalId);
+    if (!proposal) return;
+    proposal.status = 'executed';
+    proposal.allocationId = allocationId;
+    this.auditLog.append('proposal_executed', proposalId, proposal);
+  }
+
+  getProposal(proposalId: string): AllocationProposal | undefined {
+    return this.proposals.get(proposalId);
+  }
+
+  // Get proposals, optionally only those in one state
+  getProposals(status?: ProposalStatus): AllocationProposal[] {
+    return Array.from(this.proposals.values())
+      .filter(p => !status || p.status === status);
+  }
+
+  /**
+   * Commit to a grant paid out in milestone tranches. Funding for the whole
+   * commitment is planned and held back now, so other allocations can't
+   * spend what the later tranches have been promised.
+   */
+  createGrant(grant: NewGrant, options: { strategy?: MatchingStrategy } = {}): Grant {
+    const { donationIds, milestones, ...details } = grant;
+    if (milestones.length === 0) {
+      throw new GrantError('invalid_grant', 'A grant needs at least one milestone');
+    }
+    if (milestones.some(m => m.amount <= 0n)) {
+      throw new GrantError('invalid_grant', 'Every milestone amount must be positive');
+    }
+    const amount = milestones.reduce((sum, m) => sum + m.amount, 0n);
+    const plan = this.planFunding(amount, grant.currency, { donationIds, strategy: options.strategy, category: grant.category });
+
+    const id = `grant_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const fullGrant: Grant = {
+      ...details,
+      ...(grant.category ? { category: normalizeCategory(grant.category) } : {}),
+      id,
+      amount,
+      milestones: milestones.map(({ description, amount }) => ({ description, amount })),
+      funding: plan.funding,
+      matchingStrategy: plan.matchingStrategy,
+      status: 'active',
+      createdAt: new Date()
+    };
+    this.grants.set(id, fullGrant);
+    this.auditLog.append('grant', id, fullGrant);
+    this.maybeAutoSave();
+    return fullGrant;
+  }
+
+  private getActiveGrant(grantId: string): Grant {
+    const grant = this.grants.get(grantId);
+    if (!grant) throw new GrantError('unknown_grant', `Grant ${grantId} does not exist`, grantId);
+    if (grant.status !== 'active') throw new GrantError('not_active', `Grant ${grantId} is ${grant.status}`, grantId);
+    return grant;
+  }
+
+  /**
+   * Work out the next tranche of a grant: which milestone it pays and which
+   * of the grant's committed donations fund it. Throws GrantError unless the
+   * previous milestone's allocation has a verified proof.
+   */
+  planTranche(grantId: string): { milestone: number; plan: FundingPlan } {
+    const grant = this.getActiveGrant(grantId);
+    const inFlight = this.getPendingIntents().find(i => i.grantId === grantId);
+    if (inFlight) {
+      throw new GrantError('in_progress', `A tranche of grant ${grantId} is already being sent (${inFlight.id})`, grantId);
+    }
+
+    const milestone = grant.milestones.findIndex(m => !m.allocationId);
+    const previous = grant.milestones[milestone - 1];
+    if (previous && !this.getProofsForAllocation(previous.allocationId!).some(p => p.status === 'verified')) {
+      throw new GrantError(
+        'milestone_not_verified',
+        `Milestone ${milestone} of grant ${grantId} ("${previous.description}") has no verified proof yet`,
+        grantId
+      );
+    }
+
+    // Draw on the commitment in the order it was planned
+    const commitment = this.getGrantCommitment(grant);
+    const candidates = Array.from(commitment.entries())
+      .filter(([, held]) => held > 0n)
+      .map(([donationId, held]) => ({ donation: this.donations.get(donationId)!, available: held }));
+    return {
+      milestone,
+      plan: { funding: manual.match(candidates, grant.milestones[milestone].amount), matchingStrategy: grant.matchingStrategy }
+    };
+  }
+
+  // A tranche's transfer has landed; the grant completes with its last milestone
+  private markTrancheReleased(grantId: string, allocation: Allocation): void {
+    const grant = this.grants.get(grantId);
+    const milestone = grant?.milestones[allocation.milestone!];
+    if (!grant || !milestone) return;
+    milestone.allocationId = allocation.id;
+    milestone.releasedAt = allocation.timestamp;
+    if (grant.milestones.every(m => m.allocationId)) grant.status = 'completed';
+    this.auditLog.append('grant_tranche_released', grantId, grant);
+  }
+
+  // Stop an active grant; its unreleased commitment goes back to the pool
+  cancelGrant(grantId: string, reason: string): Grant {
+    const grant = this.getActiveGrant(grantId);
+    const inFlight = this.getPendingIntents().find(i => i.grantId === grantId);
+    if (inFlight) {
+      throw new GrantError('in_progress', `A tranche of grant ${grantId} is being sent (${inFlight.id}); resolve it first`, grantId);
+    }
+    grant.status = 'cancelled';
+    grant.cancellation = { reason, timestamp: new Date() };
+    this.auditLog.append('grant_cancelled', grantId, grant);
+    this.maybeAutoSave();
+    return grant;
+  }
+
+  getGrant(grantId: string): Grant | undefined {
+    return this.grants.get(grantId);
+  }
+
+  // Get grants, optionally only those in one state
+  getGrants(status?: GrantStatus): Grant[] {
+    return Array.from(this.grants.values())
+      .filter(g => !status || g.status === status);
+  }
+
+  // Committed to active grants and not yet released, in one currency
+  private getCommitted(currency: Currency): bigint {
+    let committed = 0n;
+    for (const grant of this.grants.values()) {
+      if (grant.currency !== currency) continue;
+      for (const held of this.getGrantCommitment(grant).values()) committed += held;
+    }
+    return committed;
+  }
+
+  /**
+   * Work out which donations a return or refund touches, throwing RefundError
+   * if it doesn't fit. A recipient return or project refund pays an allocation
+   * back and goes to its donations pro rata, ready to be allocated again; a
+   * donor refund takes unspent money out of the donor's donation.
+   */
+  planRefund(refund: Omit<Refund, 'id' | 'funding' | 'txHash' | 'timestamp'>): FundingShare[] {
+    const money = (amount: bigint) => this.tokens.formatMoney({ amount, currency: refund.currency });
+    if (refund.amount <= 0n) {
+      throw new RefundError('invalid_amount', 'Refund amount must be positive');
+    }
+
+    if (refund.kind === 'donor_refund') {
+      const donation = refund.donationId ? this.donations.get(refund.donationId) : undefined;
+      if (!donation) {
+        throw new RefundError('unknown_donation', `Donation ${refund.donationId} does not exist`);
+      }
+      if (donation.currency !== refund.currency) {
+        throw new RefundError('currency_mismatch', `Donation ${donation.id} is in ${donation.currency}, refund is in ${refund.currency}`);
+      }
+      if (refund.to !== donation.from) {
+        throw new RefundError('wrong_counterparty', `Donation ${donation.id} came from ${donation.from}; refunds go back to that address`);
+      }
+      const available = this.getDonationBalance(donation.id);
+      if (refund.amount > available) {
+        throw new RefundError('exceeds_balance', `Donation ${donation.id} has ${money(available)} unspent, refund is ${money(refund.amount)}`);
+      }
+      return [{ donationId: donation.id, amount: refund.amount }];
+    }
+
+    const allocation = refund.allocationId ? this.allocations.get(refund.allocationId) : undefined;
+    if (!allocation) {
+      throw new RefundError('unknown_allocation', `Allocation ${refund.allocationId} does not exist`);
+    }
+    if (refund.from !== allocation.to) {
+      throw new RefundError('wrong_counterparty', `Allocation ${allocation.id} went to ${allocation.to}; returns must come from that address`);
+    }
+    if (allocation.currency !== refund.currency) {
+      throw new RefundError('currency_mismatch', `Allocation ${allocation.id} is in ${allocation.currency}, return is in ${refund.currency}`);
+    }
+    const returned = this.getReturnedAmount(allocation.id);
+    if (refund.amount > allocation.amount - returned) {
+      throw new RefundError(
+        'exceeds_allocation',
+        `Allocation ${allocation.id} was ${money(allocation.amount)} with ${money(returned)} already returned, return is ${money(refund.amount)}`
+      );
+    }
+    // Each funding share gets back its part, net of earlier returns
+    const outstanding = allocation.funding.map(share => ({
+      donation: this.donations.get(share.donationId)!,
+      available: share.amount - this.getReturnedShare(allocation.id, share.donationId)
+    }));
+    return proRata.match(outstanding, refund.amount);
+  }
+
+  // Record a return or refund once its transaction has landed
+  recordRefund(refund: Omit<Refund, 'id' | 'funding'>): Refund {
+    this.assertNewTransaction(refund.txHash);
+    const funding = this.planRefund(refund);
+
+    const id = `refund_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const fullRefund: Refund = { ...refund, id, funding };
+    this.refunds.set(id, fullRefund);
+    this.txIndex.set(fullRefund.txHash, id);
+    this.auditLog.append('refund', id, fullRefund);
+    this.maybeAutoSave();
+    return fullRefund;
+  }
+
+  // How much of an allocation has been paid back to the fund
+  getReturnedAmount(allocationId: string): bigint {
+    return Array.from(this.refunds.values())
+      .filter(r => r.allocationId === allocationId && r.kind !== 'donor_refund')
+      .reduce((sum, r) => sum + r.amount, 0n);
+  }
+
+  private getReturnedShare(allocationId: string, donationId: string): bigint {
+    let returned = 0n;
+    for (const refund of this.refunds.values()) {
+      if (refund.allocationId !== allocationId || refund.kind === 'donor_refund') continue;
+      for (const share of refund.funding) {
+        if (share.donationId === donationId) returned += share.amount;
+      }
+    }
+    return returned;
+  }
+
+  // Get every return and refund, oldest first
+  getRefunds(): Refund[] {
+    return Array.from(this.refunds.values())
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Throw unless the allocation's recipient signed this description and
+   * these evidence hashes for this allocation, and the signature is new.
+   * Returns the signature in canonical base64, the form that is stored.
+   */
+  private assertSignedByRecipient(
+    payload: Omit<ProofPayload, 'signedAt'> & { signedAt?: string },
+    recipientAddress: string,
+    signature: string | undefined
+  ): string {
+    const allocation = this.allocations.get(payload.allocationId);
+    if (!allocation) {
+      throw new ProofError('unknown_allocation', `Allocation ${payload.allocationId} does not exist`);
+    }
+    if (recipientAddress !== allocation.to) {
+      throw new ProofError(
+        'wrong_recipient',
+        `Proofs for allocation ${allocation.id} must come from its recipient ${allocation.to}, not ${recipientAddress}`
+      );
+    }
+    const badHash = payload.evidenceHashes.find(hash => !isEvidenceHash(hash));
+    if (badHash !== undefined) {
+      throw new ProofError('invalid_evidence_hash', `Evidence hash must be 64 lowercase hex characters: ${badHash}`);
+    }
+    const { signedAt } = payload;
+    if (!signedAt || Number.isNaN(Date.parse(signedAt))) {
+      throw new ProofError('invalid_signature', 'Proof signature must cover signedAt, an ISO 8601 timestamp');
+    }
+    if (!signature || !verifyProofSignature({ ...payload, signedAt }, signature, allocation.to)) {
+      throw new ProofError('invalid_signature', `Proof is not signed by ${allocation.to}, the recipient of allocation ${allocation.id}`);
+    }
+    // Every proof snapshot is in the audit log, so this covers signatures later replaced by a resubmission
+    const canonical = canonicalSignature(signature);
+    const seen = this.auditLog.getEntries().some(entry => {
+      const logged = (entry.data as { signature?: unknown }).signature;
+      return typeof logged === 'string' && canonicalSignature(logged) === canonical;
+    });
+    if (seen) {
+      throw new ProofError('replayed_signature', 'This proof signature has already been used; sign the proof again with a new signedAt');
+    }
+    return canonical;
+  }
+
+  // Submit a recipient-signed proof of impact for an allocation
+  submitProof(proof: Omit<ProofOfImpact, 'id' | 'status' | 'reviews' | 'verified'>): ProofOfImpact {
+    const signature = this.assertSignedByRecipient(proof, proof.recipientAddress, proof.signature);
     const id = `proof_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-    const fullProof: ProofOfImpact = { ...proof, id, verified: false };
+    const fullProof: ProofOfImpact = { ...proof, signature, id, status: 'submitted', reviews: [], verified: false };
     this.proofs.set(id, fullProof);
+    this.auditLog.append('proof', id, fullProof);
     this.maybeAutoSave();
     return fullProof;
   }
 
-  // Verify a proof of impact
-  verifyProof(proofId: string): boolean {
+  // Stamp a donation or allocation with its USD value; logged like any other change
+  recordValuation(recordId: string, valuation: FiatValuation): Donation | Allocation {
+    const record = this.donations.get(recordId) || this.allocations.get(recordId);
+    if (!record) {
+      throw new Error(`No donation or allocation with id ${recordId}`);
+    }
+    record.valuation = valuation;
+    this.auditLog.append('valuation', recordId, record);
+    this.maybeAutoSave();
+    return record;
+  }
+
+  /**
+   * Move a proof to its next review status, recording who did it and why.
+   * Rejections and requests for more information need a note, and a
+   * recipient can't review their own proof.
+   */
+  reviewProof(proofId: string, to: ProofStatus, reviewer: string, note?: string): ProofOfImpact {
     const proof = this.proofs.get(proofId);
-    if (proof) {
-      proof.verified = true;
-      this.maybeAutoSave();
-      return true;
+    if (!proof) {
+      throw new ProofError('unknown_proof', `Proof ${proofId} does not exist`, proofId);
+    }
+    if (!PROOF_TRANSITIONS[proof.status].includes(to)) {
+      throw new ProofError('invalid_transition', `Proof ${proofId} is ${proof.status} and can't move to ${to}`, proofId);
     }
-    return false;
+    if ((to === 'rejected' || to === 'needs_more_info') && !note?.trim()) {
+      throw new ProofError('note_required', `Say why proof ${proofId} is ${to === 'rejected' ? 'rejected' : 'incomplete'}`, proofId);
+    }
+    if (to !== 'submitted' && reviewer === proof.recipientAddress) {
+      throw new ProofError('self_review', `${reviewer} submitted proof ${proofId} and can't review it`, proofId);
+    }
+
+    proof.reviews.push({ from: proof.status, to, by: reviewer, ...(note ? { note } : {}), timestamp: new Date() });
+    proof.status = to;
+    proof.verified = to === 'verified';
+    this.auditLog.append('proof_reviewed', proofId, proof);
+    this.maybeAutoSave();
+    return proof;
+  }
+
+  startProofReview(proofId: string, reviewer: string, note?: string): ProofOfImpact {
+    return this.reviewProof(proofId, 'under_review', reviewer, note);
+  }
+
+  verifyProof(proofId: string, reviewer: string, note?: string): ProofOfImpact {
+    return this.reviewProof(proofId, 'verified', reviewer, note);
+  }
+
+  rejectProof(proofId: string, reviewer: string, reason: string): ProofOfImpact {
+    return this.reviewProof(proofId, 'rejected', reviewer, reason);
+  }
+
+  requestMoreProofInfo(proofId: string, reviewer: string, request: string): ProofOfImpact {
+    return this.reviewProof(proofId, 'needs_more_info', reviewer, request);
+  }
+
+  /**
+   * Answer a request for more information: the recipient adds evidence or
+   * rewrites the description, signs the result again, and the proof goes
+   * back into the review queue
+   */
+  resubmitProof(
+    proofId: string,
+    changes: { description?: string; evidenceLinks?: string[]; evidenceHashes?: string[]; signedAt: string },
+    signature: string,
+    note?: string
+  ): ProofOfImpact {
+    const proof = this.proofs.get(proofId);
+    if (!proof) {
+      throw new ProofError('unknown_proof', `Proof ${proofId} does not exist`, proofId);
+    }
+    if (proof.status !== 'needs_more_info') {
+      throw new ProofError('invalid_transition', `Proof ${proofId} is ${proof.status}; only proofs needing more information can be resubmitted`, proofId);
+    }
+    const revised = { ...proof, ...changes };
+    const canonical = this.assertSignedByRecipient(revised, proof.recipientAddress, signature);
+
+    proof.description = revised.description;
+    proof.evidenceLinks = revised.evidenceLinks;
+    proof.evidenceHashes = revised.evidenceHashes;
+    proof.signedAt = revised.signedAt;
+    proof.signature = canonical;
+    return this.reviewProof(proofId, 'submitted', proof.recipientAddress, note);
   }
 
   // Get fund summary
-  getSummary(currency: 'SOL' | 'USDC' = 'SOL'): FundSummary {
-    let totalReceived = 0;
-    let totalAllocated = 0;
+  getSummary(currency: Currency = 'SOL'): FundSummary {
+    let totalReceived = 0n;
+    let totalAllocated = 0n;
 
     for (const donation of this.donations.values()) {
       if (donation.currency === currency) {
@@ -141,17 +1303,86 @@ export class FundTracker {
       }
     }
 
+    let totalReturned = 0n;
+    let totalRefunded = 0n;
+    for (const refund of this.refunds.values()) {
+      if (refund.currency !== currency) continue;
+      if (refund.kind === 'donor_refund') totalRefunded += refund.amount;
+      else totalReturned += refund.amount;
+    }
+
     return {
       totalReceived,
       totalAllocated,
-      totalRemaining: totalReceived - totalAllocated,
+      totalRemaining: totalReceived - totalAllocated + totalReturned - totalRefunded,
+      totalCommitted: this.getCommitted(currency),
+      totalReturned,
+      totalRefunded,
       donationCount: this.donations.size,
       allocationCount: this.allocations.size,
       proofsSubmitted: this.proofs.size,
-      currency
+      currency,
+      restricted: this.getRestrictedBalances(currency),
+      fiat: this.getFiatSummary(currency)
     };
   }
 
+  /**
+   * USD totals from stamped valuations. The realized gain compares each funding
+   * share's value when it was donated with its value when it was allocated.
+   */
+  private getFiatSummary(currency: Currency): FiatSummary {
+    const fiat: FiatSummary = { receivedUsd: 0n, allocatedUsd: 0n, realizedGainUsd: 0n, unvalued: 0 };
+
+    for (const donation of this.donations.values()) {
+      if (donation.currency !== currency) continue;
+      if (donation.valuation) fiat.receivedUsd += donation.valuation.usd;
+      else fiat.unvalued++;
+    }
+
+    for (const allocation of this.allocations.values()) {
+      if (allocation.currency !== currency) continue;
+      if (!allocation.valuation) {
+        fiat.unvalued++;
+        continue;
+      }
+      fiat.allocatedUsd += allocation.valuation.usd;
+      for (const share of allocation.funding) {
+        const donated = this.donations.get(share.donationId)?.valuation;
+        if (!donated) continue;
+        const decimals = this.tokens.require(currency).decimals;
+        fiat.realizedGainUsd += valueInUsd(share.amount, currency, allocation.valuation.price, decimals)
+          - valueInUsd(share.amount, currency, donated.price, decimals);
+      }
+    }
+
+    return fiat;
+  }
+
+  // Received, spent, committed and remaining amounts of restricted donations, per category
+  private getRestrictedBalances(currency: Currency): Record<string, RestrictedBalance> {
+    const balances: Record<string, RestrictedBalance> = {};
+    const committed = new Map<string, bigint>();
+    for (const grant of this.grants.values()) {
+      for (const [donationId, held] of this.getGrantCommitment(grant)) {
+        committed.set(donationId, (committed.get(donationId) ?? 0n) + held);
+      }
+    }
+
+    for (const donation of this.donations.values()) {
+      if (donation.currency !== currency || !donation.restriction) continue;
+      const balance = balances[donation.restriction] ||= { received: 0n, allocated: 0n, committed: 0n, remaining: 0n };
+      const remaining = this.getDonationBalance(donation.id);
+      const held = committed.get(donation.id) ?? 0n;
+      balance.received += donation.amount;
+      balance.allocated += donation.amount - remaining - held;
+      balance.committed += held;
+      balance.remaining += remaining;
+    }
+
+    return balances;
+  }
+
   // Get full audit trail
   getAuditTrail(): AuditEntry[] {
     const entries: AuditEntry[] = [];
@@ -168,48 +1399,290 @@ export class FundTracker {
       entries.push({ type: 'proof', data: proof, timestamp: proof.timestamp });
     }
 
+    for (const proposal of this.proposals.values()) {
+      entries.push({ type: 'proposal', data: proposal, timestamp: proposal.createdAt });
+    }
+
+    for (const grant of this.grants.values()) {
+      entries.push({ type: 'grant', data: grant, timestamp: grant.createdAt });
+    }
+
+    for (const refund of this.refunds.values()) {
+      entries.push({ type: 'refund', data: refund, timestamp: refund.timestamp });
+    }
+
     return entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
+  // Get the raw hash-chained audit log
+  getAuditLog(): AuditLogEntry[] {
+    return this.auditLog.getEntries();
+  }
+
+  /**
+   * Check the audit log chain, then check every record still matches its
+   * latest logged snapshot. Reports the first broken entry.
+   */
+  verifyIntegrity(): IntegrityReport {
+    const chain = this.auditLog.verify();
+    if (!chain.valid) return chain;
+
+    const records = new Map<string, Donation | Allocation | ProofOfImpact | AllocationProposal | AllocationIntent | Grant | Refund | AuditAnchor>();
+    for (const d of this.donations.values()) records.set(d.id, d);
+    for (const a of this.allocations.values()) records.set(a.id, a);
+    for (const p of this.proofs.values()) records.set(p.id, p);
+    for (const p of this.proposals.values()) records.set(p.id, p);
+    for (const i of this.intents.values()) records.set(i.id, i);
+    for (const g of this.grants.values()) records.set(g.id, g);
+    for (const r of this.refunds.values()) records.set(r.id, r);
+    for (const a of this.anchors) records.set(a.id, a);
+
+    const latest = Array.from(this.auditLog.latestByRecord().values())
+      .sort((a, b) => a.seq - b.seq);
+
+    for (const entry of latest) {
+      const record = records.get(entry.recordId);
+      if (!record) {
+        return {
+          valid: false,
+          entriesChecked: chain.entriesChecked,
+          firstBrokenSeq: entry.seq,
+          reason: `Record ${entry.recordId} logged at entry ${entry.seq} is missing from the ledger`
+        };
+      }
+      if (canonicalJson(record) !== canonicalJson(entry.data)) {
+        return {
+          valid: false,
+          entriesChecked: chain.entriesChecked,
+          firstBrokenSeq: entry.seq,
+          reason: `Record ${entry.recordId} differs from its snapshot at entry ${entry.seq}`
+        };
+      }
+      records.delete(entry.recordId);
+    }
+
+    const unlogged = records.keys().next();
+    if (!unlogged.done) {
+      return {
+        valid: false,
+        entriesChecked: chain.entriesChecked,
+        reason: `Record ${unlogged.value} is not in the audit log`
+      };
+    }
+
+    return chain;
+  }
+
+  // Root over the whole audit log, or null if nothing new since the last anchor
+  prepareAnchor(): Pick<AuditAnchor, 'root' | 'fromSeq' | 'toSeq'> | null {
+    const entries = this.auditLog.getEntries();
+    const last = this.anchors[this.anchors.length - 1];
+    // The entry logging the previous anchor doesn't need an anchor of its own
+    if (entries.slice(last ? last.toSeq + 1 : 0).every(e => e.type === 'anchor')) {
+      return null;
+    }
+    return {
+      root: merkleRoot(entries.map(e => e.hash)),
+      fromSeq: 0,
+      toSeq: entries.length - 1
+    };
+  }
+
+  // Record an anchor once its memo transaction has landed
+  recordAnchor(anchor: Omit<AuditAnchor, 'id'>): AuditAnchor {
+    const id = `anchor_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const fullAnchor: AuditAnchor = { ...anchor, id };
+    this.anchors.push(fullAnchor);
+    this.auditLog.append('anchor', id, fullAnchor);
+    this.maybeAutoSave();
+    return fullAnchor;
+  }
+
+  // Get all published anchors, oldest first
+  getAnchors(): AuditAnchor[] {
+    return [...this.anchors];
+  }
+
+  /**
+   * Prove a record's latest anchored audit entry is included in the most recent anchor
+   */
+  getInclusionProof(recordId: string): InclusionProof | null {
+    const anchor = this.anchors[this.anchors.length - 1];
+    if (!anchor) return null;
+
+    const covered = this.auditLog.getEntries().slice(anchor.fromSeq, anchor.toSeq + 1);
+    const entry = covered.filter(e => e.recordId === recordId).pop();
+    if (!entry) return null;
+
+    const proof = merkleProof(covered.map(e => e.hash), entry.seq - anchor.fromSeq);
+    return { recordId, entry, anchor, proof };
+  }
+
   // Get all donations
   getDonations(): Donation[] {
     return Array.from(this.donations.values());
   }
 
+  // Find the donation recorded for a transaction, if any
+  findDonationByTxHash(txHash: string): Donation | undefined {
+    const id = this.txIndex.get(txHash);
+    return id ? this.donations.get(id) : undefined;
+  }
+
+  // Whether a transaction signature is already on any donation, allocation or refund
+  hasTransaction(txHash: string): boolean {
+    return this.txIndex.has(txHash);
+  }
+
+  /**
+   * Reconciliation report: every txHash shared by more than one record.
+   * New records can't be duplicated, but data files written before
+   * uniqueness was enforced may contain them.
+   */
+  findDuplicateTransactions(): DuplicateTransaction[] {
+    const byHash = new Map<string, DuplicateTransaction['records']>();
+
+    for (const d of this.donations.values()) {
+      const records = byHash.get(d.txHash) || [];
+      records.push({ type: 'donation', id: d.id, amount: d.amount, currency: d.currency, timestamp: d.timestamp });
+      byHash.set(d.txHash, records);
+    }
+    for (const a of this.allocations.values()) {
+      const records = byHash.get(a.txHash) || [];
+      records.push({ type: 'allocation', id: a.id, amount: a.amount, currency: a.currency, timestamp: a.timestamp });
+      byHash.set(a.txHash, records);
+    }
+    for (const r of this.refunds.values()) {
+      const records = byHash.get(r.txHash) || [];
+      records.push({ type: 'refund', id: r.id, amount: r.amount, currency: r.currency, timestamp: r.timestamp });
+      byHash.set(r.txHash, records);
+    }
+
+    return Array.from(byHash.entries())
+      .filter(([, records]) => records.length > 1)
+      .map(([txHash, records]) => ({ txHash, records }));
+  }
+
   // Get all allocations
   getAllocations(): Allocation[] {
     return Array.from(this.allocations.values());
   }
 
+  getProofs(): ProofOfImpact[] {
+    return Array.from(this.proofs.values());
+  }
+
   // Get proofs for a specific allocation
   getProofsForAllocation(allocationId: string): ProofOfImpact[] {
     return Array.from(this.proofs.values())
       .filter(p => p.allocationId === allocationId);
   }
 
-  // Trace a donation to its outcomes
+  /**
+   * Trace a donation to its outcomes, including how much of it went where
+   * and any money that came back to it or was refunded from it
+   */
   traceDonation(donationId: string): {
     donation: Donation | undefined;
     allocations: Allocation[];
+    shares: Array<{ allocationId: string; amount: bigint }>;
+    refunds: Array<{ refund: Refund; amount: bigint }>; // this donation's part of each return or refund
+    remaining: bigint;
     proofs: ProofOfImpact[];
   } {
     const donation = this.donations.get(donationId);
+    const shares: Array<{ allocationId: string; amount: bigint }> = [];
     const allocations = Array.from(this.allocations.values())
-      .filter(a => a.donationIds.includes(donationId));
+      .filter(a => {
+        const share = a.funding.find(s => s.donationId === donationId);
+        if (share) shares.push({ allocationId: a.id, amount: share.amount });
+        return share !== undefined;
+      });
     const allocationIds = allocations.map(a => a.id);
     const proofs = Array.from(this.proofs.values())
       .filter(p => allocationIds.includes(p.allocationId));
+    const refunds = this.getRefunds().flatMap(refund => {
+      const share = refund.funding.find(s => s.donationId === donationId);
+      return share ? [{ refund, amount: share.amount }] : [];
+    });
+
+    return { donation, allocations, shares, refunds, remaining: this.getDonationBalance(donationId), proofs };
+  }
+
+  /**
+   * Every donation from an address with the allocations it funded and their
+   * proofs, so a donor can follow their own money without knowing record ids
+   */
+  getDonorHistory(address: string): DonorHistory {
+    const history: DonorHistory = { address, donations: [], totals: {}, recipients: [], proofs: { submitted: 0, verified: 0 } };
+    const recipients = new Set<string>();
+    const proofIds = new Set<string>();
+    const held = (shares: Iterable<{ donationId: string; amount: bigint }>, donationId: string) => {
+      let amount = 0n;
+      for (const share of shares) {
+        if (share.donationId === donationId) amount += share.amount;
+      }
+      return amount;
+    };
+    const commitments = Array.from(this.grants.values()).flatMap(grant =>
+      Array.from(this.getGrantCommitment(grant), ([donationId, amount]) => ({ donationId, amount })));
+    const inFlight = this.getPendingIntents().flatMap(intent => intent.funding);
+
+    const donations = Array.from(this.donations.values())
+      .filter(d => d.from === address)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    for (const donation of donations) {
+      const trace = this.traceDonation(donation.id);
+      const allocations = trace.allocations.map(allocation => ({
+        allocation,
+        amount: trace.shares.find(s => s.allocationId === allocation.id)!.amount,
+        proofs: trace.proofs.filter(p => p.allocationId === allocation.id)
+      }));
+      history.donations.push({ donation, allocations, remaining: trace.remaining });
+
+      const refunded = trace.refunds
+        .filter(r => r.refund.kind === 'donor_refund')
+        .reduce((sum, r) => sum + r.amount, 0n);
+      const committed = held(commitments, donation.id);
+      const pending = held(inFlight, donation.id);
+      const totals = history.totals[donation.currency] ||= {
+        donated: 0n, allocated: 0n, committed: 0n, pending: 0n, refunded: 0n, remaining: 0n
+      };
+      totals.donated += donation.amount;
+      totals.allocated += donation.amount - trace.remaining - refunded - committed - pending;
+      totals.committed += committed;
+      totals.pending += pending;
+      totals.refunded += refunded;
+      totals.remaining += trace.remaining;
+
+      for (const { allocation, proofs } of allocations) {
+        recipients.add(allocation.recipientName);
+        for (const proof of proofs) {
+          if (proofIds.has(proof.id)) continue;
+          proofIds.add(proof.id);
+          history.proofs.submitted++;
+          if (proof.verified) history.proofs.verified++;
+        }
+      }
+    }
 
-    return { donation, allocations, proofs };
+    history.recipients = [...recipients];
+    return history;
   }
 
-  // Export all data as JSON (for transparency)
+  // Export all data as JSON (for transparency): every record kind the data file keeps
   exportData(): string {
     return JSON.stringify({
       donations: Array.from(this.donations.values()),
       allocations: Array.from(this.allocations.values()),
       proofs: Array.from(this.proofs.values()),
+      proposals: Array.from(this.proposals.values()),
+      grants: Array.from(this.grants.values()),
+      intents: Array.from(this.intents.values()),
+      refunds: Array.from(this.refunds.values()),
+      anchors: this.anchors,
       exportedAt: new Date().toISOString()
-    }, null, 2);
+    }, jsonReplacer, 2);
   }
 }
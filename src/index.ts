@@ -5,19 +5,161 @@
  * Every donation tracked. Every impact documented.
  */
 
-import { FundTracker } from './fund-tracker';
-import { WalletManager } from './wallet';
-import { ChainVerifier } from './chain-verifier';
+import { FundTracker, NewGrant, NewProposal } from './fund-tracker';
+import { WalletManager, WalletBackend } from './wallet';
+import { LocalKeypairBackend } from './keypair-wallet';
+import { ChainVerifier, ChainConnection, transfersFor } from './chain-verifier';
+import { formatAnchorMemo } from './anchoring';
+import { DonationWatcher, DonationWatcherOptions } from './donation-watcher';
+import { reconcile, ReconciliationReport } from './reconciler';
+import { recoverIntents, IntentRecoveryOptions, IntentRecoveryReport } from './intent-recovery';
+import {
+  NetworkConfig,
+  NetworkOptions,
+  resolveNetworkConfig,
+  defaultDataPath,
+  assertWithinTransferCap
+} from './network';
+import { MatchingStrategy } from './matching';
+import {
+  AllocationProposal,
+  ApprovalPolicy,
+  AuditAnchor,
+  Allocation,
+  Currency,
+  Donation,
+  FundingPlan,
+  FundSummary,
+  Grant,
+  InclusionProof,
+  Refund,
+  ProofOfImpact,
+  ProofStatus
+} from './types';
+import { formatMoney, jsonReplacer } from './money';
+import { TokenRegistry } from './tokens';
+import { CsvPriceSource, PriceSource, valuate, formatUsd } from './pricing';
+import { EvidenceReport, EvidenceStore, LocalEvidenceStore, checkEvidence } from './evidence-store';
+export {
+  createReceipt,
+  verifyReceiptSignature,
+  receiptMessage,
+  receiptToMarkdown,
+  receiptToHtml,
+  type DonationReceipt
+} from './receipts';
+export { signMessage, verifyMessage, encodeSignature, decodeSignature } from './signing';
+export {
+  proofMessage,
+  signProof,
+  verifyProofSignature,
+  isEvidenceHash,
+  evidenceUploadMessage,
+  signEvidenceUpload,
+  verifyEvidenceUploadSignature,
+  type ProofPayload
+} from './proof-signing';
+export {
+  LocalEvidenceStore,
+  hashEvidence,
+  checkEvidence,
+  type EvidenceStore,
+  type StoredEvidence,
+  type EvidenceCheck,
+  type EvidenceReport
+} from './evidence-store';
+import { createReceipt, DonationReceipt, receiptToHtml, receiptToMarkdown } from './receipts';
+import { DonationError, DuplicateTransactionError, ProposalError, ProofError, RefundError, NetworkError } from './errors';
+import { normalizeCategory, parseRestriction } from './restrictions';
+import { join, dirname, basename } from 'path';
+import { readFile } from 'fs/promises';
+import { createInterface } from 'readline/promises';
 
-export { FundTracker } from './fund-tracker';
-export { WalletManager, type Balance } from './wallet';
-export { ChainVerifier, type VerifiedTransaction } from './chain-verifier';
+export { FundTracker, type NewAllocation, type NewProposal, type NewGrant } from './fund-tracker';
+export {
+  WalletManager,
+  AgentWalletBackend,
+  type WalletBackend,
+  type Balance,
+  type TransferResult
+} from './wallet';
+export { LocalKeypairBackend, type KeypairConnection } from './keypair-wallet';
+export { ChainVerifier, transfersFor, type VerifiedTransaction, type TransferDetail, type NetworkCost, type ChainConnection } from './chain-verifier';
+export { DonationWatcher, type DonationWatcherOptions } from './donation-watcher';
+export {
+  fifo,
+  manual,
+  proRata,
+  memoRestricted,
+  restrictedFirst,
+  type MatchingStrategy,
+  type DonationBalance
+} from './matching';
+export {
+  reconcile,
+  type ReconciliationReport,
+  type UnmatchedLedgerEntry,
+  type AmountMismatch,
+  type BalanceReconciliation
+} from './reconciler';
+export { parseRestriction, normalizeCategory } from './restrictions';
+export {
+  resolveNetworkConfig,
+  NETWORK_DEFAULTS,
+  type NetworkConfig,
+  type NetworkOptions
+} from './network';
+export { recoverIntents, type IntentRecoveryOptions, type IntentRecoveryReport } from './intent-recovery';
+export { AuditLog } from './audit-log';
+export { merkleRoot, merkleProof, verifyMerkleProof } from './merkle';
+export { formatAnchorMemo } from './anchoring';
 export * from './types';
+export * from './errors';
+export { parseAmount, formatAmount, formatMoney, DECIMALS, type Money } from './money';
+export { TokenRegistry, NATIVE_SOL, mergeTokens, type TokenInfo, type TokenProgram } from './tokens';
+export {
+  CsvPriceSource,
+  FixedPriceSource,
+  fallbackPrices,
+  valuate,
+  valueInUsd,
+  formatUsd,
+  type PriceSource,
+  type PricePoint
+} from './pricing';
 
-export interface TransparentFundOptions {
-  dataPath?: string;
-  network?: 'devnet' | 'mainnet';
+// How an allocation is funded
+export interface AllocationOptions {
+  strategy?: MatchingStrategy; // defaults to manual for donationIds, FIFO otherwise
+  category?: string; // lets donations restricted to this category fund the allocation
+}
+
+// What the operator claims about an incoming donation; the donor's on-chain memo and earmark win
+export interface DonationOptions {
+  memo?: string; // must match the on-chain memo when there is one
+  restriction?: string; // a category to restrict the donation to, without an on-chain earmark
+}
+
+// An outgoing transfer awaiting confirmation
+export interface TransferRequest {
+  network: NetworkConfig['network'];
+  to: string;
+  recipientName: string;
+  amount: bigint;
+  currency: Currency;
+  decimals: number; // the currency's, for showing the amount
+  purpose: string;
+}
+
+export interface TransparentFundOptions extends NetworkOptions {
+  dataPath?: string; // defaults to <dataDir>/fund-data.json for the network
   autoSave?: boolean;
+  seedAuditLog?: boolean; // start a new audit chain for a data file that has none (one-off migration)
+  approvalPolicy?: ApprovalPolicy; // when set, allocations must go through approved proposals
+  confirmTransfer?: (request: TransferRequest) => Promise<boolean>; // asked when the network requires confirmation
+  connection?: ChainConnection; // chain access for verification (defaults to the network's RPC endpoint)
+  priceSource?: PriceSource; // stamps donations and allocations with their USD value
+  evidenceStore?: EvidenceStore; // where proof evidence files live (defaults to an evidence/ folder next to dataPath)
 }
 
 // Main class that combines tracking and wallet operations
@@ -25,19 +167,45 @@ export class TransparentFund {
   public tracker: FundTracker;
   public wallet: WalletManager | null = null;
   public verifier: ChainVerifier;
-  private network: 'devnet' | 'mainnet';
+  public readonly config: NetworkConfig;
+  public readonly tokens: TokenRegistry;
+  public readonly evidence: EvidenceStore;
+  private dataPath: string;
+  private approvalPolicy?: ApprovalPolicy;
+  private confirmTransfer?: (request: TransferRequest) => Promise<boolean>;
+  private priceSource?: PriceSource;
 
   constructor(options: TransparentFundOptions = {}) {
-    const { dataPath, network = 'devnet', autoSave = true } = options;
-    this.tracker = new FundTracker(dataPath, autoSave);
-    this.verifier = new ChainVerifier(network);
-    this.network = network;
+    const { autoSave = true, seedAuditLog = false, approvalPolicy, confirmTransfer, priceSource } = options;
+    this.config = resolveNetworkConfig(options);
+    this.tokens = new TokenRegistry(this.config.tokens);
+    this.dataPath = options.dataPath || defaultDataPath(this.config);
+    this.tracker = new FundTracker(this.dataPath, autoSave, this.config.network, this.tokens, seedAuditLog);
+    this.verifier = new ChainVerifier(this.config, options.connection);
+    this.approvalPolicy = approvalPolicy;
+    this.confirmTransfer = confirmTransfer;
+    this.priceSource = priceSource;
+    this.evidence = options.evidenceStore ?? new LocalEvidenceStore(join(dirname(this.dataPath), 'evidence'));
   }
 
-  // Initialize with wallet
-  async connectWallet(): Promise<void> {
-    this.wallet = await WalletManager.fromConfigFile();
+  /**
+   * Initialize with a wallet: the given backend, or the AgentWallet account
+   * in ~/.agentwallet/config.json. Refuses a backend on another network.
+   */
+  async connectWallet(backend?: WalletBackend): Promise<void> {
+    const wallet = backend ? new WalletManager(backend) : await WalletManager.fromConfigFile(this.config);
+    if (wallet.getNetwork() !== this.config.network) {
+      throw new NetworkError(
+        'network_mismatch',
+        `Wallet is on ${wallet.getNetwork()} but the fund is configured for ${this.config.network}`
+      );
+    }
+    this.wallet = wallet;
     console.log(`Wallet connected: ${this.wallet.getAddress()}`);
+
+    if (this.tracker.getPendingIntents().length > 0) {
+      await this.recoverPendingAllocations();
+    }
   }
 
   // Get the fund's receiving address
@@ -52,19 +220,45 @@ export class TransparentFund {
     return this.wallet.getBalances();
   }
 
-  // Process an incoming donation with on-chain verification
-  async recordIncomingDonation(
-    txHash: string,
-    expectedFrom?: string,
-    expectedAmount?: number,
-    currency: 'SOL' | 'USDC' = 'SOL',
-    memo?: string
-  ) {
+  /**
+   * Process an incoming donation with on-chain verification. The transfer must
+   * be to the fund, and the donor's on-chain memo and its "restrict:<category>"
+   * earmark are authoritative: a memo or restriction that contradicts them is
+   * refused. Without an on-chain earmark, `restriction` sets one.
+   */
+  async recordIncomingDonation(txHash: string, options: DonationOptions = {}) {
+    const { memo, restriction } = options;
+    // Fail fast on retries instead of re-verifying a transaction we already have
+    const existing = this.tracker.findDonationByTxHash(txHash);
+    if (existing) {
+      throw new DuplicateTransactionError(txHash, existing.id);
+    }
+
     // Verify on-chain first
-    const verified = await this.verifier.verifyTransaction(txHash);
+    const fundAddress = this.getAddress();
+    const verified = await this.verifier.verifyTransaction(txHash, fundAddress);
     if (!verified) {
       throw new Error(`Transaction ${txHash} not found or failed on-chain`);
     }
+    if (verified.to !== fundAddress) {
+      throw new DonationError('not_to_fund', `Transaction ${txHash} pays ${verified.to}, not the fund address ${fundAddress}`, txHash);
+    }
+    // One donation per transaction, so several senders or currencies can't be told apart
+    if (transfersFor(verified.transfers, fundAddress, 'to').length > 1) {
+      throw new DonationError('ambiguous_transfer', `Transaction ${txHash} pays the fund from several senders or in several currencies`, txHash);
+    }
+    if (verified.memo !== undefined && memo !== undefined && memo !== verified.memo) {
+      throw new DonationError('memo_mismatch', `Transaction ${txHash} carries the memo "${verified.memo}", not "${memo}"`, txHash);
+    }
+    const earmark = parseRestriction(verified.memo);
+    const requested = restriction !== undefined ? normalizeCategory(restriction) : parseRestriction(memo);
+    if (earmark && requested && requested !== earmark) {
+      throw new DonationError(
+        'restriction_mismatch',
+        `The donor earmarked transaction ${txHash} for ${earmark}; it can't be recorded as restricted to ${requested}`,
+        txHash
+      );
+    }
 
     // Use on-chain data as source of truth
     const donation = this.tracker.recordDonation({
@@ -73,89 +267,497 @@ export class TransparentFund {
       amount: verified.amount,
       currency: verified.currency,
       timestamp: verified.timestamp,
-      memo
+      memo: verified.memo ?? memo,
+      restriction: earmark ?? requested
     });
     
-    console.log(`Verified & recorded donation ${donation.id}: ${verified.amount} ${verified.currency} from ${verified.from}`);
-    return { donation, verified };
+    console.log(`Verified & recorded donation ${donation.id}: ${this.tokens.formatMoney(verified)} from ${verified.from}`);
+    await this.stampValuation(donation);
+
+    // Acknowledge the gift when the wallet can sign; the donation stands either way
+    let receipt: DonationReceipt | undefined;
+    if (this.wallet?.canSignMessages()) {
+      try {
+        receipt = await this.issueReceipt(donation.id);
+      } catch (error) {
+        console.warn(`Failed to issue a receipt for ${donation.id}:`, error);
+      }
+    }
+    return { donation, verified, receipt };
+  }
+
+  /**
+   * Signed receipt for a recorded donation. Verify it with
+   * verifyReceiptSignature() offline or ChainVerifier.verifyReceipt().
+   */
+  async issueReceipt(donationId: string): Promise<DonationReceipt> {
+    if (!this.wallet) throw new Error('Wallet not connected');
+    const donation = this.tracker.getDonations().find(d => d.id === donationId);
+    if (!donation) throw new Error(`Donation ${donationId} not found`);
+    const wallet = this.wallet;
+    return createReceipt(
+      donation,
+      { address: wallet.getAddress(), network: this.config.network },
+      message => wallet.signMessage(message)
+    );
   }
 
-  // Allocate funds to a recipient
+  // Start recording inbound transfers to the fund address automatically
+  watchDonations(options: DonationWatcherOptions = {}): DonationWatcher {
+    const watcher = new DonationWatcher(this.getAddress(), this.tracker, this.verifier, {
+      cursorPath: join(dirname(this.dataPath), 'watcher-cursor.json'),
+      ...options
+    });
+    watcher.start();
+    return watcher;
+  }
+
+  /**
+   * Allocate funds to a recipient (amount in base units).
+   * Omit donationIds to let the matching strategy (FIFO by default) pick the funding.
+   * Restricted donations only fund allocations whose category matches.
+   * Not available when an approval policy is configured; use proposeAllocation().
+   */
   async allocateFunds(
     recipientAddress: string,
     recipientName: string,
-    amount: number,
-    currency: 'SOL' | 'USDC',
+    amount: bigint,
+    currency: Currency,
     purpose: string,
-    donationIds: string[]
+    donationIds?: string[],
+    options: AllocationOptions = {}
   ) {
     if (!this.wallet) throw new Error('Wallet not connected');
-
-    // Execute the transfer
-    let result;
-    if (currency === 'SOL') {
-      result = await this.wallet.transferSol(recipientAddress, amount, 'devnet');
-    } else {
-      result = await this.wallet.transferUsdc(recipientAddress, amount, 'devnet');
-    }
-
-    if (!result.success) {
-      throw new Error(`Transfer failed: ${result.error}`);
+    if (this.approvalPolicy) {
+      throw new ProposalError('approval_required', 'This fund requires approved proposals; use proposeAllocation()');
     }
+    const { strategy, category } = options;
+    this.tokens.require(currency);
 
-    // Record the allocation
-    const allocation = this.tracker.recordAllocation({
-      txHash: result.txHash!,
+    // Refuse before any money moves if the donations can't cover it
+    const plan = this.tracker.planFunding(amount, currency, { donationIds, strategy, category });
+    const allocation = await this.sendAllocation({
       to: recipientAddress,
       recipientName,
       amount,
       currency,
       purpose,
-      timestamp: new Date(),
-      donationIds
-    });
+      ...(category ? { category } : {})
+    }, plan);
 
-    console.log(`Allocated ${amount} ${currency} to ${recipientName}: ${purpose}`);
+    console.log(`Allocated ${this.tokens.formatMoney({ amount, currency })} to ${recipientName}: ${purpose}`);
     return allocation;
   }
 
-  // Submit proof of impact
+  /**
+   * Two-phase transfer: persist an intent, send, then record the allocation.
+   * A crash in between leaves a pending intent for recoverPendingAllocations().
+   */
+  private async sendAllocation(details: Parameters<FundTracker['beginAllocation']>[0], plan: FundingPlan) {
+    if (!this.wallet) throw new Error('Wallet not connected');
+    const token = this.tokens.require(details.currency);
+    await this.assertTransferAllowed(details);
+
+    const intent = this.tracker.beginAllocation(details, plan);
+
+    // A thrown error leaves the outcome unknown, so the intent stays pending for recovery
+    const result = token.mint === null
+      ? await this.wallet.transferSol(details.to, details.amount)
+      : await this.wallet.transferToken(details.to, details.amount, token);
+
+    if (!result.success) {
+      this.tracker.abandonIntent(intent.id, `Transfer failed: ${result.error}`);
+      throw new Error(`Transfer failed: ${result.error}`);
+    }
+
+    this.tracker.markIntentSent(intent.id, result.txHash!);
+    const allocation = this.tracker.finalizeIntent(intent.id, result.txHash!);
+    await this.stampValuation(allocation);
+    return allocation;
+  }
+
+  /**
+   * Record a donation's or allocation's USD value at its timestamp. A missing
+   * price never blocks the ledger: the record stays unvalued for backfillValuations().
+   */
+  private async stampValuation(record: Donation | Allocation): Promise<boolean> {
+    if (!this.priceSource || record.valuation) return false;
+    try {
+      const valuation = await valuate(this.priceSource, record.amount, record.currency, record.timestamp, this.tokens.require(record.currency).decimals);
+      if (!valuation) {
+        console.warn(`No ${record.currency} price at ${record.timestamp.toISOString()} for ${record.id}`);
+        return false;
+      }
+      this.tracker.recordValuation(record.id, valuation);
+      return true;
+    } catch (error) {
+      console.warn(`Failed to value ${record.id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Value every donation and allocation that has no valuation yet: ones the
+   * watcher or intent recovery recorded, or ones from before a price source
+   * was configured. Returns how many were stamped.
+   */
+  async backfillValuations(): Promise<number> {
+    if (!this.priceSource) throw new Error('No price source configured');
+    let stamped = 0;
+    for (const record of [...this.tracker.getDonations(), ...this.tracker.getAllocations()]) {
+      if (await this.stampValuation(record)) stamped++;
+    }
+    return stamped;
+  }
+
+  // Enforce the network's per-transfer cap and confirmation requirement
+  private async assertTransferAllowed(details: Omit<TransferRequest, 'network' | 'decimals'>): Promise<void> {
+    assertWithinTransferCap(this.config, details.amount, details.currency);
+    if (!this.config.confirmTransfers) return;
+
+    if (!this.confirmTransfer) {
+      throw new NetworkError(
+        'transfer_not_confirmed',
+        `Transfers on ${this.config.network} need confirmation; pass confirmTransfer or set confirmTransfers: false`
+      );
+    }
+    const { to, recipientName, amount, currency, purpose } = details;
+    const decimals = this.tokens.require(currency).decimals;
+    if (!(await this.confirmTransfer({ network: this.config.network, to, recipientName, amount, currency, decimals, purpose }))) {
+      throw new NetworkError('transfer_not_confirmed', `Transfer of ${this.tokens.formatMoney(details)} to ${recipientName} was not confirmed`);
+    }
+  }
+
+  /**
+   * Resolve allocation intents left pending by a crash or a failed wallet call,
+   * finalizing those whose transfer is on-chain. Runs on connectWallet().
+   */
+  async recoverPendingAllocations(options: IntentRecoveryOptions = {}): Promise<IntentRecoveryReport> {
+    const report = await recoverIntents(this.tracker, this.verifier, this.getAddress(), options);
+    for (const { intentId, txHash } of report.finalized) {
+      console.log(`Recovered allocation intent ${intentId} from ${txHash}`);
+    }
+    for (const { intentId, reason } of report.abandoned) {
+      console.warn(`Abandoned allocation intent ${intentId}: ${reason}`);
+    }
+    return report;
+  }
+
+  /**
+   * Propose an allocation under the fund's approval policy. Nothing is sent
+   * until enough approvers sign off and executeProposal() is called.
+   */
+  proposeAllocation(proposal: NewProposal, options: { strategy?: MatchingStrategy } = {}): AllocationProposal {
+    if (!this.approvalPolicy) {
+      throw new ProposalError('invalid_policy', 'No approval policy configured for this fund');
+    }
+    this.tokens.require(proposal.currency);
+    const created = this.tracker.proposeAllocation(proposal, this.approvalPolicy, options);
+    console.log(`Proposed ${this.tokens.formatMoney(created)} to ${created.recipientName} (${created.id}), needs ${created.requiredApprovals} approval(s)`);
+    return created;
+  }
+
+  approveProposal(proposalId: string, approver: string, note?: string): AllocationProposal {
+    return this.tracker.approveProposal(proposalId, approver, note);
+  }
+
+  rejectProposal(proposalId: string, approver: string, reason: string): AllocationProposal {
+    return this.tracker.rejectProposal(proposalId, approver, reason);
+  }
+
+  // Send the transfer for a fully approved proposal and record the allocation
+  async executeProposal(proposalId: string) {
+    if (!this.wallet) throw new Error('Wallet not connected');
+
+    const proposal = this.tracker.assertExecutable(proposalId);
+    const allocation = await this.sendAllocation({
+      to: proposal.to,
+      recipientName: proposal.recipientName,
+      amount: proposal.amount,
+      currency: proposal.currency,
+      purpose: proposal.purpose,
+      ...(proposal.category ? { category: proposal.category } : {}),
+      proposalId
+    }, proposal);
+
+    console.log(`Executed proposal ${proposalId}: ${this.tokens.formatMoney(proposal)} to ${proposal.recipientName}`);
+    return allocation;
+  }
+
+  /**
+   * Commit to a grant paid in milestone tranches. Nothing is sent yet, but
+   * the whole amount is held back from other allocations.
+   */
+  createGrant(grant: NewGrant, options: { strategy?: MatchingStrategy } = {}): Grant {
+    if (this.approvalPolicy) {
+      throw new ProposalError('approval_required', 'This fund requires approved proposals; grants would bypass them');
+    }
+    this.tokens.require(grant.currency);
+    const created = this.tracker.createGrant(grant, options);
+    console.log(`Committed ${this.tokens.formatMoney(created)} to ${created.recipientName} over ${created.milestones.length} milestone(s) (${created.id})`);
+    return created;
+  }
+
+  /**
+   * Send the next tranche of a grant. The first goes out on request; each
+   * later one needs a verified proof for the milestone before it.
+   */
+  async releaseNextTranche(grantId: string) {
+    if (!this.wallet) throw new Error('Wallet not connected');
+    const { milestone, plan } = this.tracker.planTranche(grantId);
+    const grant = this.tracker.getGrant(grantId)!;
+    const { description, amount } = grant.milestones[milestone];
+
+    const allocation = await this.sendAllocation({
+      to: grant.to,
+      recipientName: grant.recipientName,
+      amount,
+      currency: grant.currency,
+      purpose: `${grant.purpose} (milestone ${milestone + 1}: ${description})`,
+      ...(grant.category ? { category: grant.category } : {}),
+      grantId,
+      milestone
+    }, plan);
+
+    console.log(`Released milestone ${milestone + 1} of ${grantId}: ${this.tokens.formatMoney(allocation)} to ${grant.recipientName}`);
+    return allocation;
+  }
+
+  // Stop a grant and return its unreleased commitment to the pool
+  cancelGrant(grantId: string, reason: string): Grant {
+    const grant = this.tracker.cancelGrant(grantId, reason);
+    console.log(`Cancelled grant ${grantId}: ${reason}`);
+    return grant;
+  }
+
+  /**
+   * Record money a recipient or project sent back for an allocation, verified
+   * on-chain. The transfer must come from the allocation's recipient; it goes
+   * back to the donations that funded the allocation.
+   */
+  async recordReturn(
+    txHash: string,
+    allocationId: string,
+    reason: string,
+    kind: 'recipient_return' | 'project_refund' = 'recipient_return'
+  ): Promise<Refund> {
+    const verified = await this.verifier.verifyTransaction(txHash, this.getAddress());
+    if (!verified) {
+      throw new Error(`Transaction ${txHash} not found or failed on-chain`);
+    }
+    if (verified.to !== this.getAddress()) {
+      throw new RefundError('wrong_counterparty', `Transaction ${txHash} does not pay the fund`);
+    }
+
+    const refund = this.tracker.recordRefund({
+      kind,
+      txHash,
+      from: verified.from,
+      to: verified.to,
+      amount: verified.amount,
+      currency: verified.currency,
+      allocationId,
+      reason,
+      timestamp: verified.timestamp
+    });
+    console.log(`Recorded return ${refund.id}: ${this.tokens.formatMoney(refund)} back from allocation ${allocationId}`);
+    return refund;
+  }
+
+  /**
+   * Send a donor back unspent money from their donation (all of what is left
+   * by default) and record the refund. Goes through a write-ahead intent like
+   * allocations, so the amount is reserved while the transfer is in flight and
+   * a crash is resolved by recoverPendingAllocations().
+   */
+  async refundDonor(donationId: string, reason: string, amount?: bigint): Promise<Refund> {
+    if (!this.wallet) throw new Error('Wallet not connected');
+    if (this.approvalPolicy) {
+      throw new ProposalError('approval_required', 'This fund requires approved proposals; refunds would bypass them');
+    }
+    const donation = this.tracker.getDonations().find(d => d.id === donationId);
+    if (!donation) {
+      throw new RefundError('unknown_donation', `Donation ${donationId} does not exist`);
+    }
+    const token = this.tokens.require(donation.currency);
+    const details = {
+      kind: 'donor_refund' as const,
+      from: this.getAddress(),
+      to: donation.from,
+      amount: amount ?? this.tracker.getDonationBalance(donationId),
+      currency: donation.currency,
+      donationId,
+      reason
+    };
+    this.tracker.planRefund(details);
+    await this.assertTransferAllowed({ ...details, recipientName: 'Donor refund', purpose: reason });
+
+    const intent = this.tracker.beginRefund(details);
+
+    // A thrown error leaves the outcome unknown, so the intent stays pending for recovery
+    const result = token.mint === null
+      ? await this.wallet.transferSol(details.to, details.amount)
+      : await this.wallet.transferToken(details.to, details.amount, token);
+    if (!result.success) {
+      this.tracker.abandonIntent(intent.id, `Transfer failed: ${result.error}`);
+      throw new Error(`Transfer failed: ${result.error}`);
+    }
+
+    this.tracker.markIntentSent(intent.id, result.txHash!);
+    const refund = this.tracker.finalizeRefundIntent(intent.id, result.txHash!);
+    console.log(`Refunded ${this.tokens.formatMoney(refund)} to ${donation.from} from ${donationId}: ${reason}`);
+    return refund;
+  }
+
+  /**
+   * Submit proof of impact. `signature` is the recipient wallet's signature
+   * over proofMessage({ allocationId, description, evidenceHashes, signedAt });
+   * each signature is accepted once
+   */
   submitProofOfImpact(
     allocationId: string,
     recipientAddress: string,
     description: string,
-    evidenceLinks: string[]
+    evidenceLinks: string[],
+    signature: string,
+    signedAt: string,
+    evidenceHashes: string[] = []
   ) {
     const proof = this.tracker.submitProof({
       allocationId,
       recipientAddress,
       description,
       evidenceLinks,
+      evidenceHashes,
+      signature,
+      signedAt,
       timestamp: new Date()
     });
     console.log(`Proof submitted for allocation ${allocationId}`);
     return proof;
   }
 
-  // Get human-readable fund summary
+  // Throw unless every hash names a file in the evidence store
+  async assertEvidenceStored(evidenceHashes: string[]): Promise<void> {
+    for (const hash of evidenceHashes) {
+      if (!await this.evidence.has(hash)) {
+        throw new ProofError('missing_evidence', `No evidence file is stored under ${hash}; upload it before submitting the proof`);
+      }
+    }
+  }
+
+  /**
+   * Re-hash every evidence file a proof references. Valid when each one is
+   * still stored and still hashes to what the recipient signed.
+   */
+  async checkProofEvidence(proofId: string): Promise<EvidenceReport> {
+    const proof = this.tracker.getProofs().find(p => p.id === proofId);
+    if (!proof) throw new ProofError('unknown_proof', `Proof ${proofId} does not exist`, proofId);
+
+    const files = [];
+    for (const hash of proof.evidenceHashes) {
+      files.push(await checkEvidence(this.evidence, hash));
+    }
+    return { proofId, valid: files.every(file => file.status === 'ok'), files };
+  }
+
+  // Move a proof through review: under_review, then verified, rejected or needs_more_info
+  reviewProof(proofId: string, status: ProofStatus, reviewer: string, note?: string): ProofOfImpact {
+    const proof = this.tracker.reviewProof(proofId, status, reviewer, note);
+    console.log(`Proof ${proofId} is now ${status} (${reviewer})`);
+    return proof;
+  }
+
+  /**
+   * Publish the Merkle root of the audit log as a memo transaction.
+   * Returns null when nothing has been logged since the last anchor.
+   */
+  async anchorAuditLog(): Promise<AuditAnchor | null> {
+    if (!this.wallet) throw new Error('Wallet not connected');
+
+    const pending = this.tracker.prepareAnchor();
+    if (!pending) return null;
+
+    const result = await this.wallet.sendMemo(formatAnchorMemo(pending));
+    if (!result.success) {
+      throw new Error(`Anchor memo failed: ${result.error}`);
+    }
+
+    const anchor = this.tracker.recordAnchor({
+      ...pending,
+      txHash: result.txHash!,
+      network: this.config.network,
+      timestamp: new Date()
+    });
+
+    console.log(`Anchored audit entries ${anchor.fromSeq}-${anchor.toSeq} in ${anchor.txHash}`);
+    return anchor;
+  }
+
+  // Anchor the audit log on a fixed interval; returns a function that stops it
+  startAnchoring(intervalMs: number = 60 * 60 * 1000): () => void {
+    const timer = setInterval(() => {
+      this.anchorAuditLog().catch(error => {
+        console.error('Failed to anchor audit log:', error);
+      });
+    }, intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  // Inclusion proof for a donation, allocation or proof against the latest anchor
+  getInclusionProof(recordId: string): InclusionProof | null {
+    return this.tracker.getInclusionProof(recordId);
+  }
+
+  /**
+   * Compare the ledger with the wallet's balances and full on-chain history
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    if (!this.wallet) throw new Error('Wallet not connected');
+
+    const address = this.wallet.getAddress();
+    const [balances, history] = await Promise.all([
+      this.wallet.getBalances(),
+      this.verifier.getAccountHistory(address)
+    ]);
+
+    return reconcile(this.tracker, address, balances, history.transfers, history.costs);
+  }
+
+  // Get human-readable fund summary (exact decimal strings), one entry per registry token
   getSummary() {
-    const sol = this.tracker.getSummary('SOL');
-    const usdc = this.tracker.getSummary('USDC');
+    const restricted = (summary: FundSummary) => Object.fromEntries(
+      Object.entries(summary.restricted).map(([category, b]) => [category, {
+        received: this.tokens.format(b.received, summary.currency),
+        allocated: this.tokens.format(b.allocated, summary.currency),
+        committed: this.tokens.format(b.committed, summary.currency),
+        remaining: this.tokens.format(b.remaining, summary.currency)
+      }])
+    );
+    
+    const summaries = this.tokens.symbols().map(symbol => this.tracker.getSummary(symbol));
+    const counts = this.tracker.getSummary();
     
     return {
-      sol: {
-        received: sol.totalReceived,
-        allocated: sol.totalAllocated,
-        remaining: sol.totalRemaining
-      },
-      usdc: {
-        received: usdc.totalReceived,
-        allocated: usdc.totalAllocated,
-        remaining: usdc.totalRemaining
-      },
-      donations: sol.donationCount,
-      allocations: sol.allocationCount,
-      proofs: sol.proofsSubmitted
+      tokens: Object.fromEntries(summaries.map(summary => [summary.currency, {
+        received: this.tokens.format(summary.totalReceived, summary.currency),
+        allocated: this.tokens.format(summary.totalAllocated, summary.currency),
+        remaining: this.tokens.format(summary.totalRemaining, summary.currency),
+        committed: this.tokens.format(summary.totalCommitted, summary.currency), // held for unreleased grant tranches
+        available: this.tokens.format(summary.totalRemaining - summary.totalCommitted, summary.currency),
+        returned: this.tokens.format(summary.totalReturned, summary.currency),
+        refunded: this.tokens.format(summary.totalRefunded, summary.currency),
+        restricted: restricted(summary),
+        usd: {
+          received: formatUsd(summary.fiat.receivedUsd),
+          allocated: formatUsd(summary.fiat.allocatedUsd),
+          realizedGain: formatUsd(summary.fiat.realizedGainUsd),
+          unvalued: summary.fiat.unvalued
+        }
+      }])),
+      donations: counts.donationCount,
+      allocations: counts.allocationCount,
+      proofs: counts.proofsSubmitted
     };
   }
 
@@ -177,47 +779,236 @@ export class TransparentFund {
         const d = entry.data as any;
         md += `**Donation Received**\n`;
         md += `- From: \`${d.from}\`\n`;
-        md += `- Amount: ${d.amount} ${d.currency}\n`;
+        md += `- Amount: ${this.tokens.formatMoney(d)}\n`;
         md += `- TX: \`${d.txHash}\`\n`;
         if (d.memo) md += `- Memo: ${d.memo}\n`;
+        if (d.restriction) md += `- Restricted to: ${d.restriction}\n`;
+        if (d.valuation) md += `- Value at gift: ${describeValuation(d, this.tokens)}\n`;
       }
       
       if (entry.type === 'allocation') {
         const a = entry.data as any;
         md += `**Funds Allocated**\n`;
         md += `- To: ${a.recipientName} (\`${a.to}\`)\n`;
-        md += `- Amount: ${a.amount} ${a.currency}\n`;
+        md += `- Amount: ${this.tokens.formatMoney(a)}\n`;
         md += `- Purpose: ${a.purpose}\n`;
+        if (a.category) md += `- Category: ${a.category}\n`;
+        if (a.grantId) md += `- Grant: \`${a.grantId}\`, milestone ${a.milestone + 1}\n`;
+        md += `- Matching: ${a.matchingStrategy}\n`;
+        for (const share of a.funding) {
+          md += `- Funded by: \`${share.donationId}\` (${this.tokens.formatMoney({ amount: share.amount, currency: a.currency })})\n`;
+        }
+        if (a.valuation) md += `- Value at transfer: ${describeValuation(a, this.tokens)}\n`;
         md += `- TX: \`${a.txHash}\`\n`;
       }
       
       if (entry.type === 'proof') {
-        const p = entry.data as any;
+        const p = entry.data as ProofOfImpact;
         md += `**Proof of Impact**\n`;
         md += `- For Allocation: \`${p.allocationId}\`\n`;
         md += `- Description: ${p.description}\n`;
         md += `- Evidence: ${p.evidenceLinks.join(', ')}\n`;
-        md += `- Verified: ${p.verified ? '✅' : '⏳'}\n`;
+        if (p.evidenceHashes.length > 0) {
+          md += `- Evidence hashes: ${p.evidenceHashes.map(hash => `\`${hash}\``).join(', ')}\n`;
+        }
+        md += `- Signed: ${p.signature ? `by recipient \`${p.recipientAddress}\`` : 'no (submitted before signatures were required)'}\n`;
+        md += `- Review: ${describeReviewOutcome(p)}\n`;
+        for (const review of p.reviews) {
+          md += `  - ${review.timestamp.toISOString()}: ${review.from} → ${review.to} by ${review.by}${review.note ? ` (${review.note})` : ''}\n`;
+        }
+      }
+
+      if (entry.type === 'proposal') {
+        const p = entry.data as AllocationProposal;
+        md += `**Allocation Proposed**\n`;
+        md += `- To: ${p.recipientName} (\`${p.to}\`)\n`;
+        md += `- Amount: ${this.tokens.formatMoney(p)}\n`;
+        md += `- Purpose: ${p.purpose}\n`;
+        md += `- Proposed by: ${p.proposedBy}\n`;
+        md += `- Status: ${p.status} (${p.approvals.length} of ${p.requiredApprovals} approvals)\n`;
+        for (const approval of p.approvals) {
+          md += `- Approved by: ${approval.approver} at ${approval.timestamp.toISOString()}${approval.note ? ` (${approval.note})` : ''}\n`;
+        }
+        if (p.rejection) md += `- Rejected by: ${p.rejection.approver}: ${p.rejection.reason}\n`;
+        if (p.allocationId) md += `- Allocation: \`${p.allocationId}\`\n`;
+      }
+
+      if (entry.type === 'grant') {
+        const g = entry.data as Grant;
+        md += `**Grant Committed**\n`;
+        md += `- To: ${g.recipientName} (\`${g.to}\`)\n`;
+        md += `- Total: ${this.tokens.formatMoney(g)}\n`;
+        md += `- Purpose: ${g.purpose}\n`;
+        md += `- Status: ${g.status}\n`;
+        g.milestones.forEach((m, i) => {
+          const released = m.allocationId ? `released in \`${m.allocationId}\`` : 'not released';
+          md += `- Milestone ${i + 1}: ${m.description} (${this.tokens.formatMoney({ amount: m.amount, currency: g.currency })}, ${released})\n`;
+        });
+        if (g.cancellation) md += `- Cancelled: ${g.cancellation.reason}\n`;
+      }
+
+      if (entry.type === 'refund') {
+        const r = entry.data as Refund;
+        md += r.kind === 'donor_refund' ? `**Donor Refunded**\n` : `**Funds Returned** (${r.kind === 'project_refund' ? 'project refund' : 'recipient return'})\n`;
+        md += `- From: \`${r.from}\`\n`;
+        md += `- To: \`${r.to}\`\n`;
+        md += `- Amount: ${this.tokens.formatMoney(r)}\n`;
+        md += r.donationId ? `- Donation: \`${r.donationId}\`\n` : `- Allocation: \`${r.allocationId}\`\n`;
+        md += `- Reason: ${r.reason}\n`;
+        for (const share of r.funding) {
+          md += `- ${r.kind === 'donor_refund' ? 'Taken from' : 'Back to'}: \`${share.donationId}\` (${this.tokens.formatMoney({ amount: share.amount, currency: r.currency })})\n`;
+        }
+        md += `- TX: \`${r.txHash}\`\n`;
       }
       
       md += '\n---\n\n';
     }
+
+    const valued = this.tokens.symbols()
+      .map(symbol => this.tracker.getSummary(symbol))
+      .filter(summary => summary.fiat.receivedUsd !== 0n || summary.fiat.allocatedUsd !== 0n);
+    if (valued.length > 0) {
+      md += '## Totals\n\n';
+      md += '| Currency | Received | Allocated | Received (USD at gift) | Allocated (USD at transfer) | Realized gain/loss (USD) |\n';
+      md += '|---|---|---|---|---|---|\n';
+      for (const summary of valued) {
+        md += `| ${summary.currency} | ${this.tokens.format(summary.totalReceived, summary.currency)} | ${this.tokens.format(summary.totalAllocated, summary.currency)} `
+          + `| $${formatUsd(summary.fiat.receivedUsd)} | $${formatUsd(summary.fiat.allocatedUsd)} | $${formatUsd(summary.fiat.realizedGainUsd)} |\n`;
+      }
+      const unvalued = valued.reduce((sum, summary) => sum + summary.fiat.unvalued, 0);
+      if (unvalued > 0) md += `\n*${unvalued} record(s) have no USD valuation and are left out of the USD columns.*\n`;
+    }
     
     return md;
   }
 }
 
+// Ask on the terminal before any transfer leaves the wallet
+async function promptTransfer(request: TransferRequest): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(
+      `Send ${formatMoney(request, request.decimals)} to ${request.recipientName} (${request.to}) on ${request.network}? Type "yes" to confirm: `
+    );
+    return answer.trim().toLowerCase() === 'yes';
+  } finally {
+    rl.close();
+  }
+}
+
+// "❌ Rejected by auditor: photos are of another site"
+function describeReviewOutcome(proof: ProofOfImpact): string {
+  const last = proof.reviews[proof.reviews.length - 1];
+  const why = last?.note ? `: ${last.note}` : '';
+  switch (proof.status) {
+    case 'submitted': return last ? `⏳ Resubmitted, awaiting review${why}` : '⏳ Awaiting review';
+    case 'under_review': return `🔍 Under review by ${last.by}`;
+    case 'verified': return last ? `✅ Verified by ${last.by}${why}` : '✅ Verified';
+    case 'rejected': return `❌ Rejected by ${last.by}${why}`;
+    case 'needs_more_info': return `❓ More information requested by ${last.by}${why}`;
+  }
+}
+
+// "$142.50 (1.5 SOL at $95 per SOL, prices.csv)"
+function describeValuation(record: Donation | Allocation, tokens: TokenRegistry): string {
+  const { usd, price, source } = record.valuation!;
+  return `$${formatUsd(usd)} (${tokens.formatMoney(record)} at $${price} per ${record.currency}, ${source})`;
+}
+
 // CLI entry point
 async function main() {
-  const fund = new TransparentFund();
+  // --network <devnet|mainnet> overrides EVE_FUND_NETWORK
+  const args = process.argv.slice(2);
+  const flag = args.indexOf('--network');
+  const network = (flag >= 0 ? args.splice(flag, 2)[1] : process.env.EVE_FUND_NETWORK) || 'devnet';
+  if (network !== 'devnet' && network !== 'mainnet') {
+    console.error(`Unknown network: ${network}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // EVE_FUND_PRICES values records from a timestamp,currency,usd CSV
+  const priceSource = process.env.EVE_FUND_PRICES ? await CsvPriceSource.fromFile(process.env.EVE_FUND_PRICES) : undefined;
+  const fund = new TransparentFund({ network, rpcUrl: process.env.EVE_FUND_RPC_URL, confirmTransfer: promptTransfer, priceSource });
+  const [command, ...rest] = args;
+
+  // EVE_FUND_KEYPAIR signs locally with a Solana CLI keypair instead of AgentWallet
+  const connect = async () => fund.connectWallet(
+    process.env.EVE_FUND_KEYPAIR ? await LocalKeypairBackend.fromFile(process.env.EVE_FUND_KEYPAIR, fund.config) : undefined
+  );
+
+  if (command === 'allocate') {
+    const [to, recipientName, amount, currency, ...purpose] = rest;
+    if (!purpose.length || !fund.tokens.get(currency)) {
+      console.error(`Usage: allocate <address> <name> <amount> <${fund.tokens.symbols().join('|')}> <purpose...>`);
+      process.exitCode = 1;
+      return;
+    }
+    await connect();
+    const allocation = await fund.allocateFunds(to, recipientName, fund.tokens.parse(amount, currency), currency, purpose.join(' '));
+    console.log(JSON.stringify(allocation, jsonReplacer, 2));
+    return;
+  }
+
+  if (command === 'receipt') {
+    const [donationId, format = 'json'] = rest;
+    if (!donationId || !['json', 'md', 'html'].includes(format)) {
+      console.error('Usage: receipt <donationId> [json|md|html]');
+      process.exitCode = 1;
+      return;
+    }
+    await connect();
+    const receipt = await fund.issueReceipt(donationId);
+    const decimals = fund.tokens.require(receipt.currency).decimals;
+    console.log(format === 'md' ? receiptToMarkdown(receipt, decimals) : format === 'html' ? receiptToHtml(receipt, decimals) : JSON.stringify(receipt, null, 2));
+    return;
+  }
+
+  if (command === 'evidence') {
+    const [action, target, contentType] = rest;
+    if (action === 'add' && target) {
+      const stored = await fund.evidence.put(new Uint8Array(await readFile(target)), { filename: basename(target), contentType });
+      console.log(JSON.stringify(stored, null, 2));
+      return;
+    }
+    if (action === 'check' && target) {
+      const report = await fund.checkProofEvidence(target);
+      console.log(JSON.stringify(report, null, 2));
+      process.exitCode = report.valid ? 0 : 1;
+      return;
+    }
+    console.error('Usage: evidence add <file> [contentType] | evidence check <proofId>');
+    process.exitCode = 1;
+    return;
+  }
+
+  if (command === 'backfill-prices') {
+    if (!priceSource) {
+      console.error('Set EVE_FUND_PRICES to a price CSV first');
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`Valued ${await fund.backfillValuations()} record(s)`);
+    return;
+  }
+
+  if (command === 'reconcile') {
+    await connect();
+    const report = await fund.reconcile();
+    console.log(JSON.stringify(report, jsonReplacer, 2));
+    process.exitCode = report.reconciled ? 0 : 1;
+    return;
+  }
   
   console.log('Eve Transparent Fund 🦋');
   console.log('========================\n');
+  console.log(`Network: ${fund.config.network}`);
   
   try {
-    await fund.connectWallet();
+    await connect();
     const balance = await fund.getBalance();
-    console.log(`\nBalance: ${balance.sol} SOL, ${balance.usdc} USDC`);
+    const holdings = Object.entries(balance).map(([currency, amount]) => fund.tokens.formatMoney({ amount, currency }));
+    console.log(`\nBalance: ${holdings.join(', ')}`);
     console.log(`\nAddress: ${fund.getAddress()}`);
     console.log('\nReady to receive donations!');
   } catch (error) {
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { recoverIntents } from './intent-recovery';
+import { FundTracker } from './fund-tracker';
+import { ChainVerifier, VerifiedTransaction } from './chain-verifier';
+import { Donation } from './types';
+
+const FUND = 'FundAddress111';
+
+function transfer(txHash: string, to: string, amount: bigint): VerifiedTransaction {
+  return {
+    txHash,
+    from: FUND,
+    to,
+    amount,
+    currency: 'SOL',
+    transfers: [{ from: FUND, to, amount, currency: 'SOL' }],
+    timestamp: new Date(),
+    confirmed: true,
+    slot: 1,
+    fee: 5000n,
+    feePayer: FUND
+  };
+}
+
+function fakeVerifier(history: VerifiedTransaction[]): ChainVerifier {
+  return {
+    getTransferHistory: async () => history,
+    loadTransaction: async (txHash: string) => history.find(tx => tx.txHash === txHash) || null
+  } as unknown as ChainVerifier;
+}
+
+describe('recoverIntents', () => {
+  let tracker: FundTracker;
+  let donation: Donation;
+
+  beforeEach(() => {
+    tracker = new FundTracker('./data/unused.json', false);
+    donation = tracker.recordDonation({ txHash: 'in1', from: 'donor', amount: 1_000_000_000n, currency: 'SOL', timestamp: new Date() });
+  });
+
+  const begin = (amount: bigint) => tracker.beginAllocation({
+    to: 'recipient',
+    recipientName: 'Recipient',
+    amount,
+    currency: 'SOL',
+    purpose: 'Purpose'
+  }, tracker.planFunding(amount, 'SOL'));
+
+  it('should reserve funding while an intent is pending', () => {
+    begin(600_000_000n);
+    expect(tracker.getDonationBalance(donation.id)).toBe(400_000_000n);
+    expect(() => tracker.planFunding(500_000_000n, 'SOL')).toThrow(expect.objectContaining({ code: 'insufficient_funds' }));
+  });
+
+  it('should finalize an intent whose transfer landed before the crash', async () => {
+    const intent = begin(400_000_000n);
+    const verifier = fakeVerifier([transfer('out1', 'recipient', 400_000_000n)]);
+
+    const report = await recoverIntents(tracker, verifier, FUND);
+
+    expect(report.finalized).toEqual([{ intentId: intent.id, allocationId: expect.any(String), txHash: 'out1' }]);
+    const [allocation] = tracker.getAllocations();
+    expect(allocation).toMatchObject({ txHash: 'out1', intentId: intent.id, amount: 400_000_000n });
+    expect(tracker.getDonationBalance(donation.id)).toBe(600_000_000n);
+    expect(tracker.getPendingIntents()).toHaveLength(0);
+    expect(tracker.verifyIntegrity().valid).toBe(true);
+  });
+
+  it('should look up a known signature directly', async () => {
+    const intent = begin(400_000_000n);
+    tracker.markIntentSent(intent.id, 'out1');
+
+    const report = await recoverIntents(tracker, fakeVerifier([transfer('out1', 'recipient', 400_000_000n)]), FUND);
+    expect(report.finalized.map(f => f.txHash)).toEqual(['out1']);
+  });
+
+  it('should wait out the grace period, then abandon intents with no transfer', async () => {
+    const intent = begin(400_000_000n);
+    const verifier = fakeVerifier([transfer('other', 'someone-else', 400_000_000n)]);
+
+    expect((await recoverIntents(tracker, verifier, FUND)).pending).toEqual([intent.id]);
+
+    const later = new Date(Date.now() + 60 * 60 * 1000);
+    const report = await recoverIntents(tracker, verifier, FUND, { now: later });
+    expect(report.abandoned.map(a => a.intentId)).toEqual([intent.id]);
+    expect(tracker.getIntent(intent.id)!.status).toBe('abandoned');
+    expect(tracker.getDonationBalance(donation.id)).toBe(1_000_000_000n);
+    expect(tracker.getAllocations()).toHaveLength(0);
+  });
+
+  it('should close an intent whose allocation was recorded before the crash', async () => {
+    const intent = begin(400_000_000n);
+    // The crash window: allocation saved, intent not yet closed
+    tracker.recordAllocation({
+      txHash: 'out1',
+      to: 'recipient',
+      recipientName: 'Recipient',
+      amount: 400_000_000n,
+      currency: 'SOL',
+      purpose: 'Purpose',
+      timestamp: new Date(),
+      intentId: intent.id
+    });
+
+    const report = await recoverIntents(tracker, fakeVerifier([]), FUND);
+
+    expect(report.finalized.map(f => f.txHash)).toEqual(['out1']);
+    expect(tracker.getAllocations()).toHaveLength(1);
+    expect(tracker.getDonationBalance(donation.id)).toBe(600_000_000n);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Intent recovery - resolves allocation intents left pending by a crash
+ *
+ * An intent is written before every outgoing transfer, allocations and donor
+ * refunds alike. If the process dies before the allocation or refund is
+ * recorded, the chain is the only witness: a
+ * matching outgoing transfer finalizes the intent, and once the grace
+ * period has passed with no such transfer the intent is abandoned.
+ */
+
+import { FundTracker } from './fund-tracker';
+import { ChainVerifier, VerifiedTransaction } from './chain-verifier';
+import { AllocationIntent } from './types';
+
+// Slack between our clock and block time when matching transfers to intents
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface IntentRecoveryOptions {
+  graceMs?: number; // how long a transfer may take to show up before its intent is abandoned (default 10 minutes)
+  now?: Date;
+}
+
+export interface IntentRecoveryReport {
+  finalized: Array<{ intentId: string; allocationId?: string; refundId?: string; txHash: string }>;
+  abandoned: Array<{ intentId: string; reason: string }>;
+  pending: string[]; // still too recent to decide
+}
+
+/**
+ * Resolve every pending intent against the fund's on-chain history
+ *
+ * @param tracker - The ledger
+ * @param verifier - Chain access for looking up transfers
+ * @param fundAddress - The fund's wallet address
+ */
+export async function recoverIntents(
+  tracker: FundTracker,
+  verifier: ChainVerifier,
+  fundAddress: string,
+  options: IntentRecoveryOptions = {}
+): Promise<IntentRecoveryReport> {
+  const { graceMs = 10 * 60 * 1000, now = new Date() } = options;
+  const report: IntentRecoveryReport = { finalized: [], abandoned: [], pending: [] };
+  const claimed = new Set<string>();
+  let history: VerifiedTransaction[] | null = null;
+
+  const finalize = (intent: AllocationIntent, txHash: string, resolution: string) => {
+    if (intent.refund) {
+      const refund = tracker.finalizeRefundIntent(intent.id, txHash, resolution);
+      report.finalized.push({ intentId: intent.id, refundId: refund.id, txHash: refund.txHash });
+    } else {
+      const allocation = tracker.finalizeIntent(intent.id, txHash, resolution);
+      report.finalized.push({ intentId: intent.id, allocationId: allocation.id, txHash: allocation.txHash });
+    }
+  };
+
+  for (const intent of tracker.getPendingIntents()) {
+    // Crashed after recording the allocation or refund but before closing the intent
+    const recorded = intent.refund
+      ? tracker.getRefunds().find(r => r.intentId === intent.id)
+      : tracker.getAllocations().find(a => a.intentId === intent.id);
+    if (recorded) {
+      finalize(intent, recorded.txHash, `${intent.refund ? 'Refund' : 'Allocation'} already recorded`);
+      continue;
+    }
+
+    const overdue = now.getTime() - intent.createdAt.getTime() > graceMs;
+
+    if (intent.txHash) {
+      const tx = await verifier.loadTransaction(intent.txHash, fundAddress);
+      if (tx && tx.from === fundAddress) {
+        finalize(intent, tx.txHash, `Recovered: transaction ${tx.txHash} confirmed on-chain`);
+      } else if (overdue) {
+        const reason = `Transaction ${intent.txHash} did not land on-chain`;
+        tracker.abandonIntent(intent.id, reason);
+        report.abandoned.push({ intentId: intent.id, reason });
+      } else {
+        report.pending.push(intent.id);
+      }
+      continue;
+    }
+
+    // The wallet never told us the signature: look for the transfer itself
+    history ??= await verifier.getTransferHistory(fundAddress);
+    const match = history.find(tx =>
+      tx.from === fundAddress &&
+      tx.to === intent.to &&
+      tx.amount === intent.amount &&
+      tx.currency === intent.currency &&
+      tx.timestamp.getTime() >= intent.createdAt.getTime() - CLOCK_SKEW_MS &&
+      !tracker.hasTransaction(tx.txHash) &&
+      !claimed.has(tx.txHash)
+    );
+
+    if (match) {
+      claimed.add(match.txHash);
+      finalize(intent, match.txHash, `Recovered: matched outgoing transfer ${match.txHash}`);
+    } else if (overdue) {
+      const reason = 'No matching outgoing transfer found on-chain';
+      tracker.abandonIntent(intent.id, reason);
+      report.abandoned.push({ intentId: intent.id, reason });
+    } else {
+      report.pending.push(intent.id);
+    }
+  }
+
+  return report;
+}
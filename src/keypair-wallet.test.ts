@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { Keypair, PublicKey, SystemInstruction, Transaction } from '@solana/web3.js';
+import { LocalKeypairBackend, KeypairConnection, TOKEN_PROGRAM_ID, associatedTokenAddress } from './keypair-wallet';
+import { NETWORK_DEFAULTS } from './network';
+import { TransparentFund } from './index';
+
+const USDC = NETWORK_DEFAULTS.devnet.tokens.find(t => t.symbol === 'USDC')!;
+
+function fakeConnection(options: { confirmError?: Error } = {}) {
+  const sent: Transaction[] = [];
+  const connection = {
+    getBalance: async () => 2_000_000_000,
+    getParsedTokenAccountsByOwner: async () => ({
+      context: { slot: 1 },
+      value: [{ account: { data: { parsed: { info: { mint: USDC.mint, tokenAmount: { amount: '2500000' } } } } } }]
+    }),
+    getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 }),
+    sendRawTransaction: async (raw: Buffer) => {
+      sent.push(Transaction.from(raw));
+      return `sig_${sent.length}`;
+    },
+    confirmTransaction: async () => {
+      if (options.confirmError) throw options.confirmError;
+      return { context: { slot: 1 }, value: { err: null } };
+    },
+    requestAirdrop: async () => 'airdrop_sig'
+  } as unknown as KeypairConnection;
+  return { connection, sent };
+}
+
+describe('LocalKeypairBackend', () => {
+  const keypair = Keypair.generate();
+  const recipient = Keypair.generate().publicKey;
+
+  it('should sign and send SOL transfers itself', async () => {
+    const { connection, sent } = fakeConnection();
+    const backend = new LocalKeypairBackend(keypair, 'devnet', connection);
+
+    const result = await backend.transferSol(recipient.toBase58(), 250_000_000n);
+
+    expect(result).toEqual({ success: true, txHash: 'sig_1' });
+    expect(sent[0].verifySignatures()).toBe(true);
+    expect(SystemInstruction.decodeTransfer(sent[0].instructions[0])).toEqual({
+      fromPubkey: keypair.publicKey,
+      toPubkey: recipient,
+      lamports: 250_000_000n
+    });
+  });
+
+  it('should send USDC between associated token accounts', async () => {
+    const { connection, sent } = fakeConnection();
+    const backend = new LocalKeypairBackend(keypair, 'devnet', connection);
+
+    await backend.transferToken(recipient.toBase58(), 1_500_000n, USDC);
+
+    const mint = new PublicKey(USDC.mint!);
+    const transfer = sent[0].instructions[1];
+    expect(transfer.programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+    expect(transfer.keys[0].pubkey.equals(associatedTokenAddress(keypair.publicKey, mint))).toBe(true);
+    expect(transfer.keys[2].pubkey.equals(associatedTokenAddress(recipient, mint))).toBe(true);
+    expect(transfer.data.readBigUInt64LE(1)).toBe(1_500_000n);
+    expect(transfer.data.readUInt8(9)).toBe(6);
+  });
+
+  it('should read balances in base units', async () => {
+    const backend = new LocalKeypairBackend(keypair, 'devnet', fakeConnection().connection);
+    expect(await backend.getBalances()).toEqual({ SOL: 2_000_000_000n, USDC: 2_500_000n });
+  });
+
+  it('should throw when a submitted transfer cannot be confirmed', async () => {
+    const { connection } = fakeConnection({ confirmError: new Error('block height exceeded') });
+    const backend = new LocalKeypairBackend(keypair, 'devnet', connection);
+
+    await expect(backend.transferSol(recipient.toBase58(), 1n)).rejects.toThrow('block height exceeded');
+  });
+
+  it('should refuse a wallet on a different network from the fund', async () => {
+    const fund = new TransparentFund({ autoSave: false });
+    const backend = new LocalKeypairBackend(keypair, NETWORK_DEFAULTS.mainnet, fakeConnection().connection);
+
+    await expect(fund.connectWallet(backend)).rejects.toThrow(expect.objectContaining({ code: 'network_mismatch' }));
+    await fund.connectWallet(new LocalKeypairBackend(keypair, 'devnet', fakeConnection().connection));
+    expect(fund.getAddress()).toBe(keypair.publicKey.toBase58());
+  });
+});
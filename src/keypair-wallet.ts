@@ -0,0 +1,202 @@
+/**
+ * Local keypair wallet backend
+ *
+ * Builds and signs transfers with @solana/web3.js and sends them straight to
+ * the configured RPC endpoint, so the fund can run against
+ * solana-test-validator (or any cluster) without a hosted custodian.
+ */
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction
+} from '@solana/web3.js';
+import { Network } from './types';
+import { NetworkConfig, NETWORK_DEFAULTS } from './network';
+import { TokenInfo, TokenRegistry, NATIVE_SOL } from './tokens';
+import type { Balance, TransferResult, WalletBackend } from './wallet';
+import { signMessage } from './signing';
+
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+// The RPC calls the backend makes, so a local fake can stand in
+export type KeypairConnection = Pick<
+  Connection,
+  'getBalance' | 'getParsedTokenAccountsByOwner' | 'getLatestBlockhash' | 'sendRawTransaction' | 'confirmTransaction' | 'requestAirdrop'
+>;
+
+// The token program that owns a registry token's mint
+export function tokenProgramId(token: TokenInfo): PublicKey {
+  return token.program === 'spl-token-2022' ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+}
+
+// Address of an owner's associated token account for a mint
+export function associatedTokenAddress(owner: PublicKey, mint: PublicKey, programId: PublicKey = TOKEN_PROGRAM_ID): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), programId.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  )[0];
+}
+
+export class LocalKeypairBackend implements WalletBackend {
+  private keypair: Keypair;
+  private network: NetworkConfig;
+  private tokens: TokenRegistry;
+  private connection: KeypairConnection;
+
+  constructor(keypair: Keypair, network: Network | NetworkConfig = 'devnet', connection?: KeypairConnection) {
+    this.keypair = keypair;
+    this.network = typeof network === 'string' ? NETWORK_DEFAULTS[network] : network;
+    this.tokens = new TokenRegistry(this.network.tokens);
+    this.connection = connection || new Connection(this.network.rpcUrl, 'confirmed');
+  }
+
+  // Load a Solana CLI keypair file (a JSON array of secret key bytes)
+  static async fromFile(keypairPath?: string, network: Network | NetworkConfig = 'devnet'): Promise<LocalKeypairBackend> {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    const os = await import('os');
+
+    const file = keypairPath || path.join(os.homedir(), '.config', 'solana', 'id.json');
+    const secretKey = Uint8Array.from(JSON.parse(await fs.readFile(file, 'utf-8')));
+    return new LocalKeypairBackend(Keypair.fromSecretKey(secretKey), network);
+  }
+
+  getAddress(): string {
+    return this.keypair.publicKey.toBase58();
+  }
+
+  getNetwork(): Network {
+    return this.network.network;
+  }
+
+  // One token-account query per token program in use, totalled by mint
+  async getBalances(): Promise<Balance> {
+    const owner = this.keypair.publicKey;
+    const programs = [...new Set(this.tokens.splTokens().map(t => tokenProgramId(t).toBase58()))];
+    const [lamports, ...accountLists] = await Promise.all([
+      this.connection.getBalance(owner, 'confirmed'),
+      ...programs.map(programId => this.connection.getParsedTokenAccountsByOwner(owner, { programId: new PublicKey(programId) }))
+    ]);
+
+    const balances: Balance = Object.fromEntries(this.tokens.symbols().map(symbol => [symbol, 0n]));
+    balances[NATIVE_SOL.symbol] = BigInt(lamports);
+    for (const { account } of accountLists.flatMap(list => list.value)) {
+      const { mint, tokenAmount } = account.data.parsed.info;
+      const token = this.tokens.fromMint(mint);
+      if (token) balances[token.symbol] += BigInt(tokenAmount.amount);
+    }
+    return balances;
+  }
+
+  async transferSol(to: string, lamports: bigint): Promise<TransferResult> {
+    return this.send(() => [
+      SystemProgram.transfer({ fromPubkey: this.keypair.publicKey, toPubkey: new PublicKey(to), lamports })
+    ]);
+  }
+
+  // Pays into the recipient's associated token account, creating it if needed
+  async transferToken(to: string, units: bigint, token: TokenInfo): Promise<TransferResult> {
+    return this.send(() => {
+      if (!token.mint) throw new Error(`${token.symbol} is not an SPL token`);
+      const owner = this.keypair.publicKey;
+      const recipient = new PublicKey(to);
+      const mint = new PublicKey(token.mint);
+      const programId = tokenProgramId(token);
+      const source = associatedTokenAddress(owner, mint, programId);
+      const destination = associatedTokenAddress(recipient, mint, programId);
+
+      // CreateIdempotent (1): no-op when the account already exists
+      const createDestination = new TransactionInstruction({
+        programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+        keys: [
+          { pubkey: owner, isSigner: true, isWritable: true },
+          { pubkey: destination, isSigner: false, isWritable: true },
+          { pubkey: recipient, isSigner: false, isWritable: false },
+          { pubkey: mint, isSigner: false, isWritable: false },
+          { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+          { pubkey: programId, isSigner: false, isWritable: false }
+        ],
+        data: Buffer.from([1])
+      });
+
+      // TransferChecked (12): u64 amount, u8 decimals
+      const data = Buffer.alloc(10);
+      data.writeUInt8(12, 0);
+      data.writeBigUInt64LE(units, 1);
+      data.writeUInt8(token.decimals, 9);
+      const transfer = new TransactionInstruction({
+        programId,
+        keys: [
+          { pubkey: source, isSigner: false, isWritable: true },
+          { pubkey: mint, isSigner: false, isWritable: false },
+          { pubkey: destination, isSigner: false, isWritable: true },
+          { pubkey: owner, isSigner: true, isWritable: false }
+        ],
+        data
+      });
+
+      return [createDestination, transfer];
+    });
+  }
+
+  async sendMemo(memo: string): Promise<TransferResult> {
+    return this.send(() => [
+      new TransactionInstruction({
+        programId: MEMO_PROGRAM_ID,
+        keys: [{ pubkey: this.keypair.publicKey, isSigner: true, isWritable: false }],
+        data: Buffer.from(memo, 'utf-8')
+      })
+    ]);
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return signMessage(message, this.keypair.secretKey);
+  }
+
+  // Airdrop 1 SOL; only devnet and local validators hand these out
+  async requestDevnetFaucet(): Promise<TransferResult> {
+    if (this.network.network !== 'devnet') {
+      return { success: false, error: 'The faucet is only available on devnet' };
+    }
+    try {
+      const txHash = await this.connection.requestAirdrop(this.keypair.publicKey, 1_000_000_000);
+      await this.connection.confirmTransaction(txHash, 'confirmed');
+      return { success: true, txHash };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Sign, send and confirm a transaction. Failures before the transaction is
+   * submitted are reported as results; once submitted, a confirmation error
+   * is thrown because the transfer may still land.
+   */
+  private async send(buildInstructions: () => TransactionInstruction[]): Promise<TransferResult> {
+    let submitted: { txHash: string; blockhash: string; lastValidBlockHeight: number };
+    try {
+      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+      const tx = new Transaction({ feePayer: this.keypair.publicKey, blockhash, lastValidBlockHeight })
+        .add(...buildInstructions());
+      tx.sign(this.keypair);
+      const txHash = await this.connection.sendRawTransaction(tx.serialize());
+      submitted = { txHash, blockhash, lastValidBlockHeight };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const { txHash, blockhash, lastValidBlockHeight } = submitted;
+    const confirmation = await this.connection.confirmTransaction({ signature: txHash, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (confirmation.value.err) {
+      return { success: false, txHash, error: `Transaction failed: ${JSON.stringify(confirmation.value.err)}` };
+    }
+    return { success: true, txHash };
+  }
+}
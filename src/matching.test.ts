@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FundTracker } from './fund-tracker';
+import { proRata, memoRestricted } from './matching';
+import { parseAmount } from './money';
+import { Donation } from './types';
+
+const sol = (value: string) => parseAmount(value, 'SOL');
+
+describe('Matching strategies', () => {
+  let tracker: FundTracker;
+  let donations: Donation[];
+
+  beforeEach(() => {
+    tracker = new FundTracker('./data/unused.json', false);
+    donations = [
+      { amount: '0.3', memo: 'For education' },
+      { amount: '0.6', memo: 'general' },
+      { amount: '0.1', memo: 'EDUCATION programs' }
+    ].map((d, i) => tracker.recordDonation({
+      txHash: `tx${i}`,
+      from: `donor${i}`,
+      amount: sol(d.amount),
+      currency: 'SOL',
+      timestamp: new Date(Date.UTC(2026, 1, i + 1)),
+      memo: d.memo
+    }));
+  });
+
+  const allocate = (amount: string, plan?: ReturnType<FundTracker['planFunding']>) =>
+    tracker.recordAllocation({
+      txHash: `out_${Math.random()}`,
+      to: 'recipient',
+      recipientName: 'Recipient',
+      amount: sol(amount),
+      currency: 'SOL',
+      purpose: 'Purpose',
+      timestamp: new Date()
+    }, plan);
+
+  it('should fund FIFO by default when donationIds are omitted', () => {
+    const allocation = allocate('0.5');
+
+    expect(allocation.matchingStrategy).toBe('fifo');
+    expect(allocation.funding).toEqual([
+      { donationId: donations[0].id, amount: sol('0.3') },
+      { donationId: donations[1].id, amount: sol('0.2') }
+    ]);
+  });
+
+  it('should split pro-rata across unspent donations without losing a lamport', () => {
+    const plan = tracker.planFunding(sol('0.1') + 1n, 'SOL', { strategy: proRata });
+    const allocation = allocate('0.100000001', plan);
+
+    expect(allocation.matchingStrategy).toBe('pro-rata');
+    expect(allocation.funding.map(s => s.amount)).toEqual([30_000_000n, 60_000_001n, 10_000_000n]);
+  });
+
+  it('should only draw on donations whose memo matches', () => {
+    const plan = tracker.planFunding(sol('0.35'), 'SOL', { strategy: memoRestricted('education') });
+    const allocation = allocate('0.35', plan);
+
+    expect(allocation.matchingStrategy).toBe('memo:education');
+    expect(allocation.donationIds).toEqual([donations[0].id, donations[2].id]);
+
+    // Only 0.05 of the education donations is left
+    expect(() => tracker.planFunding(sol('0.1'), 'SOL', { strategy: memoRestricted('education') }))
+      .toThrow(expect.objectContaining({ code: 'insufficient_funds' }));
+  });
+
+  it('should reject a plan that is stale by the time it is recorded', () => {
+    const plan = tracker.planFunding(sol('0.3'), 'SOL');
+    allocate('0.3');
+
+    expect(() => allocate('0.3', plan)).toThrow(expect.objectContaining({ code: 'insufficient_funds' }));
+  });
+});
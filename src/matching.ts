@@ -0,0 +1,116 @@
+/**
+ * Matching strategies - decide which donations pay for an allocation
+ *
+ * A strategy gets the candidate donations (with their unspent balances) and
+ * the amount to cover, and returns how much to draw from each. Candidates are
+ * already limited to donations the allocation may use (currency, restriction);
+ * the tracker checks the result covers the allocation before anything is recorded.
+ */
+
+import { Donation, FundingShare } from './types';
+
+// A donation that still has funds available
+export interface DonationBalance {
+  donation: Donation;
+  available: bigint; // unspent base units
+}
+
+export interface MatchingStrategy {
+  name: string; // recorded on the allocation for auditability
+  match(candidates: DonationBalance[], amount: bigint): FundingShare[];
+}
+
+// Draw on candidates in order until the amount is covered
+function drawInOrder(candidates: DonationBalance[], amount: bigint): FundingShare[] {
+  const funding: FundingShare[] = [];
+  let needed = amount;
+
+  for (const { donation, available } of candidates) {
+    if (needed === 0n) break;
+    if (available <= 0n) continue;
+    const take = available < needed ? available : needed;
+    funding.push({ donationId: donation.id, amount: take });
+    needed -= take;
+  }
+
+  return funding;
+}
+
+function fifoOrder(candidates: DonationBalance[]): DonationBalance[] {
+  return [...candidates].sort((a, b) => a.donation.timestamp.getTime() - b.donation.timestamp.getTime());
+}
+
+/**
+ * First in, first out: spend the oldest donations first
+ */
+export const fifo: MatchingStrategy = {
+  name: 'fifo',
+  match(candidates, amount) {
+    return drawInOrder(fifoOrder(candidates), amount);
+  }
+};
+
+/**
+ * Draw on the donations exactly in the order given (used for hand-picked donationIds)
+ */
+export const manual: MatchingStrategy = {
+  name: 'manual',
+  match: drawInOrder
+};
+
+/**
+ * Pro-rata: every unspent donation contributes in proportion to what it has left.
+ * Shares are floored to base units and the leftover units go to the largest remainders.
+ */
+export const proRata: MatchingStrategy = {
+  name: 'pro-rata',
+  match(candidates, amount) {
+    const pool = candidates.filter(c => c.available > 0n);
+    const total = pool.reduce((sum, c) => sum + c.available, 0n);
+    if (total === 0n) return [];
+    if (total <= amount) {
+      return pool.map(c => ({ donationId: c.donation.id, amount: c.available }));
+    }
+
+    const shares = pool.map(c => (amount * c.available) / total);
+    let leftover = amount - shares.reduce((sum, v) => sum + v, 0n);
+    const byRemainder = pool
+      .map((c, i) => ({ i, rem: (amount * c.available) % total }))
+      .sort((a, b) => (b.rem > a.rem ? 1 : b.rem < a.rem ? -1 : 0));
+    for (const { i } of byRemainder) {
+      if (leftover === 0n) break;
+      shares[i] += 1n;
+      leftover -= 1n;
+    }
+
+    return pool
+      .map((c, i) => ({ donationId: c.donation.id, amount: shares[i] }))
+      .filter(share => share.amount > 0n);
+  }
+};
+
+/**
+ * Spend donations earmarked for the allocation's category before unrestricted ones, oldest first
+ */
+export const restrictedFirst: MatchingStrategy = {
+  name: 'restricted-first',
+  match(candidates, amount) {
+    const earmarked = candidates.filter(c => c.donation.restriction);
+    const unrestricted = candidates.filter(c => !c.donation.restriction);
+    return drawInOrder([...fifoOrder(earmarked), ...fifoOrder(unrestricted)], amount);
+  }
+};
+
+/**
+ * Only use donations whose memo mentions the keyword (case-insensitive), oldest first
+ */
+export function memoRestricted(keyword: string): MatchingStrategy {
+  const needle = keyword.toLowerCase();
+  return {
+    name: `memo:${keyword}`,
+    match(candidates, amount) {
+      const matching = candidates.filter(c => c.donation.memo?.toLowerCase().includes(needle));
+      return fifo.match(matching, amount);
+    }
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Merkle tree over audit log entry hashes
+ *
+ * Leaves and inner nodes are hashed with different prefixes so a leaf can
+ * never be passed off as an inner node. An odd node at the end of a level
+ * is carried up unchanged.
+ */
+
+import { createHash } from 'crypto';
+import { MerkleProof } from './types';
+
+function sha256(...parts: Buffer[]): string {
+  const hash = createHash('sha256');
+  for (const part of parts) hash.update(part);
+  return hash.digest('hex');
+}
+
+function hashLeaf(leaf: string): string {
+  return sha256(Buffer.from([0]), Buffer.from(leaf, 'hex'));
+}
+
+function hashNode(left: string, right: string): string {
+  return sha256(Buffer.from([1]), Buffer.from(left, 'hex'), Buffer.from(right, 'hex'));
+}
+
+// Build every level of the tree, leaves first
+function buildLevels(leaves: string[]): string[][] {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree with no leaves');
+  }
+
+  const levels = [leaves.map(hashLeaf)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+/**
+ * Compute the Merkle root of a list of hex-encoded leaves
+ */
+export function merkleRoot(leaves: string[]): string {
+  const levels = buildLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+/**
+ * Build an inclusion proof for the leaf at `index`
+ */
+export function merkleProof(leaves: string[], index: number): MerkleProof {
+  if (index < 0 || index >= leaves.length) {
+    throw new Error(`Leaf index ${index} out of range`);
+  }
+
+  const levels = buildLevels(leaves);
+  const siblings: MerkleProof['siblings'] = [];
+  let position = index;
+
+  for (const level of levels.slice(0, -1)) {
+    const isRight = position % 2 === 1;
+    const siblingIndex = isRight ? position - 1 : position + 1;
+    if (siblingIndex < level.length) {
+      siblings.push({ hash: level[siblingIndex], position: isRight ? 'left' : 'right' });
+    }
+    position = Math.floor(position / 2);
+  }
+
+  return { leaf: leaves[index], index, siblings, root: levels[levels.length - 1][0] };
+}
+
+/**
+ * Check that a proof's leaf hashes up to its root
+ */
+export function verifyMerkleProof(proof: MerkleProof): boolean {
+  let hash = hashLeaf(proof.leaf);
+  for (const sibling of proof.siblings) {
+    hash = sibling.position === 'left' ? hashNode(sibling.hash, hash) : hashNode(hash, sibling.hash);
+  }
+  return hash === proof.root;
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { parseAmount, formatAmount, formatMoney } from './money';
+
+describe('Money', () => {
+  it('should parse human-readable amounts to base units exactly', () => {
+    expect(parseAmount('1.5', 'SOL')).toBe(1_500_000_000n);
+    expect(parseAmount(0.1, 'SOL')).toBe(100_000_000n);
+    expect(parseAmount(1e-7, 'SOL')).toBe(100n);
+    expect(parseAmount('2', 'USDC')).toBe(2_000_000n);
+    expect(parseAmount('.25', 'USDC')).toBe(250_000n);
+  });
+
+  it('should reject more precision than the currency has', () => {
+    expect(() => parseAmount('0.0000001', 'USDC')).toThrow('decimal places');
+    expect(() => parseAmount('abc', 'SOL')).toThrow('Invalid');
+  });
+
+  it('should format base units without trailing zeros', () => {
+    expect(formatAmount(1_500_000_000n, 'SOL')).toBe('1.5');
+    expect(formatAmount(2_000_000n, 'USDC')).toBe('2');
+    expect(formatAmount(1n, 'SOL')).toBe('0.000000001');
+    expect(formatAmount(-250_000n, 'USDC')).toBe('-0.25');
+    expect(formatMoney({ amount: 50_000_000n, currency: 'SOL' })).toBe('0.05 SOL');
+  });
+});
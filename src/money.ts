@@ -0,0 +1,96 @@
+/**
+ * Exact money arithmetic
+ *
+ * Amounts are held as bigint base units (lamports for SOL, 10^-decimals for
+ * SPL tokens).
+ * Human-readable decimals only exist at the edges: parsing input,
+ * formatting output, and reading legacy data files.
+ */
+
+import { Currency } from './types';
+import { TokenError } from './errors';
+
+// Decimal places of the built-in currencies. Other tokens' precision lives in
+// their TokenRegistry, which passes it to the functions below.
+export const DECIMALS: Readonly<Record<Currency, number>> = Object.freeze({
+  SOL: 9,
+  USDC: 6
+});
+
+// Decimal places of a built-in currency
+export function decimalsOf(currency: Currency): number {
+  const decimals = DECIMALS[currency];
+  if (decimals === undefined) {
+    throw new TokenError('unknown_token', `Unknown currency: ${currency}`);
+  }
+  return decimals;
+}
+
+// An exact amount in a single currency
+export interface Money {
+  amount: bigint; // base units
+  currency: Currency;
+}
+
+/**
+ * Convert a human-readable amount ("1.5", 0.05) to base units without rounding.
+ * Throws if the value has more decimal places than the currency supports.
+ */
+export function parseAmount(value: string | number, currency: Currency, decimals: number = decimalsOf(currency)): bigint {
+  let text = typeof value === 'number' ? value.toString() : value.trim();
+
+  // Small numbers stringify in exponent form (1e-7)
+  if (typeof value === 'number' && /e/i.test(text)) {
+    text = value.toFixed(decimals);
+  }
+
+  const match = text.match(/^(-?)(\d*)(?:\.(\d*))?$/);
+  if (!match || (match[2] === '' && !match[3])) {
+    throw new Error(`Invalid ${currency} amount: ${value}`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const trimmed = fraction.replace(/0+$/, '');
+  if (trimmed.length > decimals) {
+    throw new Error(`${currency} amount ${value} has more than ${decimals} decimal places`);
+  }
+
+  const units = BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(trimmed.padEnd(decimals, '0') || '0');
+  return sign ? -units : units;
+}
+
+/**
+ * Convert an amount from a legacy data file to base units. Those were written
+ * as floats, so they can carry dust past the currency's precision
+ * (0.03333333333333333 SOL); round it off instead of refusing the value.
+ */
+export function parseLegacyAmount(value: number, currency: Currency, decimals: number = decimalsOf(currency)): bigint {
+  return parseAmount(value.toFixed(decimals), currency, decimals);
+}
+
+/**
+ * Convert base units to a human-readable decimal string ("1.5")
+ */
+export function formatAmount(amount: bigint, currency: Currency, decimals: number = decimalsOf(currency)): string {
+  const unit = 10n ** BigInt(decimals);
+  const abs = amount < 0n ? -amount : amount;
+  const whole = abs / unit;
+  const fraction = (abs % unit)
+    .toString()
+    .padStart(decimals, '0')
+    .replace(/0+$/, '');
+
+  return `${amount < 0n ? '-' : ''}${whole}${fraction ? '.' + fraction : ''}`;
+}
+
+// Format Money as "1.5 SOL"
+export function formatMoney(value: Money, decimals: number = decimalsOf(value.currency)): string {
+  return `${formatAmount(value.amount, value.currency, decimals)} ${value.currency}`;
+}
+
+/**
+ * JSON.stringify replacer that writes bigints as decimal strings
+ */
+export function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolveNetworkConfig, assertWithinTransferCap } from './network';
+import { FundTracker } from './fund-tracker';
+import { TransparentFund } from './index';
+import { NetworkError } from './errors';
+import { WalletManager } from './wallet';
+
+describe('Network configuration', () => {
+  it('should refuse mainnet without an explicit opt-in', () => {
+    expect(() => resolveNetworkConfig({ network: 'mainnet', allowMainnet: false }))
+      .toThrow(expect.objectContaining({ code: 'mainnet_not_enabled' }));
+
+    const config = resolveNetworkConfig({ network: 'mainnet', allowMainnet: true });
+    expect(config).toMatchObject({ network: 'mainnet', dataDir: './data/mainnet', confirmTransfers: true });
+  });
+
+  it('should cap single transfers', () => {
+    const config = resolveNetworkConfig({ network: 'mainnet', allowMainnet: true, transferCaps: { SOL: 500_000_000n } });
+
+    expect(() => assertWithinTransferCap(config, 500_000_000n, 'SOL')).not.toThrow();
+    expect(() => assertWithinTransferCap(config, 500_000_001n, 'SOL')).toThrow(NetworkError);
+    expect(() => assertWithinTransferCap(resolveNetworkConfig(), 10n ** 12n, 'SOL')).not.toThrow();
+  });
+
+  it('should require a mainnet cap for every token', () => {
+    const usdt = { symbol: 'USDT', mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', decimals: 6 };
+    expect(() => resolveNetworkConfig({ network: 'mainnet', allowMainnet: true, tokens: [usdt] }))
+      .toThrow(expect.objectContaining({ code: 'missing_transfer_cap', message: expect.stringContaining('USDT') }));
+
+    const config = resolveNetworkConfig({ network: 'mainnet', allowMainnet: true, tokens: [usdt], transferCaps: { USDT: 500_000_000n } });
+    expect(() => assertWithinTransferCap(config, 500_000_000n, 'USDT')).not.toThrow();
+    // A config built by hand still can't send an uncapped token
+    expect(() => assertWithinTransferCap({ ...config, transferCaps: {} }, 1n, 'USDT'))
+      .toThrow(expect.objectContaining({ code: 'missing_transfer_cap' }));
+    expect(() => resolveNetworkConfig({ tokens: [usdt] })).not.toThrow();
+  });
+
+  it('should not open a data file written for another network', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    const dataPath = join(dir, 'fund-data.json');
+    const devnet = new FundTracker(dataPath, true, 'devnet');
+    devnet.recordDonation({ txHash: 'tx1', from: 'donor', amount: 1n, currency: 'SOL', timestamp: new Date() });
+
+    expect(() => new FundTracker(dataPath, true, 'mainnet')).toThrow(expect.objectContaining({ code: 'network_mismatch' }));
+    expect(new FundTracker(dataPath, true, 'devnet').getDonations()).toHaveLength(1);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should check caps and confirmation before any transfer', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eve-fund-'));
+    const requests: string[] = [];
+    const sent: bigint[] = [];
+    const fund = new TransparentFund({
+      network: 'mainnet',
+      allowMainnet: true,
+      dataDir: dir,
+      autoSave: false,
+      confirmTransfer: async request => {
+        requests.push(request.recipientName);
+        return request.recipientName === 'Approved';
+      }
+    });
+    fund.wallet = {
+      transferSol: async (_to: string, amount: bigint) => {
+        sent.push(amount);
+        return { success: true, txHash: `tx_out_${sent.length}` };
+      }
+    } as unknown as WalletManager;
+    fund.tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: 5_000_000_000n, currency: 'SOL', timestamp: new Date() });
+
+    await expect(fund.allocateFunds('r', 'Approved', 2_000_000_000n, 'SOL', 'P'))
+      .rejects.toThrow(expect.objectContaining({ code: 'transfer_cap_exceeded' }));
+    await expect(fund.allocateFunds('r', 'Declined', 100_000_000n, 'SOL', 'P'))
+      .rejects.toThrow(expect.objectContaining({ code: 'transfer_not_confirmed' }));
+    await fund.allocateFunds('r', 'Approved', 100_000_000n, 'SOL', 'P');
+
+    expect(requests).toEqual(['Declined', 'Approved']);
+    expect(sent).toEqual([100_000_000n]);
+    expect(fund.tracker.getPendingIntents()).toHaveLength(0);
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
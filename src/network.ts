@@ -0,0 +1,121 @@
+/**
+ * Network configuration and mainnet safety interlocks
+ *
+ * One NetworkConfig is resolved up front and handed to the wallet, the
+ * chain verifier and the ledger, so every part of the fund talks to the
+ * same network. Mainnet has to be enabled explicitly and comes with
+ * per-transfer caps and confirmation before any transfer.
+ */
+
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { Currency, Network } from './types';
+import { NetworkError } from './errors';
+import { formatMoney } from './money';
+import { TokenInfo, NATIVE_SOL, mergeTokens } from './tokens';
+
+export interface NetworkConfig {
+  network: Network;
+  rpcUrl: string;
+  tokens: TokenInfo[]; // currencies accepted on this network
+  walletChain: string; // AgentWallet's chain name in balance listings
+  dataDir: string; // ledger files for this network live here
+  transferCaps: Partial<Record<Currency, bigint>>; // largest single transfer allowed, base units
+  confirmTransfers: boolean; // ask before every transfer
+}
+
+// Overrides accepted when resolving a config
+export interface NetworkOptions {
+  network?: Network;
+  allowMainnet?: boolean; // required to use mainnet (or EVE_FUND_ALLOW_MAINNET=1)
+  rpcUrl?: string;
+  tokens?: TokenInfo[]; // added to the network's default tokens (same symbol replaces the default)
+  dataDir?: string;
+  transferCaps?: Partial<Record<Currency, bigint>>;
+  confirmTransfers?: boolean;
+}
+
+export const NETWORK_DEFAULTS: Record<Network, NetworkConfig> = {
+  devnet: {
+    network: 'devnet',
+    rpcUrl: 'https://api.devnet.solana.com',
+    tokens: [NATIVE_SOL, { symbol: 'USDC', mint: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU', decimals: 6 }],
+    walletChain: 'solana-devnet',
+    dataDir: './data/devnet',
+    transferCaps: {},
+    confirmTransfers: false
+  },
+  mainnet: {
+    network: 'mainnet',
+    rpcUrl: 'https://api.mainnet-beta.solana.com',
+    tokens: [NATIVE_SOL, { symbol: 'USDC', mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 }],
+    walletChain: 'solana',
+    dataDir: './data/mainnet',
+    transferCaps: { SOL: 1_000_000_000n, USDC: 500_000_000n }, // 1 SOL, 500 USDC
+    confirmTransfers: true
+  }
+};
+
+/**
+ * Build the config for a network, refusing mainnet unless it was opted into
+ * and every one of its tokens has a transfer cap
+ */
+export function resolveNetworkConfig(options: NetworkOptions = {}): NetworkConfig {
+  const network = options.network || 'devnet';
+  const allowMainnet = options.allowMainnet ?? process.env.EVE_FUND_ALLOW_MAINNET === '1';
+
+  if (network === 'mainnet' && !allowMainnet) {
+    throw new NetworkError(
+      'mainnet_not_enabled',
+      'Mainnet moves real funds; pass allowMainnet: true or set EVE_FUND_ALLOW_MAINNET=1'
+    );
+  }
+
+  const defaults = NETWORK_DEFAULTS[network];
+  const config = {
+    ...defaults,
+    rpcUrl: options.rpcUrl || defaults.rpcUrl,
+    tokens: mergeTokens(defaults.tokens, options.tokens),
+    dataDir: options.dataDir || defaults.dataDir,
+    transferCaps: { ...defaults.transferCaps, ...options.transferCaps },
+    confirmTransfers: options.confirmTransfers ?? defaults.confirmTransfers
+  };
+
+  const uncapped = network === 'mainnet' ? config.tokens.filter(t => config.transferCaps[t.symbol] === undefined) : [];
+  if (uncapped.length > 0) {
+    throw new NetworkError(
+      'missing_transfer_cap',
+      `Mainnet needs a transfer cap for every token; set transferCaps for ${uncapped.map(t => t.symbol).join(', ')}`
+    );
+  }
+  return config;
+}
+
+/**
+ * Where the ledger lives for a network. Devnet keeps using ./data/fund-data.json
+ * if that's where existing data is and nothing has been written per-network yet.
+ */
+export function defaultDataPath(config: NetworkConfig): string {
+  const dataPath = join(config.dataDir, 'fund-data.json');
+  const legacyPath = join('./data', 'fund-data.json');
+  if (config.network === 'devnet' && config.dataDir === NETWORK_DEFAULTS.devnet.dataDir
+    && !existsSync(dataPath) && existsSync(legacyPath)) {
+    return legacyPath;
+  }
+  return dataPath;
+}
+
+// Throw if a single transfer is above the network's cap, or uncapped on mainnet
+export function assertWithinTransferCap(config: NetworkConfig, amount: bigint, currency: Currency): void {
+  const cap = config.transferCaps[currency];
+  if (cap === undefined && config.network === 'mainnet') {
+    throw new NetworkError('missing_transfer_cap', `${currency} has no mainnet per-transfer cap; set one in transferCaps`);
+  }
+  if (cap !== undefined && amount > cap) {
+    const decimals = config.tokens.find(t => t.symbol === currency)?.decimals;
+    throw new NetworkError(
+      'transfer_cap_exceeded',
+      `${formatMoney({ amount, currency }, decimals)} exceeds the ${config.network} per-transfer cap of ${formatMoney({ amount: cap, currency }, decimals)}`
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { CsvPriceSource, FixedPriceSource, fallbackPrices, valueInUsd, formatUsd } from './pricing';
+import { FakeChain } from './test-support/fake-chain';
+import { TransparentFund } from './index';
+import { parseAmount } from './money';
+
+const newAddress = () => Keypair.generate().publicKey.toBase58();
+const sol = (value: string) => parseAmount(value, 'SOL');
+
+const PRICES = `timestamp,currency,usd
+# daily closes
+2024-01-01T00:00:00Z,SOL,100
+1704153600,SOL,120.50
+2024-06-01T00:00:00Z,SOL,150
+`;
+
+describe('CsvPriceSource', () => {
+  it('should use the latest price at or before the requested time', async () => {
+    const prices = new CsvPriceSource(PRICES, { maxAgeMs: Infinity });
+
+    expect(await prices.getPrice('SOL', new Date('2024-01-01T12:00:00Z'))).toMatchObject({ price: '100' });
+    expect(await prices.getPrice('SOL', new Date('2024-01-02T00:00:00Z'))).toMatchObject({ price: '120.50' });
+    expect(await prices.getPrice('SOL', new Date('2023-12-31T00:00:00Z'))).toBeNull();
+    expect(await prices.getPrice('USDC', new Date('2024-01-02T00:00:00Z'))).toBeNull();
+  });
+
+  it('should not use a price older than maxAgeMs', async () => {
+    const prices = new CsvPriceSource(PRICES);
+
+    expect(await prices.getPrice('SOL', new Date('2024-01-02T23:00:00Z'))).not.toBeNull();
+    expect(await prices.getPrice('SOL', new Date('2024-03-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('should reject malformed rows with their line number', () => {
+    expect(() => new CsvPriceSource('2024-01-01T00:00:00Z,SOL,100\nyesterday,SOL,90')).toThrow('line 2');
+    expect(() => new CsvPriceSource('2024-01-01T00:00:00Z,SOL,-5')).toThrow('line 1');
+  });
+
+  it('should fall back to the next source', async () => {
+    const prices = fallbackPrices(new CsvPriceSource(PRICES), new FixedPriceSource({ USDC: '1' }));
+
+    expect(await prices.getPrice('USDC', new Date())).toMatchObject({ price: '1' });
+    expect(prices.name).toBe('csv|fixed');
+  });
+});
+
+describe('valueInUsd', () => {
+  it('should convert base units to cents, rounding half up', () => {
+    expect(valueInUsd(sol('1.5'), 'SOL', '100')).toBe(15_000n);
+    expect(valueInUsd(1_234_567n, 'USDC', '1')).toBe(123n);
+    expect(valueInUsd(1_235_000n, 'USDC', '1')).toBe(124n);
+    expect(valueInUsd(sol('0.001'), 'SOL', '142.37')).toBe(14n);
+    expect(formatUsd(-1_505n)).toBe('-15.05');
+  });
+});
+
+describe('TransparentFund with a price source', () => {
+  it('should stamp donations and allocations and report realized gain', async () => {
+    const chain = new FakeChain({ now: () => new Date('2024-01-01T06:00:00Z') });
+    const fund = new TransparentFund({
+      autoSave: false,
+      connection: chain.connection(),
+      priceSource: new CsvPriceSource(PRICES, { name: 'prices.csv', maxAgeMs: Infinity })
+    });
+    await fund.connectWallet(chain.wallet(newAddress()));
+
+    const donor = newAddress();
+    chain.fund(donor, sol('5'));
+    const { donation } = await fund.recordIncomingDonation(
+      chain.transfer({ from: donor, to: fund.getAddress(), amount: sol('2'), currency: 'SOL' })
+    );
+    expect(donation.valuation).toMatchObject({ usd: 20_000n, price: '100', source: 'prices.csv' });
+
+    // Allocated today, priced at the latest close of $150
+    const allocation = await fund.allocateFunds(newAddress(), 'Garden Co-op', sol('0.5'), 'SOL', 'Seeds');
+    expect(allocation.valuation).toMatchObject({ usd: 7_500n, price: '150' });
+
+    expect(fund.getSummary().tokens.SOL.usd).toEqual({ received: '200.00', allocated: '75.00', realizedGain: '25.00', unvalued: 0 });
+    expect(fund.tracker.verifyIntegrity().valid).toBe(true);
+
+    const markdown = fund.getAuditTrailMarkdown();
+    expect(markdown).toContain('- Value at gift: $200.00 (2 SOL at $100 per SOL, prices.csv)');
+    expect(markdown).toContain('| SOL | 2 | 0.5 | $200.00 | $75.00 | $25.00 |');
+  });
+
+  it('should leave records without a price unvalued until a backfill', async () => {
+    const quotes: Record<string, string> = {};
+    const chain = new FakeChain();
+    const fund = new TransparentFund({
+      autoSave: false,
+      connection: chain.connection(),
+      priceSource: { name: 'manual', getPrice: async (currency, at) => quotes[currency] ? { currency, price: quotes[currency], timestamp: at } : null }
+    });
+    await fund.connectWallet(chain.wallet(newAddress()));
+
+    const donor = newAddress();
+    chain.fund(donor, sol('2'));
+    const { donation } = await fund.recordIncomingDonation(
+      chain.transfer({ from: donor, to: fund.getAddress(), amount: sol('1'), currency: 'SOL' })
+    );
+    expect(donation.valuation).toBeUndefined();
+    expect(fund.getSummary().tokens.SOL.usd.unvalued).toBe(1);
+
+    quotes.SOL = '90';
+    expect(await fund.backfillValuations()).toBe(1);
+    expect(await fund.backfillValuations()).toBe(0);
+    expect(fund.getSummary().tokens.SOL.usd).toMatchObject({ received: '90.00', unvalued: 0 });
+  });
+});
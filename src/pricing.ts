@@ -0,0 +1,153 @@
+/**
+ * Fiat valuation - USD prices for the fund's tokens
+ *
+ * A PriceSource answers "what was one token worth at this moment". The
+ * fund stamps each donation and allocation with the USD value at its
+ * timestamp, so reports can show value at time of gift and the gain or
+ * loss on tokens held between a donation and the allocation that spent it.
+ * USD amounts are exact bigint cents.
+ */
+
+import { readFile } from 'fs/promises';
+import { Currency, FiatValuation } from './types';
+import { decimalsOf } from './money';
+
+// One quoted price: USD for one whole token
+export interface PricePoint {
+  currency: Currency;
+  price: string; // decimal string, e.g. "142.37"
+  timestamp: Date;
+}
+
+export interface PriceSource {
+  name: string; // recorded on each valuation
+  getPrice(currency: Currency, at: Date): Promise<PricePoint | null>; // null when no price is known for that time
+}
+
+const PRICE_PATTERN = /^\d+(?:\.\d+)?$/;
+
+/**
+ * Prices from CSV rows of `timestamp,currency,usd` (timestamp as ISO 8601 or
+ * unix seconds). The latest price at or before the requested time is used,
+ * as long as it is no older than maxAgeMs.
+ */
+export class CsvPriceSource implements PriceSource {
+  readonly name: string;
+  private points: Map<Currency, PricePoint[]> = new Map(); // oldest first
+  private maxAgeMs: number;
+
+  constructor(csv: string, options: { name?: string; maxAgeMs?: number } = {}) {
+    this.name = options.name || 'csv';
+    this.maxAgeMs = options.maxAgeMs ?? 24 * 60 * 60 * 1000;
+
+    csv.split('\n').forEach((line, index) => {
+      const text = line.trim();
+      if (!text || text.startsWith('#') || (index === 0 && /^timestamp\s*,/i.test(text))) return;
+
+      const [rawTime, currency, price] = text.split(',').map(field => field.trim());
+      const timestamp = /^\d+$/.test(rawTime) ? new Date(Number(rawTime) * 1000) : new Date(rawTime);
+      if (!currency || isNaN(timestamp.getTime()) || !PRICE_PATTERN.test(price ?? '')) {
+        throw new Error(`Invalid price row on line ${index + 1}: ${text}`);
+      }
+
+      const list = this.points.get(currency) || [];
+      list.push({ currency, price, timestamp });
+      this.points.set(currency, list);
+    });
+
+    for (const list of this.points.values()) {
+      list.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+  }
+
+  static async fromFile(path: string, options: { name?: string; maxAgeMs?: number } = {}): Promise<CsvPriceSource> {
+    return new CsvPriceSource(await readFile(path, 'utf-8'), { name: path, ...options });
+  }
+
+  async getPrice(currency: Currency, at: Date): Promise<PricePoint | null> {
+    const list = this.points.get(currency) || [];
+    let latest: PricePoint | null = null;
+    for (const point of list) {
+      if (point.timestamp.getTime() > at.getTime()) break;
+      latest = point;
+    }
+    if (!latest || at.getTime() - latest.timestamp.getTime() > this.maxAgeMs) return null;
+    return latest;
+  }
+}
+
+/**
+ * Constant prices, for pegged stablecoins ({ USDC: '1' })
+ */
+export class FixedPriceSource implements PriceSource {
+  readonly name: string;
+  private prices: Record<Currency, string>;
+
+  constructor(prices: Record<Currency, string>, name: string = 'fixed') {
+    for (const [currency, price] of Object.entries(prices)) {
+      if (!PRICE_PATTERN.test(price)) throw new Error(`Invalid ${currency} price: ${price}`);
+    }
+    this.prices = prices;
+    this.name = name;
+  }
+
+  async getPrice(currency: Currency, at: Date): Promise<PricePoint | null> {
+    const price = this.prices[currency];
+    return price === undefined ? null : { currency, price, timestamp: at };
+  }
+}
+
+/**
+ * Ask each source in turn and use the first price found
+ */
+export function fallbackPrices(...sources: PriceSource[]): PriceSource {
+  return {
+    name: sources.map(s => s.name).join('|'),
+    async getPrice(currency, at) {
+      for (const source of sources) {
+        const point = await source.getPrice(currency, at);
+        if (point) return point;
+      }
+      return null;
+    }
+  };
+}
+
+/**
+ * USD cents for an amount of base units at a price per whole token, rounded half up
+ */
+export function valueInUsd(amount: bigint, currency: Currency, price: string, decimals: number = decimalsOf(currency)): bigint {
+  const [whole, fraction = ''] = price.split('.');
+  const priceUnits = BigInt(whole + fraction);
+  const divisor = 10n ** BigInt(decimals + fraction.length);
+  const negative = amount < 0n;
+  const scaled = (negative ? -amount : amount) * priceUnits * 100n;
+  const cents = (scaled * 2n + divisor) / (divisor * 2n);
+  return negative ? -cents : cents;
+}
+
+// Format cents as "1234.56"
+export function formatUsd(cents: bigint): string {
+  const abs = cents < 0n ? -cents : cents;
+  return `${cents < 0n ? '-' : ''}${abs / 100n}.${(abs % 100n).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Value an amount at a point in time, or null when the source has no price for it
+ */
+export async function valuate(
+  source: PriceSource,
+  amount: bigint,
+  currency: Currency,
+  at: Date,
+  decimals: number = decimalsOf(currency)
+): Promise<FiatValuation | null> {
+  const point = await source.getPrice(currency, at);
+  if (!point) return null;
+  return {
+    usd: valueInUsd(amount, currency, point.price, decimals),
+    price: point.price,
+    source: source.name,
+    pricedAt: point.timestamp
+  };
+}
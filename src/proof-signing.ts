@@ -0,0 +1,58 @@
+/**
+ * Recipient signatures on proofs of impact
+ *
+ * A proof is only accepted when the allocation's recipient wallet signs
+ * what it claims: the allocation id, the description, the SHA-256
+ * hashes of the evidence and when it signed. The timestamp makes every
+ * signature unique, so the fund can refuse one it has already seen. The signed text is readable so wallets that
+ * show a message before signing (Phantom, Solflare, ...) display it as is.
+ */
+
+import { canonicalJson } from './audit-log';
+import { decodeSignature, encodeSignature, signMessage, verifyMessage } from './signing';
+
+export interface ProofPayload {
+  allocationId: string;
+  description: string;
+  evidenceHashes: string[]; // lowercase hex SHA-256 of each evidence file
+  signedAt: string; // ISO 8601 time of signing
+}
+
+const PROOF_MESSAGE_PREFIX = 'Eve Transparent Fund proof of impact v2\n';
+const EVIDENCE_MESSAGE_PREFIX = 'Eve Transparent Fund evidence upload v1\n';
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export function isEvidenceHash(hash: string): boolean {
+  return HASH_PATTERN.test(hash);
+}
+
+// The bytes the recipient signs
+export function proofMessage(payload: ProofPayload): Uint8Array {
+  const { allocationId, description, evidenceHashes, signedAt } = payload;
+  return new TextEncoder().encode(PROOF_MESSAGE_PREFIX + canonicalJson({ allocationId, description, evidenceHashes, signedAt }));
+}
+
+// Sign a proof with the recipient's 64-byte Solana secret key; returns base64
+export function signProof(payload: ProofPayload, secretKey: Uint8Array): string {
+  return encodeSignature(signMessage(proofMessage(payload), secretKey));
+}
+
+// True when `signature` is the recipient address's signature over the payload
+export function verifyProofSignature(payload: ProofPayload, signature: string, recipientAddress: string): boolean {
+  return verifyMessage(proofMessage(payload), decodeSignature(signature), recipientAddress);
+}
+
+// The bytes a recipient signs to upload an evidence file: its SHA-256
+export function evidenceUploadMessage(hash: string): Uint8Array {
+  return new TextEncoder().encode(EVIDENCE_MESSAGE_PREFIX + hash);
+}
+
+// Sign an evidence upload with the recipient's secret key; returns base64
+export function signEvidenceUpload(hash: string, secretKey: Uint8Array): string {
+  return encodeSignature(signMessage(evidenceUploadMessage(hash), secretKey));
+}
+
+export function verifyEvidenceUploadSignature(hash: string, signature: string, recipientAddress: string): boolean {
+  return verifyMessage(evidenceUploadMessage(hash), decodeSignature(signature), recipientAddress);
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { FakeChain } from './test-support/fake-chain';
+import { TransparentFund } from './index';
+import { parseAmount } from './money';
+import { createReceipt, receiptToHtml, receiptToMarkdown, verifyReceiptSignature, DonationReceipt } from './receipts';
+import { signMessage, verifyMessage } from './signing';
+
+const newAddress = () => Keypair.generate().publicKey.toBase58();
+const sol = (value: string) => parseAmount(value, 'SOL');
+
+describe('signMessage', () => {
+  it('should produce signatures that verify against the signer address only', () => {
+    const keypair = Keypair.generate();
+    const message = new TextEncoder().encode('hello');
+    const signature = signMessage(message, keypair.secretKey);
+
+    expect(signature).toHaveLength(64);
+    expect(verifyMessage(message, signature, keypair.publicKey.toBase58())).toBe(true);
+    expect(verifyMessage(message, signature, newAddress())).toBe(false);
+    expect(verifyMessage(new TextEncoder().encode('hellO'), signature, keypair.publicKey.toBase58())).toBe(false);
+    expect(verifyMessage(message, signature.slice(1), keypair.publicKey.toBase58())).toBe(false);
+  });
+});
+
+describe('Donor receipts', () => {
+  let chain: FakeChain;
+  let fundKey: Keypair;
+  let fund: TransparentFund;
+  let donor: string;
+
+  beforeEach(async () => {
+    chain = new FakeChain();
+    fundKey = Keypair.generate();
+    fund = new TransparentFund({ autoSave: false, connection: chain.connection() });
+    await fund.connectWallet(chain.wallet(fundKey));
+    donor = newAddress();
+    chain.fund(donor, sol('5'));
+  });
+
+  const donate = (amount: bigint, memo?: string) =>
+    fund.recordIncomingDonation(chain.transfer({ from: donor, to: fund.getAddress(), amount, currency: 'SOL', memo }));
+
+  it('should issue a signed receipt when a donation is recorded', async () => {
+    const { donation, receipt } = await donate(sol('1.25'), 'for the library');
+
+    expect(receipt).toMatchObject({
+      fund: fundKey.publicKey.toBase58(),
+      network: 'devnet',
+      donationId: donation.id,
+      txHash: donation.txHash,
+      from: donor,
+      amount: '1250000000',
+      currency: 'SOL',
+      memo: 'for the library'
+    });
+    expect(verifyReceiptSignature(receipt!)).toBe(true);
+    expect(await fund.verifier.verifyReceipt(receipt!)).toEqual({ valid: true });
+  });
+
+  it('should reject a receipt that was altered after signing', async () => {
+    const { receipt } = await donate(sol('1'));
+
+    const inflated = { ...receipt!, amount: sol('10').toString() };
+    expect(verifyReceiptSignature(inflated)).toBe(false);
+    expect(await fund.verifier.verifyReceipt(inflated)).toMatchObject({ valid: false, reason: expect.stringContaining('Signature') });
+  });
+
+  it('should reject a validly signed receipt that does not match the chain', async () => {
+    const { donation } = await donate(sol('1'));
+
+    // The fund key signs a receipt claiming a larger gift than the transaction carried
+    const overstated = await createReceipt(
+      { ...donation, amount: sol('3') },
+      { address: fund.getAddress(), network: 'devnet' },
+      async message => signMessage(message, fundKey.secretKey)
+    );
+    expect(verifyReceiptSignature(overstated)).toBe(true);
+    expect(await fund.verifier.verifyReceipt(overstated)).toMatchObject({ valid: false, reason: expect.stringContaining('amount') });
+
+    // Another key can't issue receipts in the fund's name
+    const forged: DonationReceipt = await createReceipt(
+      donation,
+      { address: fund.getAddress(), network: 'devnet' },
+      async message => signMessage(message, Keypair.generate().secretKey)
+    );
+    expect(await fund.verifier.verifyReceipt(forged)).toMatchObject({ valid: false });
+  });
+
+  it('should skip receipts when the wallet cannot sign', async () => {
+    const unsigned = new TransparentFund({ autoSave: false, connection: chain.connection() });
+    await unsigned.connectWallet(chain.wallet(newAddress()));
+
+    const txHash = chain.transfer({ from: donor, to: unsigned.getAddress(), amount: sol('1'), currency: 'SOL' });
+    const { donation, receipt } = await unsigned.recordIncomingDonation(txHash);
+    expect(receipt).toBeUndefined();
+    await expect(unsigned.issueReceipt(donation.id)).rejects.toThrow('cannot sign');
+  });
+
+  it('should render printable receipts with the memo escaped', async () => {
+    const { receipt } = await donate(sol('0.5'), '<b>thanks</b>');
+
+    expect(receiptToMarkdown(receipt!)).toContain('- **Amount:** 0.5 SOL');
+    const html = receiptToHtml(receipt!);
+    expect(html).toContain('&lt;b&gt;thanks&lt;/b&gt;');
+    expect(html).not.toContain('<b>thanks');
+
+    const embedded = html.match(/<script type="application\/json" id="receipt">(.*)<\/script>/)![1];
+    expect(verifyReceiptSignature(JSON.parse(embedded))).toBe(true);
+  });
+});
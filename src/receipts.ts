@@ -0,0 +1,119 @@
+/**
+ * Donor receipts - signed acknowledgements of a donation
+ *
+ * A receipt restates what the fund recorded for one donation and is signed
+ * with the fund wallet's key. Anyone can check the signature against the
+ * fund address, and ChainVerifier.verifyReceipt() also checks it against
+ * the on-chain transaction.
+ */
+
+import { Donation, Network } from './types';
+import { canonicalJson } from './audit-log';
+import { formatMoney } from './money';
+import { decodeSignature, encodeSignature, verifyMessage } from './signing';
+
+export interface DonationReceipt {
+  version: 1;
+  fund: string; // fund address; the key that signed the receipt
+  network: Network;
+  donationId: string;
+  txHash: string;
+  from: string;
+  amount: string; // base units
+  currency: string;
+  timestamp: string; // ISO time of the donation
+  memo?: string;
+  issuedAt: string;
+  signature: string; // base64 ed25519 signature over receiptMessage()
+}
+
+// The bytes a receipt's signature covers: canonical JSON of every other field
+export function receiptMessage(receipt: Omit<DonationReceipt, 'signature'>): Uint8Array {
+  const { signature: _signature, ...fields } = receipt as DonationReceipt;
+  return new TextEncoder().encode(canonicalJson(fields));
+}
+
+/**
+ * Build and sign a receipt. `sign` gets the message bytes and returns the
+ * fund wallet's signature over them.
+ */
+export async function createReceipt(
+  donation: Donation,
+  fund: { address: string; network: Network },
+  sign: (message: Uint8Array) => Promise<Uint8Array>,
+  issuedAt: Date = new Date()
+): Promise<DonationReceipt> {
+  const fields: Omit<DonationReceipt, 'signature'> = {
+    version: 1,
+    fund: fund.address,
+    network: fund.network,
+    donationId: donation.id,
+    txHash: donation.txHash,
+    from: donation.from,
+    amount: donation.amount.toString(),
+    currency: donation.currency,
+    timestamp: donation.timestamp.toISOString(),
+    ...(donation.memo ? { memo: donation.memo } : {}),
+    issuedAt: issuedAt.toISOString()
+  };
+  return { ...fields, signature: encodeSignature(await sign(receiptMessage(fields))) };
+}
+
+// True when the receipt is unaltered and was signed by its fund address
+export function verifyReceiptSignature(receipt: DonationReceipt): boolean {
+  return verifyMessage(receiptMessage(receipt), decodeSignature(receipt.signature), receipt.fund);
+}
+
+function receiptLines(receipt: DonationReceipt, decimals?: number): Array<[string, string]> {
+  return [
+    ['Donation', receipt.donationId],
+    ['Amount', formatMoney({ amount: BigInt(receipt.amount), currency: receipt.currency }, decimals)],
+    ['From', receipt.from],
+    ['Date', receipt.timestamp],
+    ['Transaction', receipt.txHash],
+    ...(receipt.memo ? [['Memo', receipt.memo] as [string, string]] : []),
+    ['Fund', `${receipt.fund} (${receipt.network})`],
+    ['Issued', receipt.issuedAt]
+  ];
+}
+
+// `decimals` is the receipt currency's; the built-in tokens' is the default
+export function receiptToMarkdown(receipt: DonationReceipt, decimals?: number): string {
+  let md = '# Donation Receipt - Eve Transparent Fund\n\n';
+  for (const [label, value] of receiptLines(receipt, decimals)) {
+    md += `- **${label}:** ${value}\n`;
+  }
+  md += `\nSignature (ed25519 by the fund address): \`${receipt.signature}\`\n`;
+  md += '\nVerify with `verifyReceiptSignature()` or `ChainVerifier.verifyReceipt()` using the JSON receipt.\n';
+  return md;
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Printable page; the JSON receipt is embedded so the printout can be verified
+export function receiptToHtml(receipt: DonationReceipt, decimals?: number): string {
+  const rows = receiptLines(receipt, decimals)
+    .map(([label, value]) => `      <tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n');
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Donation Receipt ${escapeHtml(receipt.donationId)}</title>
+  <style>body { font-family: sans-serif; max-width: 40em; margin: 2em auto; } th { text-align: left; padding-right: 1em; } td { word-break: break-all; }</style>
+</head>
+<body>
+  <h1>Donation Receipt</h1>
+  <table>
+${rows}
+  </table>
+  <p>Signature (ed25519 by the fund address): <code>${escapeHtml(receipt.signature)}</code></p>
+  <script type="application/json" id="receipt">${JSON.stringify(receipt).replace(/</g, '\\u003c')}</script>
+</body>
+</html>
+`;
+}
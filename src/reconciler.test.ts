@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { reconcile } from './reconciler';
+import { FundTracker } from './fund-tracker';
+import { VerifiedTransaction } from './chain-verifier';
+
+const FUND = 'FundAddress111';
+
+function transfer(txHash: string, from: string, to: string, amount: bigint): VerifiedTransaction {
+  return {
+    txHash,
+    from,
+    to,
+    amount,
+    currency: 'SOL',
+    transfers: [{ from, to, amount, currency: 'SOL' }],
+    timestamp: new Date(),
+    confirmed: true,
+    slot: 1,
+    fee: 5000n,
+    feePayer: from
+  };
+}
+
+describe('reconcile', () => {
+  it('should reconcile a ledger that matches the chain', () => {
+    const tracker = new FundTracker('./data/unused.json', false);
+    const donation = tracker.recordDonation({ txHash: 'in1', from: 'donor', amount: 1_000_000_000n, currency: 'SOL', timestamp: new Date() });
+    tracker.recordAllocation({
+      txHash: 'out1',
+      to: 'recipient',
+      recipientName: 'Recipient',
+      amount: 400_000_000n,
+      currency: 'SOL',
+      purpose: 'Purpose',
+      timestamp: new Date(),
+      donationIds: [donation.id]
+    });
+
+    const history = [
+      transfer('in1', 'donor', FUND, 1_000_000_000n),
+      transfer('out1', FUND, 'recipient', 400_000_000n)
+    ];
+
+    // 1 SOL in, 0.4 SOL out, one 5000-lamport fee paid by the fund
+    const report = reconcile(tracker, FUND, { SOL: 599_995_000n, USDC: 0n }, history);
+
+    expect(report.reconciled).toBe(true);
+    expect(report.balances[0]).toMatchObject({ feesPaid: 5000n, unexplained: 0n });
+  });
+
+  it('should count fees and rent from transactions that moved no funds', () => {
+    const tracker = new FundTracker('./data/unused.json', false);
+    tracker.recordDonation({ txHash: 'in1', from: 'donor', amount: 1_000_000_000n, currency: 'SOL', timestamp: new Date() });
+    const costs = [
+      { txHash: 'anchor1', fee: 5000n, rent: 0n },
+      { txHash: 'ata1', fee: 5000n, rent: 2_039_280n }
+    ];
+
+    const report = reconcile(tracker, FUND, { SOL: 997_950_720n }, [transfer('in1', 'donor', FUND, 1_000_000_000n)], costs);
+
+    expect(report.reconciled).toBe(true);
+    expect(report.balances[0]).toMatchObject({ feesPaid: 10_000n, rentPaid: 2_039_280n, unexplained: 0n });
+  });
+
+  it('should report missing, unmatched and mismatched entries', () => {
+    const tracker = new FundTracker('./data/unused.json', false);
+    tracker.recordDonation({ txHash: 'in1', from: 'donor', amount: 1_000_000_000n, currency: 'SOL', timestamp: new Date() });
+    const airdrop = tracker.recordDonation({ txHash: 'devnet_airdrop', from: 'faucet', amount: 10_000_000_000n, currency: 'SOL', timestamp: new Date() });
+    tracker.recordAllocation({
+      txHash: 'pending',
+      to: 'recipient',
+      recipientName: 'Recipient',
+      amount: 100_000_000n,
+      currency: 'SOL',
+      purpose: 'Purpose',
+      timestamp: new Date(),
+      donationIds: [airdrop.id]
+    });
+
+    const history = [
+      transfer('in1', 'donor', FUND, 900_000_000n),
+      transfer('in2', 'donor2', FUND, 50_000_000n)
+    ];
+
+    const report = reconcile(tracker, FUND, { SOL: 950_000_000n, USDC: 0n }, history);
+
+    expect(report.reconciled).toBe(false);
+    expect(report.missingFromLedger.map(tx => tx.txHash)).toEqual(['in2']);
+    expect(report.unmatchedLedgerEntries.map(e => e.txHash)).toEqual(['devnet_airdrop', 'pending']);
+    expect(report.amountMismatches).toHaveLength(1);
+    expect(report.amountMismatches[0]).toMatchObject({
+      txHash: 'in1',
+      ledger: { amount: 1_000_000_000n },
+      onChain: { amount: 900_000_000n }
+    });
+
+    // Ledger says 10.9 SOL; chain holds 0.95, of which 0.05 is the missing donation
+    expect(report.balances[0].missingNet).toBe(50_000_000n);
+    expect(report.balances[0].unexplained).toBe(950_000_000n - (10_900_000_000n + 50_000_000n));
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Reconciler - Compares the ledger against on-chain balances and history
+ *
+ * Produces the report auditors ask for: transfers the ledger is missing,
+ * ledger entries with no matching transaction, amount mismatches, and any
+ * balance difference left unexplained after fees, rent and missing transfers.
+ */
+
+import { FundTracker } from './fund-tracker';
+import { NetworkCost, VerifiedTransaction } from './chain-verifier';
+import { Balance } from './wallet';
+import { Currency } from './types';
+import { NATIVE_SOL } from './tokens';
+
+export interface UnmatchedLedgerEntry {
+  type: 'donation' | 'allocation' | 'refund';
+  id: string;
+  txHash: string;
+  amount: bigint;
+  currency: Currency;
+  reason: string;
+}
+
+export interface AmountMismatch {
+  type: 'donation' | 'allocation' | 'refund';
+  id: string;
+  txHash: string;
+  ledger: { amount: bigint; currency: Currency };
+  onChain: { amount: bigint; currency: Currency };
+}
+
+export interface BalanceReconciliation {
+  currency: Currency;
+  ledgerBalance: bigint; // received - allocated + returned - refunded per the ledger
+  onChainBalance: bigint;
+  feesPaid: bigint; // network fees paid by the fund (SOL only)
+  rentPaid: bigint; // rent for accounts the fund created, such as recipients' token accounts (SOL only)
+  missingNet: bigint; // net effect of on-chain transfers missing from the ledger
+  unexplained: bigint; // whatever is left after fees, rent and missing transfers
+}
+
+export interface ReconciliationReport {
+  fundAddress: string;
+  generatedAt: Date;
+  transactionsChecked: number;
+  missingFromLedger: VerifiedTransaction[];
+  unmatchedLedgerEntries: UnmatchedLedgerEntry[];
+  amountMismatches: AmountMismatch[];
+  balances: BalanceReconciliation[];
+  reconciled: boolean; // true when every list is empty and nothing is unexplained
+}
+
+/**
+ * Reconcile ledger state against the fund's on-chain balances and transfer history
+ *
+ * @param tracker - The ledger
+ * @param fundAddress - The fund's wallet address
+ * @param balances - Current on-chain balances (WalletManager.getBalances)
+ * @param history - Every transfer into or out of the fund (ChainVerifier.getTransferHistory)
+ * @param costs - Fees and rent the fund paid (ChainVerifier.getAccountHistory); defaults
+ *   to the fees of the transactions in `history`, which misses memo-only transactions
+ */
+export function reconcile(
+  tracker: FundTracker,
+  fundAddress: string,
+  balances: Balance,
+  history: VerifiedTransaction[],
+  costs: NetworkCost[] = history
+    .filter(tx => tx.feePayer === fundAddress)
+    .map(tx => ({ txHash: tx.txHash, fee: tx.fee, rent: 0n }))
+): ReconciliationReport {
+  const byHash = new Map(history.map(tx => [tx.txHash, tx]));
+  const matched = new Set<string>();
+  const unmatchedLedgerEntries: UnmatchedLedgerEntry[] = [];
+  const amountMismatches: AmountMismatch[] = [];
+
+  const records = [
+    ...tracker.getDonations().map(d => ({ type: 'donation' as const, record: d, counterparty: 'to' as const })),
+    ...tracker.getAllocations().map(a => ({ type: 'allocation' as const, record: a, counterparty: 'from' as const })),
+    ...tracker.getRefunds().map(r => ({
+      type: 'refund' as const,
+      record: r,
+      counterparty: r.kind === 'donor_refund' ? 'from' as const : 'to' as const
+    }))
+  ];
+
+  for (const { type, record, counterparty } of records) {
+    const tx = byHash.get(record.txHash);
+    const entry = {
+      type,
+      id: record.id,
+      txHash: record.txHash,
+      amount: record.amount,
+      currency: record.currency
+    };
+
+    if (!tx) {
+      unmatchedLedgerEntries.push({ ...entry, reason: 'No transfer with this signature involves the fund address' });
+      continue;
+    }
+
+    if (tx[counterparty] !== fundAddress) {
+      const direction = counterparty === 'to' ? 'into' : 'out of';
+      unmatchedLedgerEntries.push({ ...entry, reason: `Transaction does not move funds ${direction} the fund address` });
+      continue;
+    }
+
+    matched.add(tx.txHash);
+    if (tx.amount !== record.amount || tx.currency !== record.currency) {
+      amountMismatches.push({
+        type,
+        id: record.id,
+        txHash: record.txHash,
+        ledger: { amount: record.amount, currency: record.currency },
+        onChain: { amount: tx.amount, currency: tx.currency }
+      });
+    }
+  }
+
+  const missingFromLedger = history.filter(tx => !matched.has(tx.txHash));
+
+  const balanceFor = (currency: Currency, onChainBalance: bigint): BalanceReconciliation => {
+    const ledgerBalance = tracker.getSummary(currency).totalRemaining;
+    const isSol = currency === NATIVE_SOL.symbol;
+    const feesPaid = isSol ? costs.reduce((sum, cost) => sum + cost.fee, 0n) : 0n;
+    const rentPaid = isSol ? costs.reduce((sum, cost) => sum + cost.rent, 0n) : 0n;
+    const missingNet = missingFromLedger
+      .filter(tx => tx.currency === currency)
+      .reduce((sum, tx) => sum + (tx.to === fundAddress ? tx.amount : -tx.amount), 0n);
+
+    return {
+      currency,
+      ledgerBalance,
+      onChainBalance,
+      feesPaid,
+      rentPaid,
+      missingNet,
+      unexplained: onChainBalance - (ledgerBalance - feesPaid - rentPaid + missingNet)
+    };
+  };
+
+  // Every currency the wallet reports, plus any the ledger or history holds that it doesn't
+  const currencies = new Set([
+    ...Object.keys(balances),
+    ...tracker.getDonations().map(d => d.currency),
+    ...history.map(tx => tx.currency)
+  ]);
+  const balanceReport = [...currencies].map(currency => balanceFor(currency, balances[currency] ?? 0n));
+
+  return {
+    fundAddress,
+    generatedAt: new Date(),
+    transactionsChecked: history.length,
+    missingFromLedger,
+    unmatchedLedgerEntries,
+    amountMismatches,
+    balances: balanceReport,
+    reconciled: missingFromLedger.length === 0
+      && unmatchedLedgerEntries.length === 0
+      && amountMismatches.length === 0
+      && balanceReport.every(b => b.unexplained === 0n)
+  };
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { FundTracker } from './fund-tracker';
+import { FakeChain } from './test-support/fake-chain';
+import { TransparentFund } from './index';
+import { parseRestriction } from './restrictions';
+import { restrictedFirst } from './matching';
+import { FundingError } from './errors';
+import { parseAmount } from './money';
+import { Donation } from './types';
+
+const sol = (value: string) => parseAmount(value, 'SOL');
+const newAddress = () => Keypair.generate().publicKey.toBase58();
+
+describe('parseRestriction', () => {
+  it('should read the restrict: convention from a memo', () => {
+    expect(parseRestriction('restrict:education')).toBe('education');
+    expect(parseRestriction('For the kids, Restrict: Clean-Water')).toBe('clean-water');
+  });
+
+  it('should ignore memos without a restriction', () => {
+    expect(parseRestriction('education please')).toBeUndefined();
+    expect(parseRestriction(undefined)).toBeUndefined();
+  });
+});
+
+describe('Restricted donations', () => {
+  let tracker: FundTracker;
+  let general: Donation;
+  let education: Donation;
+
+  beforeEach(() => {
+    tracker = new FundTracker('./data/unused.json', false);
+    general = tracker.recordDonation({
+      txHash: 'tx_general', from: 'donor1', amount: sol('0.5'), currency: 'SOL',
+      timestamp: new Date(Date.UTC(2026, 1, 1))
+    });
+    education = tracker.recordDonation({
+      txHash: 'tx_education', from: 'donor2', amount: sol('1'), currency: 'SOL',
+      timestamp: new Date(Date.UTC(2026, 1, 2)), memo: 'restrict:education'
+    });
+  });
+
+  const allocate = (amount: string, category?: string, donationIds?: string[]) =>
+    tracker.recordAllocation({
+      txHash: `out_${Math.random()}`,
+      to: 'recipient',
+      recipientName: 'Recipient',
+      amount: sol(amount),
+      currency: 'SOL',
+      purpose: 'Purpose',
+      category,
+      timestamp: new Date(),
+      donationIds
+    });
+
+  it('should record the restriction from the memo or the caller', () => {
+    const explicit = tracker.recordDonation({
+      txHash: 'tx_water', from: 'donor3', amount: sol('0.2'), currency: 'SOL',
+      timestamp: new Date(), restriction: 'Water'
+    });
+
+    expect(education.restriction).toBe('education');
+    expect(explicit.restriction).toBe('water');
+    expect(general).not.toHaveProperty('restriction');
+  });
+
+  it('should keep restricted donations out of allocations for other purposes', () => {
+    expect(() => allocate('0.6')).toThrow(FundingError);
+    expect(() => allocate('0.6', 'health')).toThrow(FundingError);
+
+    const allocation = allocate('0.5');
+    expect(allocation.funding).toEqual([{ donationId: general.id, amount: sol('0.5') }]);
+  });
+
+  it('should reject hand-picked restricted donations for another category', () => {
+    try {
+      allocate('0.1', 'health', [education.id]);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(FundingError);
+      expect((error as FundingError).code).toBe('restriction_mismatch');
+    }
+  });
+
+  it('should let matching categories draw on restricted donations', () => {
+    const plan = tracker.planFunding(sol('1.2'), 'SOL', { category: 'Education', strategy: restrictedFirst });
+    expect(plan.funding).toEqual([
+      { donationId: education.id, amount: sol('1') },
+      { donationId: general.id, amount: sol('0.2') }
+    ]);
+
+    const allocation = allocate('1.2', 'Education');
+    expect(allocation.category).toBe('education');
+  });
+
+  it('should report balances per restriction', () => {
+    allocate('0.4', 'education', [education.id]);
+
+    expect(tracker.getSummary('SOL').restricted).toEqual({
+      education: { received: sol('1'), allocated: sol('0.4'), committed: 0n, remaining: sol('0.6') }
+    });
+  });
+});
+
+describe('Recording earmarked donations from the chain', () => {
+  let chain: FakeChain;
+  let fund: TransparentFund;
+  let donor: string;
+
+  beforeEach(async () => {
+    chain = new FakeChain();
+    fund = new TransparentFund({ autoSave: false, connection: chain.connection() });
+    await fund.connectWallet(chain.wallet(newAddress()));
+    donor = newAddress();
+    chain.fund(donor, sol('5'));
+  });
+
+  const donate = (memo?: string, to = fund.getAddress()) => chain.transfer({ from: donor, to, amount: sol('1'), currency: 'SOL', memo });
+
+  it('should keep the donor\'s on-chain earmark over what the caller passes', async () => {
+    const txHash = donate('restrict:education');
+    const code = (memo?: string, restriction?: string) =>
+      fund.recordIncomingDonation(txHash, { memo, restriction }).catch(error => error.code);
+
+    expect(await code(undefined, 'health')).toBe('restriction_mismatch');
+    expect(await code('general fund')).toBe('memo_mismatch');
+    expect(fund.tracker.getDonations()).toHaveLength(0);
+
+    const { donation } = await fund.recordIncomingDonation(txHash, { restriction: ' Education ' });
+    expect(donation).toMatchObject({ memo: 'restrict:education', restriction: 'education' });
+  });
+
+  it('should let the caller earmark a donation the donor left open', async () => {
+    const { donation } = await fund.recordIncomingDonation(donate(), { memo: 'pledged for schools', restriction: 'education' });
+    expect(donation).toMatchObject({ memo: 'pledged for schools', restriction: 'education' });
+  });
+
+  it('should refuse a transfer that did not pay the fund', async () => {
+    await expect(fund.recordIncomingDonation(donate(undefined, newAddress()))).rejects.toMatchObject({ code: 'not_to_fund' });
+    expect(fund.tracker.getDonations()).toHaveLength(0);
+  });
+});
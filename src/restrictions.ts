@@ -0,0 +1,22 @@
+/**
+ * Donor restrictions (earmarks)
+ *
+ * A restricted donation may only fund allocations in its category.
+ * Donors set one with a memo like "restrict:education", or it is passed
+ * explicitly when the donation is recorded.
+ */
+
+/**
+ * Normalize a category name: lowercase, trimmed
+ */
+export function normalizeCategory(category: string): string {
+  return category.trim().toLowerCase();
+}
+
+/**
+ * Read a "restrict:<category>" convention from a donor memo
+ */
+export function parseRestriction(memo?: string): string | undefined {
+  const match = memo?.match(/\brestrict:\s*([a-z0-9][a-z0-9_-]*)/i);
+  return match ? normalizeCategory(match[1]) : undefined;
+}
@@ -0,0 +1,47 @@
+/**
+ * Ed25519 message signatures with Solana keys
+ *
+ * A Solana address is an ed25519 public key, so a message signed with a
+ * wallet's secret key can be checked by anyone who knows the address.
+ * Signatures travel as base64.
+ */
+
+import { createPrivateKey, createPublicKey, sign, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+
+const jwkBytes = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64url');
+
+// Sign with a 64-byte Solana secret key (32-byte seed followed by the public key)
+export function signMessage(message: Uint8Array, secretKey: Uint8Array): Uint8Array {
+  const key = createPrivateKey({
+    key: { kty: 'OKP', crv: 'Ed25519', d: jwkBytes(secretKey.slice(0, 32)), x: jwkBytes(secretKey.slice(32, 64)) },
+    format: 'jwk'
+  });
+  return new Uint8Array(sign(null, message, key));
+}
+
+// Check a signature against a base58 address; malformed inputs are just invalid
+export function verifyMessage(message: Uint8Array, signature: Uint8Array, address: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: jwkBytes(new PublicKey(address).toBytes()) },
+      format: 'jwk'
+    });
+    return verify(null, message, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+export function encodeSignature(signature: Uint8Array): string {
+  return Buffer.from(signature).toString('base64');
+}
+
+export function decodeSignature(signature: string): Uint8Array {
+  return new Uint8Array(Buffer.from(signature, 'base64'));
+}
+
+// One spelling per signature: base64 decoding is lenient (padding, unused bits), so compare this
+export function canonicalSignature(signature: string): string {
+  return encodeSignature(decodeSignature(signature));
+}
@@ -3,7 +3,8 @@
  * Uses real on-chain verification
  */
 
-import { TransparentFund } from './index';
+import { Keypair } from '@solana/web3.js';
+import { TransparentFund, parseAmount, formatMoney, signProof } from './index';
 
 const REAL_TX = '5ZLTJQKpEubaRtz835cuYCRv2Ns4AHgU5ztEyuFezXNxcoFJhv8upVmJX9WghTZWFSFkuzm5DDoS42ZAJVm6DuC7';
 
@@ -19,15 +20,9 @@ async function main() {
   // Step 1: Record incoming donation with on-chain verification
   console.log('1️⃣ Recording donation with on-chain verification...');
   try {
-    const result = await fund.recordIncomingDonation(
-      REAL_TX,
-      undefined, // expectedFrom
-      undefined, // expectedAmount
-      'SOL',
-      'E2E test donation'
-    );
+    const result = await fund.recordIncomingDonation(REAL_TX, { memo: 'E2E test donation' });
     console.log(`   ✅ Verified & recorded: ${result.donation.id}`);
-    console.log(`   Amount: ${result.verified.amount} ${result.verified.currency}`);
+    console.log(`   Amount: ${formatMoney(result.verified)}`);
     console.log(`   From: ${result.verified.from}`);
     console.log(`   Timestamp: ${result.verified.timestamp.toISOString()}`);
   } catch (e: any) {
@@ -37,11 +32,12 @@ async function main() {
 
   // Step 2: Record an allocation (simulated - would need SOL to do real transfer)
   console.log('\n2️⃣ Recording allocation (simulated, no actual transfer)...');
+  const recipient = Keypair.generate();
   const allocation = fund.tracker.recordAllocation({
     txHash: 'simulated_allocation_tx',
-    to: 'RecipientWalletAddress123',
+    to: recipient.publicKey.toBase58(),
     recipientName: 'Open Source Developer',
-    amount: 0.05,
+    amount: parseAmount('0.05', 'SOL'),
     currency: 'SOL',
     purpose: 'Reward for contributing to solana-agent-kit',
     timestamp: new Date(),
@@ -52,11 +48,15 @@ async function main() {
 
   // Step 3: Submit proof of impact
   console.log('\n3️⃣ Submitting proof of impact...');
+  const description = 'Merged PR #42 adding multi-sig support to solana-agent-kit';
+  const signedAt = new Date().toISOString();
   const proof = fund.submitProofOfImpact(
     allocation.id,
     allocation.to,
-    'Merged PR #42 adding multi-sig support to solana-agent-kit',
-    ['https://github.com/sendaifun/solana-agent-kit/pull/42']
+    description,
+    ['https://github.com/sendaifun/solana-agent-kit/pull/42'],
+    signProof({ allocationId: allocation.id, description, evidenceHashes: [], signedAt }, recipient.secretKey),
+    signedAt
   );
   console.log(`   ✅ Submitted: ${proof.id}`);
   console.log(`   Description: ${proof.description}`);
@@ -64,9 +64,9 @@ async function main() {
   // Step 4: Show final summary
   console.log('\n📊 Final Summary:');
   const summary = fund.getSummary();
-  console.log(`   SOL Received: ${summary.sol.received}`);
-  console.log(`   SOL Allocated: ${summary.sol.allocated}`);
-  console.log(`   SOL Remaining: ${summary.sol.remaining}`);
+  console.log(`   SOL Received: ${summary.tokens.SOL.received}`);
+  console.log(`   SOL Allocated: ${summary.tokens.SOL.allocated}`);
+  console.log(`   SOL Remaining: ${summary.tokens.SOL.remaining}`);
   console.log(`   Donations: ${summary.donations}`);
   console.log(`   Allocations: ${summary.allocations}`);
   console.log(`   Proofs: ${summary.proofs}`);
@@ -0,0 +1,337 @@
+/**
+ * In-memory Solana chain for offline, deterministic tests
+ *
+ * Keeps SOL and SPL token balances, records every transfer as a parsed
+ * transaction shaped like the RPC's, and serves them through the same
+ * calls ChainVerifier makes. Wallets on the fake chain implement
+ * WalletBackend, so a whole TransparentFund can run against it.
+ * Test support only: src/index.ts doesn't export it.
+ */
+
+import { ConfirmedSignatureInfo, Keypair, ParsedTransactionWithMeta, PublicKey, SystemProgram } from '@solana/web3.js';
+import { Currency, Network } from '../types';
+import { ChainConnection } from '../chain-verifier';
+import { Balance, TransferResult, WalletBackend } from '../wallet';
+import { NetworkConfig, NETWORK_DEFAULTS } from '../network';
+import { TokenInfo, TokenRegistry, NATIVE_SOL } from '../tokens';
+import { associatedTokenAddress, tokenProgramId, MEMO_PROGRAM_ID } from '../keypair-wallet';
+import { signMessage } from '../signing';
+
+// Fee charged to the sender of every transaction, in lamports
+export const FAKE_FEE = 5000n;
+
+// Stand-in for a program that routes payments through CPI (a smart wallet, a batcher)
+const ROUTER_PROGRAM_ID = new PublicKey('Router1111111111111111111111111111111111111');
+
+export interface FakePayment {
+  to: string;
+  amount: bigint; // base units
+  currency: Currency;
+}
+
+export interface FakeTransfer extends FakePayment {
+  from: string;
+  memo?: string;
+}
+
+interface FakeTransaction {
+  signature: string;
+  addresses: string[]; // every account the transaction touches
+  parsed: ParsedTransactionWithMeta;
+}
+
+// A token account touched by a transaction, with its balance before the transfers
+interface TouchedTokenAccount {
+  owner: string;
+  token: TokenInfo & { mint: string };
+  address: string;
+  pre: bigint;
+}
+
+export class FakeChain {
+  readonly config: NetworkConfig;
+  readonly tokens: TokenRegistry;
+  private balances: Map<string, Balance> = new Map();
+  private transactions: FakeTransaction[] = []; // oldest first
+  private slot = 0;
+  private now: () => Date;
+
+  constructor(options: { network?: Network | NetworkConfig; now?: () => Date } = {}) {
+    const network = options.network || 'devnet';
+    this.config = typeof network === 'string' ? NETWORK_DEFAULTS[network] : network;
+    this.tokens = new TokenRegistry(this.config.tokens);
+    this.now = options.now || (() => new Date());
+  }
+
+  get network(): Network {
+    return this.config.network;
+  }
+
+  // Credit an account out of thin air (an airdrop, or a token faucet)
+  fund(address: string, amount: bigint, currency: Currency = NATIVE_SOL.symbol): void {
+    this.tokens.require(currency);
+    this.getBalance(address)[currency] += amount;
+  }
+
+  getBalance(address: string): Balance {
+    let balance = this.balances.get(address);
+    if (!balance) {
+      balance = Object.fromEntries(this.tokens.symbols().map(symbol => [symbol, 0n]));
+      this.balances.set(address, balance);
+    }
+    return balance;
+  }
+
+  /**
+   * Land a transfer (and optional memo) and return its signature. A sender
+   * that can't cover the amount plus fee gets a failed transaction instead.
+   */
+  transfer(transfer: FakeTransfer): string {
+    const { from, memo, ...payment } = transfer;
+    return this.batch(from, [payment], { memo });
+  }
+
+  /**
+   * Land several payments from one sender in a single transaction. With
+   * `viaProgram` they run as inner instructions of a router program, the way
+   * wallets and batching programs send them.
+   */
+  batch(from: string, payments: FakePayment[], options: { memo?: string; viaProgram?: boolean } = {}): string {
+    const sender = this.getBalance(from);
+    const needed = (currency: Currency) => payments
+      .filter(p => p.currency === currency)
+      .reduce((sum, p) => sum + p.amount, currency === NATIVE_SOL.symbol ? FAKE_FEE : 0n);
+    const failed = this.tokens.symbols().some(symbol => sender[symbol] < needed(symbol));
+
+    const tokenAccounts: TouchedTokenAccount[] = [];
+    const tokenAccount = (owner: string, token: TokenInfo & { mint: string }): TouchedTokenAccount => {
+      let account = tokenAccounts.find(a => a.owner === owner && a.token === token);
+      if (!account) {
+        const address = associatedTokenAddress(new PublicKey(owner), new PublicKey(token.mint), tokenProgramId(token));
+        account = { owner, token, address: address.toBase58(), pre: this.getBalance(owner)[token.symbol] };
+        tokenAccounts.push(account);
+      }
+      return account;
+    };
+
+    const transfers = payments.map(payment => {
+      const token = this.tokens.require(payment.currency);
+      if (!token.mint) {
+        return {
+          program: 'system',
+          programId: SystemProgram.programId,
+          parsed: {
+            type: 'transfer',
+            info: { source: from, destination: payment.to, lamports: Number(payment.amount) }
+          }
+        };
+      }
+      const spl = token as TokenInfo & { mint: string };
+      return {
+        program: token.program || 'spl-token',
+        programId: tokenProgramId(token),
+        parsed: {
+          type: 'transferChecked',
+          info: {
+            source: tokenAccount(from, spl).address,
+            destination: tokenAccount(payment.to, spl).address,
+            authority: from,
+            mint: token.mint,
+            tokenAmount: { amount: payment.amount.toString(), decimals: token.decimals }
+          }
+        }
+      };
+    });
+
+    if (sender[NATIVE_SOL.symbol] >= FAKE_FEE) sender[NATIVE_SOL.symbol] -= FAKE_FEE; // failed transactions still pay the fee
+    if (!failed) {
+      for (const payment of payments) {
+        this.getBalance(from)[payment.currency] -= payment.amount;
+        this.getBalance(payment.to)[payment.currency] += payment.amount;
+      }
+    }
+
+    // Account order: fee payer, recipients, token accounts, mints
+    const keys = [...new Set([from, ...payments.map(p => p.to)])];
+    const tokenIndex = tokenAccounts.map(account => keys.push(account.address) - 1);
+    keys.push(...new Set(tokenAccounts.map(a => a.token.mint)));
+
+    const tokenBalances = (amount: (account: TouchedTokenAccount) => bigint) => tokenAccounts.map((account, i) => ({
+      accountIndex: tokenIndex[i],
+      mint: account.token.mint,
+      owner: account.owner,
+      uiTokenAmount: { amount: amount(account).toString(), decimals: account.token.decimals, uiAmount: null }
+    }));
+
+    const instructions: unknown[] = options.viaProgram
+      ? [{ programId: ROUTER_PROGRAM_ID, accounts: keys.map(k => new PublicKey(k)), data: '' }]
+      : transfers;
+    if (options.memo) instructions.push(this.memoInstruction(options.memo));
+
+    return this.land(keys, instructions, {
+      failed,
+      innerInstructions: options.viaProgram ? [{ index: 0, instructions: transfers }] : [],
+      ...(tokenAccounts.length > 0 ? {
+        preTokenBalances: tokenBalances(account => account.pre),
+        postTokenBalances: tokenBalances(account => this.getBalance(account.owner)[account.token.symbol])
+      } : {})
+    });
+  }
+
+  // Land a memo-only transaction
+  memo(from: string, memo: string): string {
+    this.getBalance(from)[NATIVE_SOL.symbol] -= FAKE_FEE;
+    return this.land([from], [this.memoInstruction(memo)], { failed: false });
+  }
+
+  // The RPC calls ChainVerifier needs
+  connection(): ChainConnection {
+    return {
+      getParsedTransaction: async (signature: string) =>
+        this.transactions.find(t => t.signature === signature)?.parsed ?? null,
+      getSignaturesForAddress: async (address: PublicKey, options: { before?: string; until?: string; limit?: number } = {}) =>
+        this.signaturesFor(address.toBase58(), options)
+    } as unknown as ChainConnection;
+  }
+
+  // A wallet holding `address` on this chain; given a keypair it can also sign messages
+  wallet(owner: string | Keypair): FakeWallet {
+    return new FakeWallet(this, owner);
+  }
+
+  // Newest first, like getSignaturesForAddress
+  private signaturesFor(address: string, options: { before?: string; until?: string; limit?: number }): ConfirmedSignatureInfo[] {
+    let list = this.transactions.filter(t => t.addresses.includes(address)).reverse();
+    if (options.before) {
+      list = list.slice(list.findIndex(t => t.signature === options.before) + 1);
+    }
+    if (options.until) {
+      const stop = list.findIndex(t => t.signature === options.until);
+      if (stop >= 0) list = list.slice(0, stop);
+    }
+    return list.slice(0, options.limit ?? 1000).map(t => ({
+      signature: t.signature,
+      slot: t.parsed.slot,
+      err: t.parsed.meta!.err,
+      memo: null,
+      blockTime: t.parsed.blockTime,
+      confirmationStatus: 'finalized'
+    }));
+  }
+
+  private memoInstruction(memo: string): unknown {
+    return { program: 'spl-memo', programId: MEMO_PROGRAM_ID, parsed: memo };
+  }
+
+  private land(
+    keys: string[],
+    instructions: unknown[],
+    meta: { failed: boolean; innerInstructions?: unknown[]; preTokenBalances?: unknown[]; postTokenBalances?: unknown[] }
+  ): string {
+    this.slot += 1;
+    const signature = `fake${this.slot.toString().padStart(8, '0')}`;
+    const { failed, ...rest } = meta;
+    const mints = new Set(this.tokens.splTokens().map(t => t.mint));
+
+    this.transactions.push({
+      signature,
+      addresses: keys,
+      parsed: {
+        slot: this.slot,
+        blockTime: Math.floor(this.now().getTime() / 1000),
+        meta: {
+          err: failed ? { InstructionError: [0, 'InsufficientFunds'] } : null,
+          fee: Number(FAKE_FEE),
+          preBalances: [],
+          postBalances: [],
+          innerInstructions: [],
+          ...rest
+        },
+        transaction: {
+          signatures: [signature],
+          message: {
+            accountKeys: keys.map((key, i) => ({
+              pubkey: new PublicKey(key),
+              signer: i === 0,
+              writable: !mints.has(key),
+              source: 'transaction'
+            })),
+            instructions,
+            recentBlockhash: signature
+          }
+        }
+      } as unknown as ParsedTransactionWithMeta
+    });
+
+    return signature;
+  }
+}
+
+// WalletBackend whose transfers land on a FakeChain
+export class FakeWallet implements WalletBackend {
+  private chain: FakeChain;
+  private address: string;
+  private interruptNext = false;
+
+  // Only wallets made from a keypair can sign, like a custodial backend without message signing
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>;
+
+  constructor(chain: FakeChain, owner: string | Keypair) {
+    this.chain = chain;
+    if (typeof owner === 'string') {
+      this.address = owner;
+    } else {
+      this.address = owner.publicKey.toBase58();
+      this.signMessage = async (message) => signMessage(message, owner.secretKey);
+    }
+  }
+
+  // Make the next transfer land on-chain and then throw, as if the process lost the response
+  interruptNextTransfer(): void {
+    this.interruptNext = true;
+  }
+
+  getAddress(): string {
+    return this.address;
+  }
+
+  getNetwork(): Network {
+    return this.chain.network;
+  }
+
+  async getBalances(): Promise<Balance> {
+    return { ...this.chain.getBalance(this.address) };
+  }
+
+  async transferSol(to: string, lamports: bigint): Promise<TransferResult> {
+    return this.send({ from: this.address, to, amount: lamports, currency: NATIVE_SOL.symbol });
+  }
+
+  async transferToken(to: string, units: bigint, token: TokenInfo): Promise<TransferResult> {
+    return this.send({ from: this.address, to, amount: units, currency: token.symbol });
+  }
+
+  async sendMemo(memo: string): Promise<TransferResult> {
+    return { success: true, txHash: this.chain.memo(this.address, memo) };
+  }
+
+  async requestDevnetFaucet(): Promise<TransferResult> {
+    this.chain.fund(this.address, 1_000_000_000n);
+    return { success: true };
+  }
+
+  private send(transfer: FakeTransfer): TransferResult {
+    const balance = this.chain.getBalance(this.address);
+    const fee = transfer.currency === NATIVE_SOL.symbol ? FAKE_FEE : 0n;
+    if (balance[transfer.currency] - fee < transfer.amount) {
+      return { success: false, error: `Insufficient ${transfer.currency} balance` };
+    }
+
+    const txHash = this.chain.transfer(transfer);
+    if (this.interruptNext) {
+      this.interruptNext = false;
+      throw new Error('Connection lost while waiting for the transfer');
+    }
+    return { success: true, txHash };
+  }
+}
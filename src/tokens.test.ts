@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { TokenRegistry, NATIVE_SOL, mergeTokens, TokenInfo } from './tokens';
+import { resolveNetworkConfig } from './network';
+import { FakeChain } from './test-support/fake-chain';
+import { TransparentFund } from './index';
+import { AgentWalletBackend } from './wallet';
+import { parseAmount } from './money';
+
+const newAddress = () => Keypair.generate().publicKey.toBase58();
+
+// A community token with its own precision; mints are random so each test stands alone
+const COMMUNITY: TokenInfo = { symbol: 'GROW', mint: newAddress(), decimals: 5 };
+
+describe('TokenRegistry', () => {
+  it('should look tokens up by symbol and mint', () => {
+    const registry = new TokenRegistry(resolveNetworkConfig({ tokens: [COMMUNITY] }).tokens);
+
+    expect(registry.symbols()).toEqual(['SOL', 'USDC', 'GROW']);
+    expect(registry.fromMint(COMMUNITY.mint!)).toBe(COMMUNITY);
+    expect(registry.splTokens().map(t => t.symbol)).toEqual(['USDC', 'GROW']);
+    expect(() => registry.require('BONK')).toThrow(expect.objectContaining({ code: 'unknown_token' }));
+  });
+
+  it('should parse and format at each registry\'s own precision', () => {
+    const registry = new TokenRegistry([NATIVE_SOL, COMMUNITY]);
+    const coarse = new TokenRegistry([NATIVE_SOL, { ...COMMUNITY, decimals: 2 }]);
+
+    expect(registry.parse('1.5', 'GROW')).toBe(150_000n);
+    expect(registry.formatMoney({ amount: 150_000n, currency: 'GROW' })).toBe('1.5 GROW');
+    expect(coarse.parse('1.5', 'GROW')).toBe(150n);
+    expect(coarse.format(150n, 'GROW')).toBe('1.5');
+    expect(() => registry.parse('1', 'NOPE')).toThrow(expect.objectContaining({ code: 'unknown_token' }));
+    expect(() => parseAmount('1', 'GROW')).toThrow('Unknown currency'); // registries leave the built-ins alone
+  });
+
+  it('should reject malformed and conflicting tokens', () => {
+    const mint = newAddress();
+    expect(() => new TokenRegistry([{ symbol: 'usdt', mint, decimals: 6 }])).toThrow(expect.objectContaining({ code: 'invalid_token' }));
+    expect(() => new TokenRegistry([{ symbol: 'USDT', mint: null, decimals: 6 }])).toThrow(expect.objectContaining({ code: 'invalid_token' }));
+    expect(() => new TokenRegistry([{ symbol: 'AAA', mint, decimals: 6 }, { symbol: 'BBB', mint, decimals: 6 }]))
+      .toThrow(expect.objectContaining({ code: 'duplicate_token' }));
+  });
+
+  it('should let configured tokens replace defaults with the same symbol', () => {
+    const local = { symbol: 'USDC', mint: newAddress(), decimals: 6 };
+    expect(mergeTokens([NATIVE_SOL, { ...local, mint: newAddress() }], [local])).toEqual([NATIVE_SOL, local]);
+  });
+});
+
+describe('TransparentFund with a custom token', () => {
+  it('should accept, allocate, summarise and reconcile a registered token', async () => {
+    const config = resolveNetworkConfig({ tokens: [COMMUNITY] });
+    const chain = new FakeChain({ network: config });
+    const fund = new TransparentFund({ autoSave: false, tokens: [COMMUNITY], connection: chain.connection() });
+    await fund.connectWallet(chain.wallet(newAddress()));
+
+    const donor = newAddress();
+    chain.fund(donor, parseAmount('1', 'SOL'));
+    chain.fund(donor, fund.tokens.parse('100', 'GROW'), 'GROW');
+    await fund.recordIncomingDonation(chain.transfer({ from: donor, to: fund.getAddress(), amount: parseAmount('0.1', 'SOL'), currency: 'SOL' }));
+    const { donation } = await fund.recordIncomingDonation(
+      chain.transfer({ from: donor, to: fund.getAddress(), amount: fund.tokens.parse('40', 'GROW'), currency: 'GROW' })
+    );
+    expect(donation).toMatchObject({ currency: 'GROW', amount: 4_000_000n });
+
+    const recipient = newAddress();
+    await fund.allocateFunds(recipient, 'Seed Library', fund.tokens.parse('12.5', 'GROW'), 'GROW', 'Seeds');
+    expect(chain.getBalance(recipient).GROW).toBe(1_250_000n);
+
+    expect(fund.getSummary().tokens.GROW).toMatchObject({ received: '40', allocated: '12.5', remaining: '27.5' });
+    expect((await fund.reconcile()).reconciled).toBe(true);
+    await expect(fund.allocateFunds(recipient, 'Seed Library', 1n, 'BONK', 'Seeds'))
+      .rejects.toThrow(expect.objectContaining({ code: 'unknown_token' }));
+  });
+
+  it('should ignore transfers of tokens outside the registry', async () => {
+    const chain = new FakeChain({ network: resolveNetworkConfig({ tokens: [COMMUNITY] }) });
+    const fund = new TransparentFund({ autoSave: false, connection: chain.connection() }); // GROW not registered
+    const donor = newAddress();
+    chain.fund(donor, parseAmount('1', 'SOL'));
+    chain.fund(donor, 500_000n, 'GROW');
+
+    const txHash = chain.transfer({ from: donor, to: newAddress(), amount: 500_000n, currency: 'GROW' });
+    expect(await fund.verifier.verifyTransaction(txHash)).toBeNull();
+  });
+});
+
+describe('AgentWalletBackend with a custom token', () => {
+  it('should refuse mints other than the network defaults before calling the API', async () => {
+    const config = resolveNetworkConfig({ tokens: [COMMUNITY, { symbol: 'USDC', mint: newAddress(), decimals: 6 }] });
+    const backend = new AgentWalletBackend({ username: 'eve', apiToken: 'token', solanaAddress: newAddress(), baseUrl: 'http://127.0.0.1:9' }, config);
+
+    for (const token of config.tokens.filter(t => t.mint)) {
+      const result = await backend.transferToken(newAddress(), 1n, token);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('AgentWallet only transfers the devnet default tokens');
+    }
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Token registry - which currencies the fund accepts on a network
+ *
+ * Each network config lists its tokens (native SOL plus SPL mints). The
+ * registry is what verification, wallets, balances and summaries consult,
+ * so accepting another stablecoin or a community token is a config change.
+ */
+
+import { Currency } from './types';
+import { TokenError } from './errors';
+import { Money, formatAmount, formatMoney, parseAmount } from './money';
+
+// Token program that owns an SPL mint; Token-2022 mints (PYUSD, ...) need the newer one
+export type TokenProgram = 'spl-token' | 'spl-token-2022';
+
+export interface TokenInfo {
+  symbol: Currency; // ledger currency, e.g. 'USDC'
+  mint: string | null; // SPL mint address; null for native SOL
+  decimals: number;
+  program?: TokenProgram; // defaults to 'spl-token'
+}
+
+export const NATIVE_SOL: TokenInfo = { symbol: 'SOL', mint: null, decimals: 9 };
+
+export class TokenRegistry {
+  private bySymbol: Map<Currency, TokenInfo> = new Map();
+  private byMint: Map<string, TokenInfo> = new Map();
+
+  constructor(tokens: TokenInfo[]) {
+    for (const token of tokens) {
+      this.add(token);
+    }
+  }
+
+  private add(token: TokenInfo): void {
+    if (!/^[A-Z0-9]{1,12}$/.test(token.symbol)) {
+      throw new TokenError('invalid_token', `Token symbol must be 1-12 uppercase letters or digits: ${token.symbol}`);
+    }
+    if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 18) {
+      throw new TokenError('invalid_token', `${token.symbol} decimals must be an integer from 0 to 18`);
+    }
+    if ((token.mint === null) !== (token.symbol === NATIVE_SOL.symbol)) {
+      throw new TokenError('invalid_token', `Only ${NATIVE_SOL.symbol} is native; ${token.symbol} needs a mint address`);
+    }
+    if (this.bySymbol.has(token.symbol)) {
+      throw new TokenError('duplicate_token', `Token ${token.symbol} is registered twice`);
+    }
+    if (token.mint && this.byMint.has(token.mint)) {
+      throw new TokenError('duplicate_token', `Mint ${token.mint} is already registered as ${this.byMint.get(token.mint)!.symbol}`);
+    }
+
+    this.bySymbol.set(token.symbol, token);
+    if (token.mint) this.byMint.set(token.mint, token);
+  }
+
+  get(symbol: Currency): TokenInfo | undefined {
+    return this.bySymbol.get(symbol);
+  }
+
+  // Look up a token, throwing if the fund doesn't accept it
+  require(symbol: Currency): TokenInfo {
+    const token = this.bySymbol.get(symbol);
+    if (!token) {
+      throw new TokenError('unknown_token', `${symbol} is not in this network's token registry (known: ${this.symbols().join(', ')})`);
+    }
+    return token;
+  }
+
+  // Amounts at this registry's precision for the token; throws for tokens it doesn't know
+  parse(value: string | number, symbol: Currency): bigint {
+    return parseAmount(value, symbol, this.require(symbol).decimals);
+  }
+
+  format(amount: bigint, symbol: Currency): string {
+    return formatAmount(amount, symbol, this.require(symbol).decimals);
+  }
+
+  formatMoney(value: Money): string {
+    return formatMoney(value, this.require(value.currency).decimals);
+  }
+
+  fromMint(mint: string): TokenInfo | undefined {
+    return this.byMint.get(mint);
+  }
+
+  list(): TokenInfo[] {
+    return [...this.bySymbol.values()];
+  }
+
+  symbols(): Currency[] {
+    return [...this.bySymbol.keys()];
+  }
+
+  // SPL tokens only, i.e. everything but native SOL
+  splTokens(): Array<TokenInfo & { mint: string }> {
+    return this.list().filter((t): t is TokenInfo & { mint: string } => t.mint !== null);
+  }
+}
+
+/**
+ * Overlay extra tokens on a base list; an extra token replaces a base token with the same symbol
+ */
+export function mergeTokens(base: TokenInfo[], extra: TokenInfo[] = []): TokenInfo[] {
+  const symbols = new Set(extra.map(t => t.symbol));
+  return [...base.filter(t => !symbols.has(t.symbol)), ...extra];
+}
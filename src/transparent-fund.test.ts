@@ -1,5 +1,14 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { TransparentFund } from './index';
+import { Keypair } from '@solana/web3.js';
+import { TransparentFund, FundingError, ProposalError, WalletManager, parseAmount, signProof } from './index';
+
+const sol = (value: string) => parseAmount(value, 'SOL');
+
+const recipient = Keypair.generate();
+const recipientWallet = recipient.publicKey.toBase58();
+const signedAt = '2026-03-01T00:00:00.000Z';
+const signedBy = (allocationId: string, description: string) =>
+  signProof({ allocationId, description, evidenceHashes: [], signedAt }, recipient.secretKey);
 
 describe('TransparentFund', () => {
   let fund: TransparentFund;
@@ -17,14 +26,14 @@ describe('TransparentFund', () => {
     const donation = fund.tracker.recordDonation({
       txHash: 'test_tx_001',
       from: 'donor_wallet',
-      amount: 1.5,
+      amount: sol('1.5'),
       currency: 'SOL',
       timestamp: new Date(),
       memo: 'Test donation'
     });
 
     expect(donation.id).toMatch(/^don_/);
-    expect(donation.amount).toBe(1.5);
+    expect(donation.amount).toBe(1_500_000_000n);
     expect(donation.currency).toBe('SOL');
   });
 
@@ -32,16 +41,16 @@ describe('TransparentFund', () => {
     const donation = fund.tracker.recordDonation({
       txHash: 'test_tx_001',
       from: 'donor_wallet',
-      amount: 1.0,
+      amount: sol('1'),
       currency: 'SOL',
       timestamp: new Date()
     });
 
     const allocation = fund.tracker.recordAllocation({
       txHash: 'test_tx_002',
-      to: 'recipient_wallet',
+      to: recipientWallet,
       recipientName: 'Test Recipient',
-      amount: 0.5,
+      amount: sol('0.5'),
       currency: 'SOL',
       purpose: 'Test purpose',
       timestamp: new Date(),
@@ -53,22 +62,32 @@ describe('TransparentFund', () => {
   });
 
   it('should submit and track proofs of impact', () => {
+    const donation = fund.tracker.recordDonation({
+      txHash: 'test_tx_001',
+      from: 'donor_wallet',
+      amount: sol('1'),
+      currency: 'SOL',
+      timestamp: new Date()
+    });
+
     const allocation = fund.tracker.recordAllocation({
       txHash: 'test_tx_002',
-      to: 'recipient_wallet',
+      to: recipientWallet,
       recipientName: 'Test Recipient',
-      amount: 0.5,
+      amount: sol('0.5'),
       currency: 'SOL',
       purpose: 'Test purpose',
       timestamp: new Date(),
-      donationIds: []
+      donationIds: [donation.id]
     });
 
     const proof = fund.submitProofOfImpact(
       allocation.id,
-      'recipient_wallet',
+      recipientWallet,
       'Completed the task',
-      ['https://example.com/proof.jpg']
+      ['https://example.com/proof.jpg'],
+      signedBy(allocation.id, 'Completed the task'),
+      signedAt
     );
 
     expect(proof.id).toMatch(/^proof_/);
@@ -76,11 +95,26 @@ describe('TransparentFund', () => {
     expect(proof.verified).toBe(false);
   });
 
+  it('should show each proof\'s review outcome in the audit trail', () => {
+    const donation = fund.tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+    const allocation = fund.tracker.recordAllocation({
+      txHash: 'tx2', to: recipientWallet, recipientName: 'R', amount: sol('0.5'), currency: 'SOL', purpose: 'P', timestamp: new Date(), donationIds: [donation.id]
+    });
+    const proof = fund.submitProofOfImpact(allocation.id, recipientWallet, 'Completed the task', [], signedBy(allocation.id, 'Completed the task'), signedAt);
+    fund.reviewProof(proof.id, 'under_review', 'alice');
+    fund.reviewProof(proof.id, 'rejected', 'alice', 'Evidence is for another project');
+
+    const markdown = fund.getAuditTrailMarkdown();
+    expect(markdown).toContain(`- Signed: by recipient \`${recipientWallet}\``);
+    expect(markdown).toContain('- Review: ❌ Rejected by alice: Evidence is for another project');
+    expect(markdown).toContain('under_review → rejected by alice (Evidence is for another project)');
+  });
+
   it('should calculate summary correctly', () => {
-    fund.tracker.recordDonation({
+    const donation = fund.tracker.recordDonation({
       txHash: 'tx1',
       from: 'donor1',
-      amount: 2.0,
+      amount: sol('2'),
       currency: 'SOL',
       timestamp: new Date()
     });
@@ -88,7 +122,7 @@ describe('TransparentFund', () => {
     fund.tracker.recordDonation({
       txHash: 'tx2',
       from: 'donor2',
-      amount: 1.5,
+      amount: sol('1.5'),
       currency: 'SOL',
       timestamp: new Date()
     });
@@ -97,18 +131,18 @@ describe('TransparentFund', () => {
       txHash: 'tx3',
       to: 'recipient',
       recipientName: 'Recipient',
-      amount: 1.0,
+      amount: sol('1'),
       currency: 'SOL',
       purpose: 'Purpose',
       timestamp: new Date(),
-      donationIds: []
+      donationIds: [donation.id]
     });
 
     const summary = fund.getSummary();
     
-    expect(summary.sol.received).toBe(3.5);
-    expect(summary.sol.allocated).toBe(1.0);
-    expect(summary.sol.remaining).toBe(2.5);
+    expect(summary.tokens.SOL.received).toBe('3.5');
+    expect(summary.tokens.SOL.allocated).toBe('1');
+    expect(summary.tokens.SOL.remaining).toBe('2.5');
     expect(summary.donations).toBe(2);
     expect(summary.allocations).toBe(1);
   });
@@ -117,7 +151,7 @@ describe('TransparentFund', () => {
     fund.tracker.recordDonation({
       txHash: 'tx1',
       from: 'donor1',
-      amount: 1.0,
+      amount: sol('1'),
       currency: 'SOL',
       timestamp: new Date()
     });
@@ -133,7 +167,7 @@ describe('TransparentFund', () => {
     const donation = fund.tracker.recordDonation({
       txHash: 'tx1',
       from: 'donor',
-      amount: 1.0,
+      amount: sol('1'),
       currency: 'SOL',
       timestamp: new Date()
     });
@@ -142,7 +176,7 @@ describe('TransparentFund', () => {
       txHash: 'tx2',
       to: 'recipient',
       recipientName: 'Recipient',
-      amount: 0.5,
+      amount: sol('0.5'),
       currency: 'SOL',
       purpose: 'Purpose',
       timestamp: new Date(),
@@ -154,5 +188,131 @@ describe('TransparentFund', () => {
     expect(trace.donation).toBeDefined();
     expect(trace.allocations).toHaveLength(1);
     expect(trace.allocations[0].id).toBe(allocation.id);
+    expect(trace.shares).toEqual([{ allocationId: allocation.id, amount: sol('0.5') }]);
+    expect(trace.remaining).toBe(sol('0.5'));
+  });
+
+  it('should split an allocation across donations in order', () => {
+    const first = fund.tracker.recordDonation({
+      txHash: 'tx1',
+      from: 'donor1',
+      amount: sol('0.05'),
+      currency: 'SOL',
+      timestamp: new Date()
+    });
+    const second = fund.tracker.recordDonation({
+      txHash: 'tx2',
+      from: 'donor2',
+      amount: sol('1'),
+      currency: 'SOL',
+      timestamp: new Date()
+    });
+
+    const allocation = fund.tracker.recordAllocation({
+      txHash: 'tx3',
+      to: 'recipient',
+      recipientName: 'Recipient',
+      amount: sol('0.08'),
+      currency: 'SOL',
+      purpose: 'Purpose',
+      timestamp: new Date(),
+      donationIds: [first.id, second.id]
+    });
+
+    expect(allocation.funding).toEqual([
+      { donationId: first.id, amount: sol('0.05') },
+      { donationId: second.id, amount: sol('0.03') }
+    ]);
+    expect(fund.tracker.getDonationBalance(first.id)).toBe(0n);
+    expect(fund.tracker.getDonationBalance(second.id)).toBe(sol('0.97'));
+  });
+
+  it('should reject allocations the donations cannot cover', () => {
+    const donation = fund.tracker.recordDonation({
+      txHash: 'tx1',
+      from: 'donor',
+      amount: sol('0.05'),
+      currency: 'SOL',
+      timestamp: new Date()
+    });
+
+    const allocate = (amount: bigint, donationIds: string[], currency: 'SOL' | 'USDC' = 'SOL') =>
+      fund.tracker.recordAllocation({
+        txHash: `tx_${Math.random()}`,
+        to: 'recipient',
+        recipientName: 'Recipient',
+        amount,
+        currency,
+        purpose: 'Purpose',
+        timestamp: new Date(),
+        donationIds
+      });
+
+    expect(() => allocate(sol('0.01'), ['don_missing'])).toThrow(expect.objectContaining({ code: 'unknown_donation' }));
+    expect(() => allocate(10_000n, [donation.id], 'USDC')).toThrow(expect.objectContaining({ code: 'currency_mismatch' }));
+    expect(() => allocate(sol('0.06'), [donation.id])).toThrow(FundingError);
+
+    // Spent donations can't be spent twice
+    allocate(sol('0.05'), [donation.id]);
+    expect(() => allocate(sol('0.01'), [donation.id])).toThrow(expect.objectContaining({ code: 'insufficient_funds' }));
+    expect(fund.tracker.getAllocations()).toHaveLength(1);
+  });
+});
+
+describe('TransparentFund approvals', () => {
+  let fund: TransparentFund;
+  let transfers: Array<{ to: string; amount: bigint }>;
+
+  beforeEach(() => {
+    fund = new TransparentFund({ autoSave: false, approvalPolicy: { approvers: ['alice', 'bob'], required: 2 } });
+    transfers = [];
+    fund.wallet = {
+      transferSol: async (to: string, amount: bigint) => {
+        transfers.push({ to, amount });
+        return { success: true, txHash: `tx_out_${transfers.length}` };
+      }
+    } as unknown as WalletManager;
+    fund.tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+  });
+
+  it('should only send transfers for fully approved proposals', async () => {
+    await expect(fund.allocateFunds('recipient', 'Recipient', sol('0.5'), 'SOL', 'Purpose'))
+      .rejects.toThrow(ProposalError);
+
+    const proposal = fund.proposeAllocation({
+      to: 'recipient', recipientName: 'Recipient', amount: sol('0.5'), currency: 'SOL', purpose: 'Purpose', proposedBy: 'agent'
+    });
+    fund.approveProposal(proposal.id, 'alice');
+    await expect(fund.executeProposal(proposal.id)).rejects.toThrow(expect.objectContaining({ code: 'not_approved' }));
+    expect(transfers).toHaveLength(0);
+
+    fund.approveProposal(proposal.id, 'bob');
+    const allocation = await fund.executeProposal(proposal.id);
+
+    expect(transfers).toEqual([{ to: 'recipient', amount: sol('0.5') }]);
+    expect(allocation.txHash).toBe('tx_out_1');
+    expect(fund.getAuditTrailMarkdown()).toContain('- Approved by: bob');
+  });
+
+  it('should refuse donor refunds, which no proposal covers', async () => {
+    const [donation] = fund.tracker.getDonations();
+    await expect(fund.refundDonor(donation.id, 'Asked for it back'))
+      .rejects.toThrow(expect.objectContaining({ code: 'approval_required' }));
+    expect(transfers).toHaveLength(0);
+    expect(fund.tracker.getDonationBalance(donation.id)).toBe(sol('1'));
+  });
+
+  it('should release the reservation when the wallet refuses a transfer', async () => {
+    const fund = new TransparentFund({ autoSave: false });
+    fund.wallet = {
+      transferSol: async () => ({ success: false, error: 'Insufficient balance' })
+    } as unknown as WalletManager;
+    const donation = fund.tracker.recordDonation({ txHash: 'tx1', from: 'donor', amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+
+    await expect(fund.allocateFunds('recipient', 'Recipient', sol('0.5'), 'SOL', 'Purpose')).rejects.toThrow('Insufficient balance');
+
+    expect(fund.tracker.getPendingIntents()).toHaveLength(0);
+    expect(fund.tracker.getDonationBalance(donation.id)).toBe(sol('1'));
+    expect(fund.tracker.getAuditLog().map(e => e.type)).toEqual(['donation', 'intent', 'intent_abandoned']);
   });
 });
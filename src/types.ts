@@ -2,15 +2,31 @@
  * Core types for Eve Transparent Fund
  */
 
+// A token symbol from the network's token registry ('SOL', 'USDC', ...)
+export type Currency = string;
+
+// Solana clusters the fund can run on
+export type Network = 'devnet' | 'mainnet';
+
 // A donation received into the fund
 export interface Donation {
   id: string;
   txHash: string;
   from: string; // donor wallet address
-  amount: number; // in SOL or USDC (human-readable, not lamports)
-  currency: 'SOL' | 'USDC';
+  amount: bigint; // base units: lamports for SOL, 10^-decimals for SPL tokens
+  currency: Currency;
   timestamp: Date;
   memo?: string; // optional donor message
+  restriction?: string; // category this donation may only be spent on
+  valuation?: FiatValuation; // USD value at the time of the gift
+}
+
+// USD value of a donation or allocation at the time it happened
+export interface FiatValuation {
+  usd: bigint; // cents
+  price: string; // USD per whole token used for the valuation
+  source: string; // name of the price source
+  pricedAt: Date; // time of the price point
 }
 
 // An allocation from the fund to a recipient
@@ -19,11 +35,148 @@ export interface Allocation {
   txHash: string;
   to: string; // recipient wallet address
   recipientName: string;
-  amount: number;
-  currency: 'SOL' | 'USDC';
+  amount: bigint; // base units
+  currency: Currency;
   purpose: string; // what the funds are for
+  category?: string; // lets restricted donations for this category fund it
   timestamp: Date;
   donationIds: string[]; // which donations funded this
+  funding: FundingShare[]; // exactly how much each donation contributed
+  matchingStrategy: string; // how the funding was chosen: 'manual', 'fifo', 'pro-rata', ...
+  proposalId?: string; // the approved proposal this allocation executed
+  intentId?: string; // the write-ahead intent recorded before the transfer
+  grantId?: string; // the grant this allocation is a tranche of
+  milestone?: number; // index of the grant milestone it pays
+  valuation?: FiatValuation; // USD value at the time of the transfer
+}
+
+// Why money moved back: a recipient returning unused funds, a failed project
+// refunding its allocation, or the fund refunding a donor
+export type RefundKind = 'recipient_return' | 'project_refund' | 'donor_refund';
+
+// Money moving back through the fund, linked to the record it reverses
+export interface Refund {
+  id: string;
+  kind: RefundKind;
+  txHash: string;
+  from: string;
+  to: string;
+  amount: bigint; // base units
+  currency: Currency;
+  allocationId?: string; // returns and project refunds: the allocation paid back
+  donationId?: string; // donor refunds: the donation given back
+  funding: FundingShare[]; // the donations whose balance this restores (returns) or reduces (donor refunds)
+  reason: string;
+  timestamp: Date;
+  intentId?: string; // donor refunds: the write-ahead intent recorded before the transfer
+}
+
+// Where a write-ahead allocation intent stands
+export type IntentStatus = 'pending' | 'finalized' | 'abandoned';
+
+// Written before an outgoing transfer so a crash can't leave it unrecorded.
+// Donor refunds go through intents too; `refund` marks them.
+export interface AllocationIntent {
+  id: string;
+  status: IntentStatus;
+  to: string;
+  recipientName: string;
+  amount: bigint; // base units
+  currency: Currency;
+  purpose: string;
+  category?: string;
+  proposalId?: string;
+  grantId?: string;
+  milestone?: number;
+  funding: FundingShare[]; // reserved while pending
+  matchingStrategy: string;
+  createdAt: Date;
+  refund?: { donationId: string; from: string }; // set on donor refund intents; purpose holds the reason
+  txHash?: string; // set as soon as the wallet reports the transfer
+  allocationId?: string; // set when finalized
+  refundId?: string; // set when a refund intent is finalized
+  resolvedAt?: Date;
+  resolution?: string; // how it was finalized or why it was abandoned
+}
+
+// Where an allocation proposal is in its lifecycle
+export type ProposalStatus = 'draft' | 'approved' | 'executed' | 'rejected' | 'expired';
+
+// Who may approve allocation proposals, and how many of them must
+export interface ApprovalPolicy {
+  approvers: string[]; // identities allowed to approve (names or wallet addresses)
+  required: number; // approvals needed before a proposal can execute (M of N)
+  ttlMs?: number; // how long a proposal stays open, default 7 days
+}
+
+// One approver signing off on a proposal
+export interface ProposalApproval {
+  approver: string;
+  timestamp: Date;
+  note?: string;
+}
+
+// An allocation waiting for approval; no money moves until it is approved and executed
+export interface AllocationProposal {
+  id: string;
+  to: string; // recipient wallet address
+  recipientName: string;
+  amount: bigint; // base units
+  currency: Currency;
+  purpose: string;
+  category?: string;
+  funding: FundingShare[]; // funding the approvers sign off on
+  matchingStrategy: string;
+  proposedBy: string;
+  approvers: string[]; // approver set when the proposal was made
+  requiredApprovals: number;
+  approvals: ProposalApproval[];
+  status: ProposalStatus;
+  createdAt: Date;
+  expiresAt: Date;
+  rejection?: { approver: string; reason: string; timestamp: Date };
+  allocationId?: string; // set once executed
+}
+
+// Where a milestone grant stands
+export type GrantStatus = 'active' | 'completed' | 'cancelled';
+
+// One tranche of a grant
+export interface GrantMilestone {
+  description: string; // what the recipient must prove to unlock the next tranche
+  amount: bigint; // base units
+  allocationId?: string; // set once the tranche is released
+  releasedAt?: Date;
+}
+
+// A commitment to a recipient paid out milestone by milestone; each tranche
+// after the first waits for a verified proof of the previous milestone
+export interface Grant {
+  id: string;
+  to: string; // recipient wallet address
+  recipientName: string;
+  amount: bigint; // total commitment, the sum of the milestones
+  currency: Currency;
+  purpose: string;
+  category?: string;
+  milestones: GrantMilestone[];
+  funding: FundingShare[]; // reserved for the whole commitment; tranches spend it in order
+  matchingStrategy: string;
+  status: GrantStatus;
+  createdAt: Date;
+  cancellation?: { reason: string; timestamp: Date };
+}
+
+// How an allocation will be paid for, worked out before any money moves
+export interface FundingPlan {
+  funding: FundingShare[];
+  matchingStrategy: string;
+}
+
+// The part of an allocation paid for by a single donation
+export interface FundingShare {
+  donationId: string;
+  amount: bigint; // base units
 }
 
 // Proof of impact submitted by a recipient
@@ -33,24 +186,174 @@ export interface ProofOfImpact {
   recipientAddress: string;
   description: string;
   evidenceLinks: string[]; // URLs to photos, documents, etc.
+  evidenceHashes: string[]; // hex SHA-256 of each evidence file, covered by the signature
+  signature?: string; // recipient's ed25519 signature (base64); absent on proofs from before signing was required
+  signedAt?: string; // ISO 8601 time the recipient signed, part of the signed payload; absent on older proofs
+  timestamp: Date;
+  status: ProofStatus;
+  reviews: ProofReview[]; // every status change, oldest first
+  verified: boolean; // true once status is 'verified'
+}
+
+// Where a proof of impact stands in review
+export type ProofStatus = 'submitted' | 'under_review' | 'verified' | 'rejected' | 'needs_more_info';
+
+// One status change of a proof, and who made it
+export interface ProofReview {
+  from: ProofStatus;
+  to: ProofStatus;
+  by: string; // reviewer, or the recipient when resubmitting
+  note?: string; // why; required to reject or ask for more information
   timestamp: Date;
-  verified: boolean; // whether the agent has verified the proof
 }
 
 // Summary of the fund's current state
 export interface FundSummary {
-  totalReceived: number;
-  totalAllocated: number;
-  totalRemaining: number;
+  totalReceived: bigint; // base units
+  totalAllocated: bigint;
+  totalRemaining: bigint;
+  totalCommitted: bigint; // promised to active grants but not yet released; part of totalRemaining
+  totalReturned: bigint; // paid back to the fund by recipients and projects; part of totalRemaining
+  totalRefunded: bigint; // sent back to donors; taken out of totalRemaining
   donationCount: number;
   allocationCount: number;
   proofsSubmitted: number;
-  currency: 'SOL' | 'USDC';
+  currency: Currency;
+  restricted: Record<string, RestrictedBalance>; // per restriction category
+  fiat: FiatSummary;
+}
+
+// USD totals for one currency, from the valuations stamped on each record
+export interface FiatSummary {
+  receivedUsd: bigint; // cents, donations at their time-of-gift value
+  allocatedUsd: bigint; // cents, allocations at their time-of-transfer value
+  realizedGainUsd: bigint; // cents; what donated tokens gained (or lost, negative) before being spent
+  unvalued: number; // donations and allocations without a valuation, left out of the totals
+}
+
+// One of a donor's donations and where it went
+export interface DonorDonation {
+  donation: Donation;
+  allocations: Array<{
+    allocation: Allocation;
+    amount: bigint; // this donation's share of the allocation
+    proofs: ProofOfImpact[];
+  }>;
+  remaining: bigint; // not yet allocated
+}
+
+// What one address gave in one currency
+export interface DonorTotals {
+  donated: bigint;
+  allocated: bigint; // sent to recipients, less what they returned
+  committed: bigint; // held for grant tranches not yet released
+  pending: bigint; // reserved by allocations and refunds still in flight
+  refunded: bigint;
+  remaining: bigint;
+}
+
+// Everything a donor address gave and what it funded
+export interface DonorHistory {
+  address: string;
+  donations: DonorDonation[]; // oldest first
+  totals: Record<Currency, DonorTotals>; // per currency donated
+  recipients: string[]; // names of recipients the donor's money reached
+  proofs: { submitted: number; verified: number }; // across every allocation the donor funded
+}
+
+// Totals for donations restricted to one category
+export interface RestrictedBalance {
+  received: bigint;
+  allocated: bigint;
+  committed: bigint; // held for grant tranches not yet released
+  remaining: bigint; // free to allocate
 }
 
 // A complete audit trail entry
 export interface AuditEntry {
-  type: 'donation' | 'allocation' | 'proof';
-  data: Donation | Allocation | ProofOfImpact;
+  type: 'donation' | 'allocation' | 'proof' | 'proposal' | 'grant' | 'refund';
+  data: Donation | Allocation | ProofOfImpact | AllocationProposal | Grant | Refund;
   timestamp: Date;
 }
+
+// Kinds of change recorded in the hash-chained audit log
+export type AuditLogEntryType =
+  | 'donation'
+  | 'allocation'
+  | 'proof'
+  | 'proof_verified' // written before proofs had a review workflow
+  | 'proof_reviewed'
+  | 'migration'
+  | 'valuation'
+  | 'proposal'
+  | 'proposal_approved'
+  | 'proposal_rejected'
+  | 'proposal_expired'
+  | 'proposal_executed'
+  | 'grant'
+  | 'grant_tranche_released'
+  | 'grant_cancelled'
+  | 'refund'
+  | 'anchor'
+  | 'intent'
+  | 'intent_sent'
+  | 'intent_finalized'
+  | 'intent_abandoned';
+
+// A single link in the hash-chained audit log
+export interface AuditLogEntry {
+  seq: number; // position in the log, starting at 0
+  type: AuditLogEntryType;
+  recordId: string; // id of the donation, allocation, proof or proposal
+  data: unknown; // JSON snapshot of the record after the change
+  timestamp: string; // ISO time the entry was appended
+  prevHash: string; // hash of the previous entry
+  hash: string; // sha256 over this entry (excluding the hash itself)
+}
+
+// Result of checking the audit log and ledger for tampering
+export interface IntegrityReport {
+  valid: boolean;
+  entriesChecked: number;
+  firstBrokenSeq?: number; // first entry that fails verification
+  reason?: string;
+}
+
+// Inclusion proof for one leaf of a Merkle tree
+export interface MerkleProof {
+  leaf: string; // hex hash of the leaf (an audit log entry hash)
+  index: number;
+  siblings: Array<{ hash: string; position: 'left' | 'right' }>;
+  root: string;
+}
+
+// A Merkle root of the audit log published on-chain as a memo
+export interface AuditAnchor {
+  id: string;
+  root: string;
+  fromSeq: number; // first audit log entry covered
+  toSeq: number; // last audit log entry covered (inclusive)
+  txHash: string; // memo transaction carrying the root
+  network: Network;
+  timestamp: Date;
+}
+
+// Everything a donor needs to check a record against an on-chain anchor
+export interface InclusionProof {
+  recordId: string;
+  entry: AuditLogEntry;
+  anchor: AuditAnchor;
+  proof: MerkleProof;
+}
+
+// A transaction signature that appears on more than one ledger record
+export interface DuplicateTransaction {
+  txHash: string;
+  records: Array<{
+    type: 'donation' | 'allocation' | 'refund';
+    id: string;
+    amount: bigint;
+    currency: Currency;
+    timestamp: Date;
+  }>;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { AgentWalletBackend } from './wallet';
+import { TransparentFund } from './index';
+import { parseAmount } from './money';
+import { FakeChain } from './test-support/fake-chain';
+
+const newAddress = () => Keypair.generate().publicKey.toBase58();
+const sol = (value: string) => parseAmount(value, 'SOL');
+
+describe('AgentWalletBackend transfers', () => {
+  let fund: TransparentFund;
+  let backend: AgentWalletBackend;
+
+  beforeEach(async () => {
+    const chain = new FakeChain();
+    fund = new TransparentFund({ autoSave: false, connection: chain.connection() });
+    backend = new AgentWalletBackend({ username: 'eve', apiToken: 'token', solanaAddress: newAddress(), baseUrl: 'https://wallet.test/api' });
+    await fund.connectWallet(backend);
+    fund.tracker.recordDonation({ txHash: 'tx_in', from: newAddress(), amount: sol('1'), currency: 'SOL', timestamp: new Date() });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const answer = (status: number, body: string) =>
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(body, { status, headers: { 'Content-Type': 'application/json' } }));
+
+  it('should release the funding when AgentWallet refuses the transfer', async () => {
+    answer(400, '{"message":"Insufficient balance"}');
+    await expect(backend.transferSol(newAddress(), 1n)).resolves.toEqual({ success: false, error: 'Insufficient balance' });
+
+    await expect(fund.allocateFunds(newAddress(), 'Library', sol('0.4'), 'SOL', 'Books')).rejects.toThrow('Transfer failed: Insufficient balance');
+    expect(fund.tracker.getPendingIntents()).toHaveLength(0);
+    expect(fund.tracker.getSummary().totalRemaining).toBe(sol('1'));
+  });
+
+  it('should keep the intent pending when the outcome is unknown', async () => {
+    answer(502, '<html>Bad Gateway</html>');
+    await expect(fund.allocateFunds(newAddress(), 'Library', sol('0.4'), 'SOL', 'Books')).rejects.toThrow('HTTP 502');
+
+    expect(fund.tracker.getPendingIntents()).toMatchObject([{ status: 'pending', amount: sol('0.4') }]);
+    expect(() => fund.tracker.planFunding(sol('0.7'), 'SOL')).toThrow(expect.objectContaining({ code: 'insufficient_funds' }));
+
+    answer(200, 'not json');
+    await expect(backend.transferSol(newAddress(), 1n)).rejects.toThrow('without a transaction hash');
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+    await expect(backend.transferSol(newAddress(), 1n)).rejects.toThrow('fetch failed');
+  });
+});
@@ -1,9 +1,17 @@
 /**
- * Wallet integration via AgentWallet API
+ * Wallet integration
  * 
- * Handles actual Solana transactions for the transparent fund
+ * Handles actual Solana transactions for the transparent fund.
+ * WalletManager delegates to a WalletBackend: the hosted AgentWallet API
+ * (below) or a local keypair that signs transactions itself (keypair-wallet.ts).
+ * Every call goes to the network the backend was created for.
  */
 
+import { Currency, Network } from './types';
+import { NetworkConfig, NETWORK_DEFAULTS } from './network';
+import { TokenInfo, TokenRegistry } from './tokens';
+import { LocalKeypairBackend } from './keypair-wallet';
+
 interface AgentWalletConfig {
   username: string;
   apiToken: string;
@@ -11,26 +19,136 @@ interface AgentWalletConfig {
   baseUrl: string;
 }
 
-interface TransferResult {
+export interface TransferResult {
   success: boolean;
   txHash?: string;
   error?: string;
 }
 
-export interface Balance {
-  sol: number;
-  usdc: number;
+// Balances in base units keyed by token symbol; every registry token is present
+export type Balance = Record<Currency, bigint>;
+
+/**
+ * Something that holds the fund's keys and can move its money.
+ * Transfers resolve with success: false only when nothing was sent; they
+ * throw when the outcome is unknown, so the allocation intent stays pending.
+ */
+export interface WalletBackend {
+  getAddress(): string;
+  getNetwork(): Network;
+  getBalances(): Promise<Balance>;
+  transferSol(to: string, lamports: bigint): Promise<TransferResult>;
+  transferToken(to: string, units: bigint, token: TokenInfo): Promise<TransferResult>; // SPL tokens from the registry
+  sendMemo(memo: string): Promise<TransferResult>;
+  requestDevnetFaucet(): Promise<TransferResult>;
+  signMessage?(message: Uint8Array): Promise<Uint8Array>; // ed25519 by the fund address; omitted by backends that can't
 }
 
 export class WalletManager {
+  private backend: WalletBackend;
+
+  constructor(backend: WalletBackend) {
+    this.backend = backend;
+  }
+
+  // Use the AgentWallet account in ~/.agentwallet/config.json
+  static async fromConfigFile(network: Network | NetworkConfig = 'devnet'): Promise<WalletManager> {
+    return new WalletManager(await AgentWalletBackend.fromConfigFile(network));
+  }
+
+  // Sign locally with a Solana CLI keypair file (defaults to ~/.config/solana/id.json)
+  static async fromKeypairFile(keypairPath?: string, network: Network | NetworkConfig = 'devnet'): Promise<WalletManager> {
+    return new WalletManager(await LocalKeypairBackend.fromFile(keypairPath, network));
+  }
+
+  getBackend(): WalletBackend {
+    return this.backend;
+  }
+
+  getAddress(): string {
+    return this.backend.getAddress();
+  }
+
+  getNetwork(): Network {
+    return this.backend.getNetwork();
+  }
+
+  getBalances(): Promise<Balance> {
+    return this.backend.getBalances();
+  }
+
+  // Transfer SOL to a recipient (amount in lamports)
+  transferSol(to: string, lamports: bigint): Promise<TransferResult> {
+    return this.backend.transferSol(to, lamports);
+  }
+
+  // Transfer an SPL token to a recipient (amount in the token's base units)
+  transferToken(to: string, units: bigint, token: TokenInfo): Promise<TransferResult> {
+    return this.backend.transferToken(to, units, token);
+  }
+
+  // Publish a memo transaction (used to anchor audit log roots on-chain)
+  sendMemo(memo: string): Promise<TransferResult> {
+    return this.backend.sendMemo(memo);
+  }
+
+  requestDevnetFaucet(): Promise<TransferResult> {
+    return this.backend.requestDevnetFaucet();
+  }
+
+  canSignMessages(): boolean {
+    return typeof this.backend.signMessage === 'function';
+  }
+
+  // Sign arbitrary bytes with the fund's key (used for donor receipts)
+  signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!this.backend.signMessage) {
+      throw new Error('This wallet backend cannot sign messages');
+    }
+    return this.backend.signMessage(message);
+  }
+}
+
+// Custodial wallet hosted by the AgentWallet HTTP API
+/**
+ * A 4xx means AgentWallet refused the request, so nothing was sent. Anything
+ * else that isn't a transaction hash (a 5xx, a gateway timeout, a body that
+ * isn't JSON) may come after the broadcast: throw so the intent stays pending.
+ */
+async function readTransferResponse(response: Response): Promise<TransferResult> {
+  const text = await response.text();
+  let data: { message?: string; txHash?: unknown } | undefined;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = undefined;
+  }
+
+  if (response.status >= 400 && response.status < 500) {
+    return { success: false, error: data?.message || response.statusText };
+  }
+  if (!response.ok) {
+    throw new Error(`AgentWallet answered HTTP ${response.status} ${response.statusText}; the transfer may have been sent`);
+  }
+  if (typeof data?.txHash !== 'string') {
+    throw new Error(`AgentWallet accepted the request without a transaction hash: ${text.slice(0, 200)}`);
+  }
+  return { success: true, txHash: data.txHash };
+}
+
+export class AgentWalletBackend implements WalletBackend {
   private config: AgentWalletConfig;
+  private network: NetworkConfig;
+  private tokens: TokenRegistry;
 
-  constructor(config: AgentWalletConfig) {
+  constructor(config: AgentWalletConfig, network: Network | NetworkConfig = 'devnet') {
     this.config = config;
+    this.network = typeof network === 'string' ? NETWORK_DEFAULTS[network] : network;
+    this.tokens = new TokenRegistry(this.network.tokens);
   }
 
   // Load config from ~/.agentwallet/config.json
-  static async fromConfigFile(): Promise<WalletManager> {
+  static async fromConfigFile(network: Network | NetworkConfig = 'devnet'): Promise<AgentWalletBackend> {
     const fs = await import('fs/promises');
     const path = await import('path');
     const os = await import('os');
@@ -39,12 +157,12 @@ export class WalletManager {
     const configData = await fs.readFile(configPath, 'utf-8');
     const config = JSON.parse(configData);
     
-    return new WalletManager({
+    return new AgentWalletBackend({
       username: config.username,
       apiToken: config.apiToken,
       solanaAddress: config.solanaAddress,
       baseUrl: 'https://agentwallet.mcpay.tech/api'
-    });
+    }, network);
   }
 
   // Get wallet address
@@ -52,8 +170,21 @@ export class WalletManager {
     return this.config.solanaAddress;
   }
 
+  getNetwork(): Network {
+    return this.network.network;
+  }
+
+  /**
+   * AgentWallet names assets by lowercase symbol ('sol', 'usdc') and only knows
+   * the network's default mints, so a same-symbol custom mint has no asset name
+   */
+  private assetName(token: TokenInfo): string | undefined {
+    const builtIn = NETWORK_DEFAULTS[this.network.network].tokens.find(t => t.symbol === token.symbol);
+    return builtIn && builtIn.mint === token.mint ? token.symbol.toLowerCase() : undefined;
+  }
+
   // Check balances
-  async getBalances(network: 'mainnet' | 'devnet' = 'devnet'): Promise<Balance> {
+  async getBalances(): Promise<Balance> {
     const response = await fetch(
       `${this.config.baseUrl}/wallets/${this.config.username}/balances`,
       {
@@ -70,29 +201,24 @@ export class WalletManager {
     const data = await response.json();
     
     // Parse balances from solana wallet balances array
-    const chainName = network === 'devnet' ? 'solana-devnet' : 'solana';
+    const chainName = this.network.walletChain;
     const solanaBalances = data.solana?.balances || [];
     
-    let sol = 0;
-    let usdc = 0;
+    const balances: Balance = Object.fromEntries(this.tokens.symbols().map(symbol => [symbol, 0n]));
     
+    // Custom tokens stay at 0n: AgentWallet does not report their mints
     for (const bal of solanaBalances) {
-      if (bal.chain === chainName) {
-        if (bal.asset === 'sol') {
-          sol = parseInt(bal.rawValue || '0') / 1e9;
-        } else if (bal.asset === 'usdc') {
-          usdc = parseInt(bal.rawValue || '0') / 1e6;
-        }
+      const token = this.tokens.get(String(bal.asset).toUpperCase());
+      if (bal.chain === chainName && token && this.assetName(token) === String(bal.asset)) {
+        balances[token.symbol] = BigInt(bal.rawValue || '0');
       }
     }
     
-    return { sol, usdc };
+    return balances;
   }
 
-  // Transfer SOL to a recipient
-  async transferSol(to: string, amount: number, network: 'mainnet' | 'devnet' = 'devnet'): Promise<TransferResult> {
-    const lamports = Math.floor(amount * 1e9).toString();
-    
+  // Transfer SOL to a recipient (amount in lamports)
+  async transferSol(to: string, lamports: bigint): Promise<TransferResult> {
     const response = await fetch(
       `${this.config.baseUrl}/wallets/${this.config.username}/actions/transfer-solana`,
       {
@@ -103,26 +229,26 @@ export class WalletManager {
         },
         body: JSON.stringify({
           to,
-          amount: lamports,
+          amount: lamports.toString(),
           asset: 'sol',
-          network
+          network: this.network.network
         })
       }
     );
 
-    const data = await response.json();
+    return readTransferResponse(response);
+  }
 
-    if (!response.ok) {
-      return { success: false, error: data.message || response.statusText };
+  // Transfer an SPL token to a recipient (amount in the token's base units)
+  async transferToken(to: string, units: bigint, token: TokenInfo): Promise<TransferResult> {
+    const asset = this.assetName(token);
+    if (!asset) {
+      return {
+        success: false,
+        error: `AgentWallet only transfers the ${this.network.network} default tokens; ${token.symbol} mint ${token.mint} needs a local keypair wallet`
+      };
     }
 
-    return { success: true, txHash: data.txHash };
-  }
-
-  // Transfer USDC to a recipient
-  async transferUsdc(to: string, amount: number, network: 'mainnet' | 'devnet' = 'devnet'): Promise<TransferResult> {
-    const units = Math.floor(amount * 1e6).toString();
-    
     const response = await fetch(
       `${this.config.baseUrl}/wallets/${this.config.username}/actions/transfer-solana`,
       {
@@ -133,24 +259,42 @@ export class WalletManager {
         },
         body: JSON.stringify({
           to,
-          amount: units,
-          asset: 'usdc',
-          network
+          amount: units.toString(),
+          asset,
+          network: this.network.network
         })
       }
     );
 
-    const data = await response.json();
+    return readTransferResponse(response);
+  }
 
-    if (!response.ok) {
-      return { success: false, error: data.message || response.statusText };
-    }
+  // Publish a memo transaction (used to anchor audit log roots on-chain)
+  async sendMemo(memo: string): Promise<TransferResult> {
+    const response = await fetch(
+      `${this.config.baseUrl}/wallets/${this.config.username}/actions/memo-solana`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.apiToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          memo,
+          network: this.network.network
+        })
+      }
+    );
 
-    return { success: true, txHash: data.txHash };
+    return readTransferResponse(response);
   }
 
   // Request devnet SOL from faucet (rate limited: 3 per 24h)
   async requestDevnetFaucet(): Promise<TransferResult> {
+    if (this.network.network !== 'devnet') {
+      return { success: false, error: 'The faucet is only available on devnet' };
+    }
+
     const response = await fetch(
       `${this.config.baseUrl}/wallets/${this.config.username}/actions/faucet-sol`,
       {
@@ -163,12 +307,6 @@ export class WalletManager {
       }
     );
 
-    const data = await response.json();
-
-    if (!response.ok) {
-      return { success: false, error: data.message || response.statusText };
-    }
-
-    return { success: true, txHash: data.txHash };
+    return readTransferResponse(response);
   }
 }